@@ -1,21 +1,61 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { onAuthStateChanged, signOut, User } from 'firebase/auth';
-import { doc, getDoc, setDoc, onSnapshot, updateDoc, arrayUnion } from 'firebase/firestore';
+import { doc, getDoc, setDoc, onSnapshot } from 'firebase/firestore';
 import { auth, db } from './firebase';
-import { UserProfile, ROOT_OWNER_EMAIL, SessionMetadata } from './types';
+import { UserProfile, ROOT_OWNER_EMAIL, SecuritySettings, SessionEndReason, SessionMetadata, SessionSettings } from './types';
 import Login from './components/Login';
 import Register from './components/Register';
 import UserDashboard from './components/UserDashboard';
 import AdminPanel from './components/AdminPanel';
+import TwoFactorSetup from './components/TwoFactorSetup';
+import TwoFactorChallenge from './components/TwoFactorChallenge';
+import RecoveryCodesView from './components/RecoveryCodesView';
+import { recordAudit } from './services/auditService';
+import { ACTIVITY_WRITE_INTERVAL_MS, DEFAULT_SESSION_SETTINGS, getSessionState, planPendingApproval } from './services/sessions';
+import { approvePendingSession, denyPendingSession, endSessions, loadSessionSettings, startSession, subscribeSessionSettings, touchSession } from './services/sessionService';
+import { describeDevice, parseUserAgent, summarizeDevice } from './services/deviceInfo';
+import { DEFAULT_SECURITY_SETTINGS, isSignInVerified, needsSecondFactor } from './services/mfa';
+import { subscribeSecuritySettings } from './services/mfaService';
+import { redeemInvite } from './services/inviteService';
+import { PENDING_INVITE_STORAGE_KEY, normalizeInviteCode } from './services/invites';
 import { v4 as uuidv4 } from 'uuid';
 
+const SESSION_END_MESSAGES: Record<SessionEndReason, { title: string; text: string }> = {
+  replaced: { title: 'Session Overwritten', text: 'This account is now active on another device and has reached its device limit.' },
+  revoked: { title: 'Session Revoked', text: 'This device was signed out from another session.' },
+  idle: { title: 'Session Timed Out', text: 'This device was signed out after a period of inactivity.' },
+  expired: { title: 'Session Expired', text: 'Sessions on this account last a limited time. Sign in again to continue.' },
+  signedOut: { title: 'Signed Out', text: 'This device was signed out.' }
+};
+
+// How often the session state is re-evaluated, so timeouts end the session without a profile change.
+const SESSION_CHECK_INTERVAL_MS = 30_000;
+
+// An invite link (?invite=CODE) opens registration with the code filled in.
+const takeInviteFromUrl = () => {
+  const url = new URL(window.location.href);
+  const code = normalizeInviteCode(url.searchParams.get('invite') || '');
+  if (!code) return false;
+  localStorage.setItem(PENDING_INVITE_STORAGE_KEY, code);
+  url.searchParams.delete('invite');
+  window.history.replaceState(null, '', url.toString());
+  return true;
+};
+
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'login' | 'register'>('login');
+  const [view, setView] = useState<'login' | 'register'>(() => (takeInviteFromUrl() ? 'register' : 'login'));
   const [permissionError, setPermissionError] = useState<string | null>(null);
   const [isAdminView, setIsAdminView] = useState(true);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [now, setNow] = useState(Date.now());
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS);
+  const [authTime, setAuthTime] = useState<number | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const endingSession = useRef<string | null>(null);
+  const redeemingInvite = useRef(false);
 
   const getLocalSessionId = useCallback(() => {
     let sid = localStorage.getItem('flexer_sid');
@@ -26,9 +66,6 @@ const App: React.FC = () => {
     return sid;
   }, []);
 
-  const getDeviceName = () => {
-    return navigator.userAgent.split(') ')[0].split('(')[1] || 'Unknown Device';
-  };
 
   useEffect(() => {
     let unsubscribeProfile: (() => void) | null = null;
@@ -44,51 +81,34 @@ const App: React.FC = () => {
         try {
           const userDoc = await getDoc(userDocRef);
           
+          const info = parseUserAgent(navigator.userAgent, navigator.maxTouchPoints);
+          const signInTime = Date.now();
+          const device: SessionMetadata = {
+            sid: currentSid,
+            deviceName: summarizeDevice(info),
+            ...info,
+            firstSeenAt: signInTime,
+            timestamp: signInTime
+          };
+
           if (!userDoc.exists()) {
             const isOwner = firebaseUser.email === ROOT_OWNER_EMAIL;
-            const session: SessionMetadata = {
-              sid: currentSid,
-              deviceName: getDeviceName(),
-              timestamp: Date.now()
-            };
             const newProfile: UserProfile = {
               uid: firebaseUser.uid,
               email: firebaseUser.email || '',
               isAdmin: isOwner, 
               isOwner: isOwner,
               isApproved: isOwner,
-              lastSessionId: currentSid,
-              authorizedSessions: isOwner ? [session] : [],
+              lastSessionId: '',
+              authorizedSessions: [device],
               pendingSessionId: null
             };
             await setDoc(userDocRef, newProfile);
             setProfile(newProfile);
           } else {
-            const existingProfile = userDoc.data() as UserProfile;
-            const isPrivileged = existingProfile.isAdmin || existingProfile.isOwner;
-
-            if (isPrivileged) {
-              const isAlreadyAuthorized = existingProfile.authorizedSessions?.some(s => s.sid === currentSid);
-              if (!isAlreadyAuthorized) {
-                const newSession: SessionMetadata = {
-                  sid: currentSid,
-                  deviceName: getDeviceName(),
-                  timestamp: Date.now()
-                };
-                await updateDoc(userDocRef, {
-                  authorizedSessions: arrayUnion(newSession)
-                });
-              }
-            } else if (existingProfile.lastSessionId !== currentSid) {
-              await updateDoc(userDocRef, { 
-                pendingSessionId: currentSid,
-                pendingSessionMetadata: {
-                  sid: currentSid,
-                  deviceName: getDeviceName(),
-                  timestamp: Date.now()
-                }
-              });
-            }
+            const settings = await loadSessionSettings();
+            setSessionSettings(settings);
+            await startSession(firebaseUser.uid, settings, device);
           }
 
           unsubscribeProfile = onSnapshot(userDocRef, (snapshot) => {
@@ -101,6 +121,9 @@ const App: React.FC = () => {
             }
           });
 
+          // The second factor is checked per sign-in, which the token's auth_time identifies.
+          const token = await firebaseUser.getIdTokenResult();
+          setAuthTime(Number(token.claims.auth_time));
           setUser(firebaseUser);
         } catch (err: any) {
           console.error("Auth Error:", err);
@@ -109,6 +132,8 @@ const App: React.FC = () => {
       } else {
         setUser(null);
         setProfile(null);
+        setAuthTime(null);
+        setRecoveryCodes(null);
         if (unsubscribeProfile) unsubscribeProfile();
       }
       setLoading(false);
@@ -120,26 +145,108 @@ const App: React.FC = () => {
     };
   }, [getLocalSessionId]);
 
+  useEffect(() => {
+    if (!user) return;
+    return subscribeSessionSettings(setSessionSettings);
+  }, [user]);
+
+  useEffect(() => {
+    if (!profile?.isApproved) return;
+    return subscribeSecuritySettings(setSecuritySettings);
+  }, [profile?.isApproved]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SESSION_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sessionState = profile ? getSessionState(profile, getLocalSessionId(), sessionSettings, now) : null;
+  const isSessionActive = sessionState?.status === 'active';
+
+  // A session that timed out is removed here, and the profile snapshot then confirms it.
+  useEffect(() => {
+    if (!profile || sessionState?.status !== 'ended' || (sessionState.reason !== 'idle' && sessionState.reason !== 'expired')) return;
+    const sid = getLocalSessionId();
+    if (endingSession.current === sid || !profile.authorizedSessions?.some(s => s.sid === sid)) return;
+    endingSession.current = sid;
+    endSessions(profile.uid, [sid], sessionState.reason).catch(err => console.error("Ending expired session failed:", err));
+  }, [profile, sessionState?.status, getLocalSessionId]);
+
+  // Interaction marks the device as in use, and the heartbeat records it at most once per interval,
+  // so an open but untouched tab still idles out.
+  useEffect(() => {
+    if (!profile || !isSessionActive) return;
+    const uid = profile.uid;
+    const sid = getLocalSessionId();
+    let interacted = true;
+    const onActivity = () => { interacted = true; };
+    const beat = () => {
+      setNow(Date.now());
+      if (!interacted) return;
+      interacted = false;
+      touchSession(uid, sid, sessionSettings).catch(err => console.error("Session heartbeat failed:", err));
+    };
+    beat();
+    const timer = setInterval(beat, ACTIVITY_WRITE_INTERVAL_MS);
+    const events = ['pointerdown', 'keydown'];
+    events.forEach(e => window.addEventListener(e, onActivity));
+    return () => {
+      clearInterval(timer);
+      events.forEach(e => window.removeEventListener(e, onActivity));
+    };
+  }, [profile?.uid, isSessionActive, sessionSettings, getLocalSessionId]);
+
+  const handleRedeemInvite = useCallback(async (code: string) => {
+    if (!profile) return;
+    // The gateway audits the redemption in the same transaction.
+    await redeemInvite(code);
+  }, [profile]);
+
+  // A code entered at registration is redeemed as soon as the new, unapproved profile exists.
+  useEffect(() => {
+    const code = localStorage.getItem(PENDING_INVITE_STORAGE_KEY);
+    if (!profile || !code || redeemingInvite.current) return;
+    if (profile.isApproved) {
+      localStorage.removeItem(PENDING_INVITE_STORAGE_KEY);
+      return;
+    }
+    redeemingInvite.current = true;
+    handleRedeemInvite(code)
+      .catch((err: any) => alert(`Invite not applied: ${err.message}`))
+      .finally(() => {
+        localStorage.removeItem(PENDING_INVITE_STORAGE_KEY);
+        redeemingInvite.current = false;
+      });
+  }, [profile, handleRedeemInvite]);
+
   const handleLogout = async () => {
+    // Frees the device slot; a pending or already ended device has nothing to release.
+    if (profile && isSessionActive) {
+      await endSessions(profile.uid, [getLocalSessionId()], 'signedOut').catch(err => console.error("Sign-out session update failed:", err));
+    }
     await signOut(auth);
     localStorage.removeItem('flexer_sid');
   };
 
-  const approvePendingSession = async () => {
-    if (!profile || !profile.pendingSessionId) return;
-    await updateDoc(doc(db, 'users', profile.uid), {
-      lastSessionId: profile.pendingSessionId,
-      pendingSessionId: null,
-      pendingSessionMetadata: null
-    });
+  const handleApprovePending = async () => {
+    if (!profile) return;
+    await approvePendingSession(profile.uid, sessionSettings, (tx, result) => recordAudit(profile, {
+      action: 'session.authorize',
+      targetType: 'session',
+      targetId: result.device.sid,
+      targetLabel: `${profile.email} · ${describeDevice(result.device)}`,
+      before: { sessions: result.replaced.map(describeDevice) },
+      after: { device: result.device, replaced: result.replaced.map(s => s.sid) }
+    }, tx));
   };
 
-  const denyPendingSession = async () => {
+  const handleDenyPending = async () => {
     if (!profile) return;
-    await updateDoc(doc(db, 'users', profile.uid), {
-      pendingSessionId: null,
-      pendingSessionMetadata: null
-    });
+    await denyPendingSession(profile.uid);
+  };
+
+  const handleMfaEnrolled = (codes: string[]) => {
+    setRecoveryCodes(codes);
   };
 
   if (loading) {
@@ -167,21 +274,16 @@ const App: React.FC = () => {
     return view === 'login' ? <Login onSwitch={() => setView('register')} /> : <Register onSwitch={() => setView('login')} />;
   }
 
-  const currentSid = getLocalSessionId();
-  const isPrivileged = profile.isAdmin || profile.isOwner;
-
-  const isStale = !isPrivileged 
-    ? (profile.lastSessionId !== currentSid && profile.pendingSessionId !== currentSid)
-    : !profile.authorizedSessions?.some(s => s.sid === currentSid);
-
-  if (isStale) {
+  if (!sessionState || sessionState.status === 'ended') {
+    const message = SESSION_END_MESSAGES[sessionState?.status === 'ended' ? sessionState.reason : 'replaced'];
     return (
       <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4 text-center animate-in fade-in duration-500">
         <div className="max-w-md bg-[#111] p-10 rounded-3xl border border-red-500/20 shadow-2xl">
           <i className="fas fa-ghost text-5xl text-red-500 mb-6 drop-shadow-[0_0_10px_rgba(239,68,68,0.5)]"></i>
-          <h2 className="text-2xl font-bold text-white mb-4 uppercase tracking-tighter">Session Overwritten</h2>
+          <h2 className="text-2xl font-bold text-white mb-4 uppercase tracking-tighter">{message.title}</h2>
           <p className="text-gray-500 text-sm mb-8 leading-relaxed">
-            This account is now active on another device. Only one concurrent session is permitted for standard accounts.
+            {message.text}
+            {sessionState?.status === 'ended' && sessionState.byEmail && ` Revoked by ${sessionState.byEmail}.`}
           </p>
           <button onClick={handleLogout} className="w-full bg-red-600 hover:bg-red-700 text-white font-bold py-4 rounded-xl transition shadow-lg shadow-red-900/20">RE-AUTHENTICATE</button>
         </div>
@@ -189,52 +291,71 @@ const App: React.FC = () => {
     );
   }
 
-  if (!isPrivileged) {
-    if (profile.pendingSessionId === currentSid) {
-      return (
-        <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
-          <div className="max-w-md w-full bg-[#111] p-8 rounded-3xl border border-gray-800 text-center shadow-2xl">
-            <div className="w-20 h-20 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-6 border border-blue-500/20">
-              <i className="fas fa-mobile-screen text-3xl text-blue-500 animate-pulse"></i>
-            </div>
-            <h2 className="text-2xl font-bold text-white mb-2">Awaiting Verification</h2>
-            <p className="text-gray-400 text-sm mb-8 leading-relaxed">
-              Open Flexer on your authorized device to approve this switch.
-            </p>
-            <button onClick={handleLogout} className="w-full bg-transparent border border-gray-800 py-3 rounded-xl text-gray-500 font-bold hover:bg-gray-800 transition">CANCEL</button>
+  if (sessionState.status === 'pending') {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-[#111] p-8 rounded-3xl border border-gray-800 text-center shadow-2xl">
+          <div className="w-20 h-20 bg-blue-500/10 rounded-full flex items-center justify-center mx-auto mb-6 border border-blue-500/20">
+            <i className="fas fa-mobile-screen text-3xl text-blue-500 animate-pulse"></i>
           </div>
+          <h2 className="text-2xl font-bold text-white mb-2">Awaiting Verification</h2>
+          <p className="text-gray-400 text-sm mb-8 leading-relaxed">
+            This account is signed in on as many devices as it may use. Open Flexer on one of them to approve this device, or ask an admin.
+          </p>
+          <button onClick={handleLogout} className="w-full bg-transparent border border-gray-800 py-3 rounded-xl text-gray-500 font-bold hover:bg-gray-800 transition">CANCEL</button>
         </div>
-      );
-    }
+      </div>
+    );
+  }
 
-    if (profile.pendingSessionId && profile.lastSessionId === currentSid) {
-      return (
-        <div className="min-h-screen bg-[#0a0a0a] relative">
-          <div className="absolute inset-0 z-[60] bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
-            <div className="max-w-md w-full bg-[#111] border border-blue-500/30 rounded-3xl p-8 shadow-2xl animate-in zoom-in-95">
-              <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-                <i className="fas fa-shield-alt text-blue-500"></i> Security Alert
-              </h3>
-              <p className="text-gray-400 text-sm mb-6 leading-relaxed">
-                Another device ({profile.pendingSessionMetadata?.deviceName}) is requesting access. Authorizing this will end your current session.
-              </p>
-              <div className="grid grid-cols-2 gap-4">
-                <button onClick={approvePendingSession} className="bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-2xl font-bold transition shadow-lg">AUTHORIZE</button>
-                <button onClick={denyPendingSession} className="bg-red-900/20 border border-red-500/30 text-red-500 py-4 rounded-2xl font-bold transition">DENY</button>
-              </div>
-            </div>
-          </div>
-          <UserDashboard profile={profile} onLogout={handleLogout} />
+  // Nothing past this point, least of all the admin panel, renders until this sign-in has passed the second factor.
+  if (needsSecondFactor(profile, securitySettings)) {
+    if (!profile.mfa?.enabled) return <TwoFactorSetup profile={profile} onEnrolled={handleMfaEnrolled} onLogout={handleLogout} />;
+    if (!isSignInVerified(profile, authTime)) return <TwoFactorChallenge profile={profile} onLogout={handleLogout} />;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-[#111] p-8 md:p-10 rounded-3xl shadow-2xl border border-gray-800">
+          <RecoveryCodesView email={profile.email} codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
         </div>
-      );
-    }
+      </div>
+    );
   }
 
-  if (profile.isAdmin && isAdminView) {
-    return <AdminPanel profile={profile} onLogout={handleLogout} onViewLive={() => setIsAdminView(false)} />;
+  const content = profile.isAdmin && isAdminView
+    ? <AdminPanel profile={profile} onLogout={handleLogout} onViewLive={() => setIsAdminView(false)} />
+    : <UserDashboard profile={profile} onLogout={handleLogout} onToggleAdmin={() => setIsAdminView(true)} onRedeemInvite={handleRedeemInvite} />;
+
+  if (profile.pendingSessionId) {
+    const replaced = planPendingApproval(profile, sessionSettings, now)?.replaced || [];
+    const endsThisDevice = replaced.some(s => s.sid === sessionState.session.sid);
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] relative">
+        <div className="absolute inset-0 z-[60] bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+          <div className="max-w-md w-full bg-[#111] border border-blue-500/30 rounded-3xl p-8 shadow-2xl animate-in zoom-in-95">
+            <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+              <i className="fas fa-shield-alt text-blue-500"></i> Security Alert
+            </h3>
+            <p className="text-gray-400 text-sm mb-6 leading-relaxed">
+              Another device ({profile.pendingSessionMetadata?.deviceName}) is requesting access.
+              {endsThisDevice
+                ? ' Authorizing this will end your current session.'
+                : replaced.length > 0 && ` Authorizing this will sign out ${replaced.map(describeDevice).join(', ')}.`}
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <button onClick={handleApprovePending} className="bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-2xl font-bold transition shadow-lg">AUTHORIZE</button>
+              <button onClick={handleDenyPending} className="bg-red-900/20 border border-red-500/30 text-red-500 py-4 rounded-2xl font-bold transition">DENY</button>
+            </div>
+          </div>
+        </div>
+        {content}
+      </div>
+    );
   }
 
-  return <UserDashboard profile={profile} onLogout={handleLogout} onToggleAdmin={() => setIsAdminView(true)} />;
+  return content;
 };
 
-export default App;
\ No newline at end of file
+export default App;
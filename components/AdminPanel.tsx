@@ -1,8 +1,42 @@
-import React, { useState, useEffect } from 'react';
-import { collection, onSnapshot, doc, updateDoc, addDoc, deleteDoc } from 'firebase/firestore';
+import React, { useState, useEffect, useMemo } from 'react';
+import { collection, onSnapshot, doc, writeBatch, deleteField } from 'firebase/firestore';
 import { updatePassword } from 'firebase/auth';
 import { auth, db } from '../firebase';
-import { UserProfile, OSINTTool, SessionMetadata } from '../types';
+import { UserProfile, OSINTTool, ToolDraft, ToolVersion, SessionSettings, SecuritySettings, Invite, LookupResult, AuditEntry, QuotaLimits, QuotaSettings, ToolGroup, PromptTemplate, AiProviderId, ResultMappingItem, ToolParam, ToolHeader, ToolAuth, HttpMethod, ToolBodyType, ToolAuthType } from '../types';
+import { PARAM_TYPES, extractPlaceholders, getToolParams } from '../services/toolSchema';
+import { normalizeToolConfig, validateToolConfig } from '../services/toolConfig';
+import { loadLookupResponse } from '../services/historyService';
+import { readAuditEntry, recordAudit, redactTool } from '../services/auditService';
+import { subscribeQuotaSettings, QUOTA_SETTINGS_PATH } from '../services/quotaService';
+import { normalizeQuota } from '../services/quota';
+import { MAX_CACHE_TTL_HOURS } from '../services/resultCache';
+import { MAPPING_KINDS } from '../services/resultMapping';
+import { ReportFormat, exportReport, loadReportEntries } from '../services/reportService';
+import { AI_PROVIDERS, getDefaultModel } from '../services/aiPrompt';
+import { testTool } from '../services/lookupService';
+import { buildTestReport, computeToolHealth } from '../services/toolHealth';
+import { ParsedToolBundle, parseToolBundle } from '../services/toolBundle';
+import { deleteTool, discardToolDraft, publishTool, rollbackTool, saveToolDraft, subscribeToolDrafts } from '../services/toolVersionService';
+import { DEFAULT_SESSION_SETTINGS, planPendingApproval } from '../services/sessions';
+import { approvePendingSession, subscribeSessionSettings } from '../services/sessionService';
+import { describeDevice } from '../services/deviceInfo';
+import { DEFAULT_SECURITY_SETTINGS } from '../services/mfa';
+import { resetMfa, saveSecuritySettings, subscribeSecuritySettings } from '../services/mfaService';
+import { subscribeInvites } from '../services/inviteService';
+import { backfillToolGroups } from '../services/toolService';
+import HistoryPanel from './HistoryPanel';
+import AuditLogPanel from './AuditLogPanel';
+import GroupsPanel from './GroupsPanel';
+import PromptTemplatesPanel from './PromptTemplatesPanel';
+import AnalysisView from './AnalysisView';
+import ToolTestPanel from './ToolTestPanel';
+import ToolHealthPanel from './ToolHealthPanel';
+import ToolExportModal from './ToolExportModal';
+import ToolImportModal from './ToolImportModal';
+import ToolHistoryModal from './ToolHistoryModal';
+import SessionsPanel from './SessionsPanel';
+import InvitesPanel from './InvitesPanel';
+import DeviceSummary from './DeviceSummary';
 import ReactQuill from 'react-quill';
 
 interface AdminPanelProps {
@@ -14,11 +48,28 @@ interface AdminPanelProps {
 const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }) => {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [tools, setTools] = useState<OSINTTool[]>([]);
-  const [activeTab, setActiveTab] = useState<'users' | 'tools' | 'security' | 'devices'>('users');
+  const [groups, setGroups] = useState<ToolGroup[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [activeTab, setActiveTab] = useState<'users' | 'invites' | 'groups' | 'tools' | 'health' | 'prompts' | 'security' | 'devices' | 'history' | 'audit'>('users');
   const [error, setError] = useState<string | null>(null);
   
   const [editingTool, setEditingTool] = useState<Partial<OSINTTool> | null>(null);
   const [isToolModalOpen, setIsToolModalOpen] = useState(false);
+  const [lookups, setLookups] = useState<LookupResult[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [viewingLookup, setViewingLookup] = useState<{ lookup: LookupResult; data: any } | null>(null);
+  const [quotaSettings, setQuotaSettings] = useState<QuotaSettings>({ defaults: {} });
+  const [quotaTarget, setQuotaTarget] = useState<UserProfile | 'defaults' | null>(null);
+  const [quotaDraft, setQuotaDraft] = useState({ daily: '', monthly: '' });
+  const [secretValues, setSecretValues] = useState<Record<string, string>>({});
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [importBundle, setImportBundle] = useState<ParsedToolBundle | null>(null);
+  const [drafts, setDrafts] = useState<ToolDraft[]>([]);
+  const [editingDraft, setEditingDraft] = useState<ToolDraft | null>(null);
+  const [historyTool, setHistoryTool] = useState<OSINTTool | null>(null);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings>(DEFAULT_SECURITY_SETTINGS);
+  const [invites, setInvites] = useState<Invite[]>([]);
   
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
   const [newPassword, setNewPassword] = useState('');
@@ -31,16 +82,66 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
       () => setError("Access denied.")
     );
 
-    const unsubTools = onSnapshot(collection(db, 'tools'), 
-      (snapshot) => setTools(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as OSINTTool))),
+    const unsubTools = onSnapshot(collection(db, 'tools'), (snapshot) => {
+        const loaded = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as OSINTTool));
+        setTools(loaded);
+        backfillToolGroups(loaded, (batch, legacy) => legacy.forEach(tool => recordAudit(profile, {
+          action: 'tool.update',
+          targetType: 'tool',
+          targetId: tool.id,
+          targetLabel: tool.name,
+          before: { allowedGroups: null },
+          after: { allowedGroups: [] }
+        }, batch))).catch(err => console.error("Could not backfill tool groups", err));
+      },
       () => setError("Tools access denied.")
     );
 
-    return () => { unsubUsers(); unsubTools(); };
+    const unsubLookups = onSnapshot(collection(db, 'lookups'),
+      (snapshot) => setLookups(snapshot.docs.map(doc => doc.data() as LookupResult)),
+      () => setError("History access denied.")
+    );
+
+    const unsubAudit = onSnapshot(collection(db, 'auditLog'),
+      (snapshot) => setAuditEntries(snapshot.docs.map(readAuditEntry)),
+      () => setError("Audit log access denied.")
+    );
+
+    const unsubQuota = subscribeQuotaSettings(setQuotaSettings);
+
+    const unsubGroups = onSnapshot(collection(db, 'groups'),
+      (snapshot) => setGroups(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ToolGroup))),
+      () => setError("Groups access denied.")
+    );
+
+    const unsubTemplates = onSnapshot(collection(db, 'promptTemplates'),
+      (snapshot) => setTemplates(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PromptTemplate))),
+      () => setError("Prompt templates access denied.")
+    );
+
+    const unsubDrafts = subscribeToolDrafts(setDrafts);
+
+    const unsubSessions = subscribeSessionSettings(setSessionSettings);
+
+    const unsubSecurity = subscribeSecuritySettings(setSecuritySettings);
+
+    const unsubInvites = subscribeInvites(setInvites);
+
+    return () => { unsubUsers(); unsubTools(); unsubLookups(); unsubAudit(); unsubQuota(); unsubGroups(); unsubTemplates(); unsubDrafts(); unsubSessions(); unsubSecurity(); unsubInvites(); };
   }, []);
 
-  const handleToggleApproval = async (uid: string, currentStatus: boolean) => {
-    await updateDoc(doc(db, 'users', uid), { isApproved: !currentStatus });
+  const handleToggleApproval = async (targetUser: UserProfile) => {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', targetUser.uid), { isApproved: !targetUser.isApproved });
+    recordAudit(profile, {
+      action: 'user.approval',
+      targetType: 'user',
+      targetId: targetUser.uid,
+      targetLabel: targetUser.email,
+      before: { isApproved: targetUser.isApproved },
+      after: { isApproved: !targetUser.isApproved }
+    }, batch);
+    await batch.commit();
   };
 
   const handleToggleAdmin = async (targetUser: UserProfile) => {
@@ -49,59 +150,305 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
       return;
     }
     if (targetUser.isOwner) return;
-    await updateDoc(doc(db, 'users', targetUser.uid), { isAdmin: !targetUser.isAdmin });
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', targetUser.uid), { isAdmin: !targetUser.isAdmin });
+    recordAudit(profile, {
+      action: 'user.admin',
+      targetType: 'user',
+      targetId: targetUser.uid,
+      targetLabel: targetUser.email,
+      before: { isAdmin: !!targetUser.isAdmin },
+      after: { isAdmin: !targetUser.isAdmin }
+    }, batch);
+    await batch.commit();
   };
 
-  const handleAuthorizeSession = async (user: UserProfile) => {
-    if (!user.pendingSessionId) return;
-    await updateDoc(doc(db, 'users', user.uid), {
-      lastSessionId: user.pendingSessionId,
-      pendingSessionId: null,
-      pendingSessionMetadata: null
-    });
+  const handleToggleMfaRequirement = async () => {
+    if (!profile.isOwner) return;
+    const next: SecuritySettings = { ...securitySettings, requireMfaForStandard: !securitySettings.requireMfaForStandard };
+    if (next.requireMfaForStandard && !confirm("Require two-factor for every member? They will be asked to set it up on their next visit.")) return;
+    await saveSecuritySettings(next, (batch) => recordAudit(profile, {
+      action: 'settings.security',
+      targetType: 'settings',
+      targetId: 'security',
+      targetLabel: 'Security settings',
+      before: securitySettings,
+      after: next
+    }, batch));
   };
 
-  const handleRevokeDevice = async (sid: string) => {
-    if (confirm("Sign out this device?")) {
-      const updatedSessions = profile.authorizedSessions?.filter(s => s.sid !== sid) || [];
-      await updateDoc(doc(db, 'users', profile.uid), {
-        authorizedSessions: updatedSessions
-      });
+  // For accounts whose authenticator and recovery codes are both lost; they enroll again on their next sign-in.
+  const handleResetMfa = async (targetUser: UserProfile) => {
+    if (!profile.isOwner || targetUser.uid === profile.uid) return;
+    if (!confirm(`Reset two-factor for ${targetUser.email}? Their authenticator and recovery codes stop working.`)) return;
+    // The gateway records the audit entry together with the reset.
+    try {
+      await resetMfa(targetUser.uid);
+    } catch (err: any) {
+      alert(err.message);
     }
   };
 
+  const handleAuthorizeSession = async (user: UserProfile) => {
+    await approvePendingSession(user.uid, sessionSettings, (tx, result) => recordAudit(profile, {
+      action: 'session.authorize',
+      targetType: 'session',
+      targetId: result.device.sid,
+      targetLabel: `${user.email} · ${describeDevice(result.device)}`,
+      before: { sessions: result.replaced.map(describeDevice) },
+      after: { device: result.device, replaced: result.replaced.map(s => s.sid) }
+    }, tx));
+  };
+
   const handleDeleteUser = async (user: UserProfile) => {
     if (user.isOwner) return;
     if (confirm(`Delete user ${user.email}?`)) {
-      await deleteDoc(doc(db, 'users', user.uid));
+      const batch = writeBatch(db);
+      batch.delete(doc(db, 'users', user.uid));
+      recordAudit(profile, {
+        action: 'user.delete',
+        targetType: 'user',
+        targetId: user.uid,
+        targetLabel: user.email,
+        before: { email: user.email, isAdmin: user.isAdmin, isApproved: user.isApproved },
+        after: null
+      }, batch);
+      await batch.commit();
     }
   };
 
   const handleDeleteTool = async (toolId: string, toolName: string) => {
     if (window.confirm(`Delete the tool "${toolName}"?`)) {
       try {
-        await deleteDoc(doc(db, 'tools', toolId));
+        const existing = tools.find(t => t.id === toolId);
+        await deleteTool(toolId, (batch) => recordAudit(profile, {
+          action: 'tool.delete',
+          targetType: 'tool',
+          targetId: toolId,
+          targetLabel: toolName,
+          before: redactTool(existing),
+          after: null
+        }, batch));
       } catch (err) {
         alert("Failed to delete tool.");
       }
     }
   };
 
+  // Validates the editor and returns the document to store, or null after telling the admin what is wrong.
+  const buildToolData = () => {
+    if (!editingTool) return null;
+    const error = validateToolConfig(editingTool);
+    if (error) {
+      alert(error);
+      return null;
+    }
+    return normalizeToolConfig(editingTool, { groupIds: groups.map(g => g.id), templateIds: templates.map(t => t.id) });
+  };
+
   const handleSaveTool = async () => {
-    if (!editingTool?.name || !editingTool?.apiUrl) {
-      alert("Please fill in the tool name and URL.");
+    const toolData = buildToolData();
+    if (!toolData || !editingTool) return;
+    const existing = tools.find(t => t.id === editingTool.id);
+
+    // Secret values are write-only from the client; blank inputs keep the stored value.
+    const previousKeys = existing?.secretKeys || [];
+    const secretUpdates: Record<string, any> = {};
+    toolData.secretKeys.forEach(k => { if (secretValues[k]) secretUpdates[k] = secretValues[k]; });
+    previousKeys.filter(k => !toolData.secretKeys.includes(k)).forEach(k => { secretUpdates[k] = deleteField(); });
+    await publishTool(profile, toolData, existing || null, {
+      discardDraft: !!editingDraft,
+      secrets: secretUpdates,
+      audit: (batch, { toolId, version }) => recordAudit(profile, {
+        action: existing ? 'tool.update' : 'tool.create',
+        targetType: 'tool',
+        targetId: toolId,
+        targetLabel: toolData.name,
+        before: existing ? redactTool({ ...existing, id: undefined }) : null,
+        after: { ...redactTool({ ...toolData, version }), secretsChanged: Object.keys(secretUpdates) }
+      }, batch)
+    });
+    setIsToolModalOpen(false);
+  };
+
+  // Drafts leave the published tool and its stored secrets untouched until they are published.
+  const handleSaveDraft = async () => {
+    const toolData = buildToolData();
+    const existing = tools.find(t => t.id === editingTool?.id);
+    if (!toolData || !existing) return;
+    await saveToolDraft(profile, existing, toolData, (batch, draft) => recordAudit(profile, {
+      action: 'tool.draft',
+      targetType: 'tool',
+      targetId: existing.id,
+      targetLabel: existing.name,
+      before: editingDraft ? redactTool(editingDraft.config) : null,
+      after: { ...redactTool(toolData), baseVersion: draft.baseVersion }
+    }, batch));
+    setIsToolModalOpen(false);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!editingDraft || !confirm("Discard this draft? The published tool is not affected.")) return;
+    await discardToolDraft(editingDraft.toolId, (batch) => recordAudit(profile, {
+      action: 'tool.draft',
+      targetType: 'tool',
+      targetId: editingDraft.toolId,
+      targetLabel: editingDraft.config.name,
+      before: redactTool(editingDraft.config),
+      after: null
+    }, batch));
+    setIsToolModalOpen(false);
+  };
+
+  const handleRollback = async (target: ToolVersion) => {
+    const tool = tools.find(t => t.id === target.toolId);
+    if (!tool) return;
+    try {
+      await rollbackTool(profile, tool, target, (batch, { version }) => recordAudit(profile, {
+        action: 'tool.rollback',
+        targetType: 'tool',
+        targetId: tool.id,
+        targetLabel: tool.name,
+        before: redactTool({ ...tool, id: undefined }),
+        after: { ...redactTool({ ...target.config, version }), rolledBackTo: target.version }
+      }, batch));
+    } catch (err: any) {
+      alert(`Rollback failed: ${err.message}`);
+    }
+  };
+
+  const handleTestTool = async (values: Record<string, string>) => {
+    const toolData = buildToolData();
+    if (!toolData) return null;
+    const response = await testTool({ ...toolData, id: editingTool?.id || '' }, values, secretValues);
+    return buildTestReport(response, toolData.resultMapping);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportBundle(parseToolBundle(await file.text()));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  // Tools with a draft open on the draft, so work in progress is never lost by editing the published config.
+  const openToolModal = (tool: Partial<OSINTTool>) => {
+    const draft = drafts.find(d => d.toolId === tool.id) || null;
+    setEditingDraft(draft);
+    setEditingTool(draft ? { ...draft.config, id: draft.toolId } : tool);
+    setSecretValues({});
+    setIsToolModalOpen(true);
+  };
+
+  const updateHeader = (index: number, patch: Partial<ToolHeader>) => {
+    const headers = [...(editingTool?.headers || [])];
+    headers[index] = { ...headers[index], ...patch };
+    setEditingTool({ ...editingTool, headers });
+  };
+
+  const updateAuth = (patch: Partial<ToolAuth>) => {
+    setEditingTool({ ...editingTool, auth: { ...(editingTool?.auth || { type: 'none' }), ...patch } });
+  };
+
+  const updateParam = (index: number, patch: Partial<ToolParam>) => {
+    const params = [...(editingTool?.params || [])];
+    params[index] = { ...params[index], ...patch };
+    setEditingTool({ ...editingTool, params });
+  };
+
+  const addParam = () => {
+    const params = editingTool?.params || [];
+    setEditingTool({ ...editingTool, params: [...params, { name: '', label: '', type: 'text', required: true }] });
+  };
+
+  const updateMapping = (index: number, patch: Partial<ResultMappingItem>) => {
+    const resultMapping = [...(editingTool?.resultMapping || [])];
+    resultMapping[index] = { ...resultMapping[index], ...patch };
+    setEditingTool({ ...editingTool, resultMapping });
+  };
+
+  const removeParam = (index: number) => {
+    setEditingTool({ ...editingTool, params: (editingTool?.params || []).filter((_, i) => i !== index) });
+  };
+
+  const detectParamsFromUrl = () => {
+    const existing = (editingTool?.params || []).map(p => p.name);
+    const detected: ToolParam[] = extractPlaceholders(editingTool?.apiUrl || '')
+      .filter(name => !existing.includes(name))
+      .map(name => ({ name, label: name, type: 'text', required: true }));
+    setEditingTool({ ...editingTool, params: [...(editingTool?.params || []), ...detected] });
+  };
+
+  const formatQuota = (quota: QuotaLimits | null | undefined) => {
+    const normalized = normalizeQuota(quota);
+    if (!normalized) return null;
+    return `${normalized.daily ?? '∞'}/day · ${normalized.monthly ?? '∞'}/mo`;
+  };
+
+  const parseQuotaDraft = (draft: { daily: string; monthly: string }): QuotaLimits | null | false => {
+    const parse = (v: string) => (v.trim() === '' ? null : Number(v));
+    const limits = { daily: parse(draft.daily), monthly: parse(draft.monthly) };
+    if ([limits.daily, limits.monthly].some(v => v !== null && (!Number.isInteger(v) || v < 0))) return false;
+    return normalizeQuota(limits);
+  };
+
+  const openQuotaModal = (target: UserProfile | 'defaults') => {
+    const current = target === 'defaults' ? quotaSettings.defaults : target.quota;
+    setQuotaDraft({ daily: current?.daily?.toString() ?? '', monthly: current?.monthly?.toString() ?? '' });
+    setQuotaTarget(target);
+  };
+
+  const handleSaveQuota = async () => {
+    if (!quotaTarget) return;
+    const limits = parseQuotaDraft(quotaDraft);
+    if (limits === false) {
+      alert("Limits must be whole numbers of 0 or more. Leave blank for unlimited.");
       return;
     }
-    const toolData = {
-      name: editingTool.name,
-      apiUrl: editingTool.apiUrl,
-      description: editingTool.description || "",
-      icon: editingTool.icon || "fas fa-search",
-      useProxy: !!editingTool.useProxy
-    };
-    if (editingTool.id) await updateDoc(doc(db, 'tools', editingTool.id), toolData);
-    else await addDoc(collection(db, 'tools'), toolData);
-    setIsToolModalOpen(false);
+    const batch = writeBatch(db);
+    if (quotaTarget === 'defaults') {
+      batch.set(doc(db, ...QUOTA_SETTINGS_PATH), { defaults: limits || { daily: null, monthly: null } }, { merge: true });
+      recordAudit(profile, {
+        action: 'settings.quota',
+        targetType: 'settings',
+        targetId: 'quotas',
+        targetLabel: 'Default user quota',
+        before: quotaSettings.defaults,
+        after: limits
+      }, batch);
+    } else {
+      batch.update(doc(db, 'users', quotaTarget.uid), { quota: limits });
+      recordAudit(profile, {
+        action: 'user.quota',
+        targetType: 'user',
+        targetId: quotaTarget.uid,
+        targetLabel: quotaTarget.email,
+        before: quotaTarget.quota || null,
+        after: limits
+      }, batch);
+    }
+    await batch.commit();
+    setQuotaTarget(null);
+  };
+
+  const handleOpenLookup = async (lookup: LookupResult) => {
+    try {
+      setViewingLookup({ lookup, data: await loadLookupResponse(lookup) });
+    } catch (err: any) {
+      alert(`Could not load this lookup: ${err.message}`);
+    }
+  };
+
+  const handleExportLookups = async (selected: LookupResult[], format: ReportFormat) => {
+    try {
+      exportReport(format, await loadReportEntries(selected, tools), profile.email);
+    } catch (err: any) {
+      alert(`Could not build the report: ${err.message}`);
+    }
   };
 
   const handleChangePassword = async (e: React.FormEvent) => {
@@ -127,7 +474,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
   };
 
   const securityRequests = users.filter(u => u.pendingSessionId);
-  const currentSid = localStorage.getItem('flexer_sid');
+  const toolHealth = useMemo(() => Object.fromEntries(tools.map(t => [t.id, computeToolHealth(t, lookups)])), [tools, lookups]);
+  const degradedCount = Object.values(toolHealth).filter(h => h.status === 'degraded').length;
 
   const quillModules = {
     toolbar: [[{ header: [1, 2, false] }], ['bold', 'italic', 'underline'], [{ list: 'ordered' }, { list: 'bullet' }], ['clean']]
@@ -147,9 +495,15 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
           <div className="flex bg-[#0a0a0a] p-1 rounded-xl border border-gray-800 overflow-x-auto whitespace-nowrap scrollbar-hide flex-grow md:flex-grow-0">
             {[
               { id: 'users', label: 'Users' },
+              { id: 'invites', label: 'Invites' },
+              { id: 'groups', label: 'Groups' },
               { id: 'tools', label: 'Tools' },
+              { id: 'health', label: 'Health' },
+              { id: 'prompts', label: 'AI Prompts' },
               { id: 'security', label: 'Requests' },
-              { id: 'devices', label: 'Devices' }
+              { id: 'devices', label: 'Devices' },
+              { id: 'history', label: 'History' },
+              { id: 'audit', label: 'Audit' }
             ].map((tab) => (
               <button 
                 key={tab.id} 
@@ -158,6 +512,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
               >
                 {tab.label}
                 {tab.id === 'security' && securityRequests.length > 0 && <span className="ml-2 w-2 h-2 bg-red-500 rounded-full inline-block"></span>}
+                {tab.id === 'health' && degradedCount > 0 && <span className="ml-2 w-2 h-2 bg-red-500 rounded-full inline-block"></span>}
               </button>
             ))}
           </div>
@@ -172,7 +527,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
       <main className="max-w-7xl mx-auto p-4 md:p-8">
         {activeTab === 'users' && (
           <div className="space-y-6">
-            <h2 className="text-xl font-bold text-white">Manage Users</h2>
+            <div className="flex justify-between items-center">
+              <h2 className="text-xl font-bold text-white">Manage Users</h2>
+              <div className="flex gap-2">
+                <button onClick={handleToggleMfaRequirement} disabled={!profile.isOwner} className={`text-[10px] font-bold border px-3 py-2 rounded-xl uppercase transition disabled:cursor-not-allowed ${securitySettings.requireMfaForStandard ? 'border-blue-500 text-blue-500 bg-blue-500/5' : 'border-gray-700 text-gray-400 hover:text-white'}`} title={profile.isOwner ? 'Require two-factor for members as well as admins' : 'Only the owner can change this'}>
+                  <i className="fas fa-shield-halved mr-1"></i> Member 2FA: {securitySettings.requireMfaForStandard ? 'Required' : 'Optional'}
+                </button>
+                <button onClick={() => openQuotaModal('defaults')} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-2 rounded-xl uppercase hover:text-white transition" title="Default quota for users without their own limits">
+                  <i className="fas fa-gauge-high mr-1"></i> Default Quota: {formatQuota(quotaSettings.defaults) || 'Unlimited'}
+                </button>
+              </div>
+            </div>
             {/* Desktop Table */}
             <div className="hidden md:block bg-[#111] border border-gray-800 rounded-2xl overflow-hidden shadow-xl">
               <table className="w-full text-left">
@@ -181,6 +546,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                     <th className="p-6">Email</th>
                     <th className="p-6 text-center">Admin?</th>
                     <th className="p-6 text-center">Approved?</th>
+                    <th className="p-6 text-center">2FA</th>
+                    <th className="p-6 text-center">Quota</th>
                     <th className="p-6 text-right">Actions</th>
                   </tr>
                 </thead>
@@ -205,10 +572,23 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                           {u.isApproved ? 'VERIFIED' : 'AWAITING'}
                         </span>
                       </td>
+                      <td className="p-6 text-center">
+                        <span className={`text-[10px] font-bold px-2 py-1 rounded-full ${u.mfa?.enabled ? 'bg-green-500/10 text-green-500' : 'bg-gray-800 text-gray-500'}`} title={u.mfa?.enabled ? `${u.mfa.recoveryCodesLeft} recovery codes left` : undefined}>
+                          {u.mfa?.enabled ? 'ON' : 'OFF'}
+                        </span>
+                        {profile.isOwner && u.mfa?.enabled && u.uid !== profile.uid && (
+                          <button onClick={() => handleResetMfa(u)} className="ml-2 text-[10px] text-gray-600 hover:text-red-500 transition" title="Reset two-factor"><i className="fas fa-rotate-left"></i></button>
+                        )}
+                      </td>
+                      <td className="p-6 text-center">
+                        <button onClick={() => openQuotaModal(u)} className="text-[10px] font-bold text-gray-500 hover:text-white transition">
+                          {formatQuota(u.quota) || 'DEFAULT'} <i className="fas fa-pen ml-1"></i>
+                        </button>
+                      </td>
                       <td className="p-6 text-right space-x-2">
                         {!u.isOwner && (
                           <>
-                            <button onClick={() => handleToggleApproval(u.uid, u.isApproved)} className={`px-4 py-2 rounded-xl text-xs font-bold transition ${u.isApproved ? 'bg-red-900/10 text-red-500' : 'bg-green-600 text-white'}`}>
+                            <button onClick={() => handleToggleApproval(u)} className={`px-4 py-2 rounded-xl text-xs font-bold transition ${u.isApproved ? 'bg-red-900/10 text-red-500' : 'bg-green-600 text-white'}`}>
                               {u.isApproved ? 'DISABLE' : 'APPROVE'}
                             </button>
                             <button onClick={() => handleDeleteUser(u)} className="p-2 text-gray-700 hover:text-red-500 transition"><i className="fas fa-trash"></i></button>
@@ -229,6 +609,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                       <div className="text-sm font-bold text-white truncate">{u.email}</div>
                       <div className={`text-[10px] font-bold mt-1 ${u.isAdmin ? 'text-blue-500' : 'text-gray-500'}`}>
                         {u.isAdmin ? 'ADMIN' : 'MEMBER'}
+                        <span className={`ml-2 ${u.mfa?.enabled ? 'text-green-500' : 'text-gray-600'}`}>2FA {u.mfa?.enabled ? 'ON' : 'OFF'}</span>
                       </div>
                     </div>
                     <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${u.isApproved ? 'bg-green-500/10 text-green-500' : 'bg-yellow-500/10 text-yellow-500'}`}>
@@ -237,9 +618,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                   </div>
                   {!u.isOwner && (
                     <div className="flex gap-2">
-                      <button onClick={() => handleToggleApproval(u.uid, u.isApproved)} className={`flex-1 py-3 rounded-xl text-xs font-bold ${u.isApproved ? 'bg-red-900/10 text-red-500' : 'bg-green-600 text-white'}`}>
+                      <button onClick={() => handleToggleApproval(u)} className={`flex-1 py-3 rounded-xl text-xs font-bold ${u.isApproved ? 'bg-red-900/10 text-red-500' : 'bg-green-600 text-white'}`}>
                         {u.isApproved ? 'Deactivate' : 'Approve'}
                       </button>
+                      <button onClick={() => openQuotaModal(u)} className="p-3 bg-gray-800/50 text-gray-400 rounded-xl" title="Quota"><i className="fas fa-gauge-high"></i></button>
+                      {profile.isOwner && u.mfa?.enabled && (
+                        <button onClick={() => handleResetMfa(u)} className="p-3 bg-gray-800/50 text-gray-400 rounded-xl" title="Reset two-factor"><i className="fas fa-rotate-left"></i></button>
+                      )}
                       <button onClick={() => handleDeleteUser(u)} className="p-3 bg-gray-800/50 text-gray-400 rounded-xl"><i className="fas fa-trash"></i></button>
                     </div>
                   )}
@@ -249,13 +634,34 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
           </div>
         )}
 
+        {activeTab === 'invites' && (
+          <InvitesPanel profile={profile} invites={invites} groups={groups} />
+        )}
+
+        {activeTab === 'groups' && (
+          <GroupsPanel profile={profile} groups={groups} users={users} tools={tools} />
+        )}
+
+        {activeTab === 'prompts' && (
+          <PromptTemplatesPanel profile={profile} templates={templates} tools={tools} />
+        )}
+
         {activeTab === 'tools' && (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-xl font-bold text-white">OSINT Tools</h2>
-              <button onClick={() => { setEditingTool({ useProxy: false }); setIsToolModalOpen(true); }} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
-                <i className="fas fa-plus mr-2"></i>New Tool
-              </button>
+              <div className="flex gap-2">
+                <label className="bg-gray-800 hover:bg-gray-700 text-gray-300 px-4 py-2.5 rounded-xl font-bold text-sm transition cursor-pointer" title="Import a tool bundle">
+                  <i className="fas fa-file-import"></i><span className="hidden sm:inline ml-2">Import</span>
+                  <input type="file" accept=".json,.yaml,.yml" className="hidden" onChange={handleImportFile} />
+                </label>
+                <button onClick={() => setIsExportOpen(true)} disabled={tools.length === 0} className="bg-gray-800 hover:bg-gray-700 text-gray-300 px-4 py-2.5 rounded-xl font-bold text-sm transition disabled:opacity-40" title="Export tools as a bundle">
+                  <i className="fas fa-file-export"></i><span className="hidden sm:inline ml-2">Export</span>
+                </button>
+                <button onClick={() => openToolModal({ useProxy: false })} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
+                  <i className="fas fa-plus mr-2"></i>New Tool
+                </button>
+              </div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
               {tools.map(tool => (
@@ -265,19 +671,36 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                       <i className={tool.icon || 'fas fa-search'}></i>
                     </div>
                     <div className="flex gap-1 text-gray-600">
-                      <button onClick={() => { setEditingTool(tool); setIsToolModalOpen(true); }} className="hover:text-white p-2"><i className="fas fa-edit"></i></button>
+                      <button onClick={() => setHistoryTool(tool)} className="hover:text-white p-2" title="Version history"><i className="fas fa-history"></i></button>
+                      <button onClick={() => openToolModal(tool)} className="hover:text-white p-2"><i className="fas fa-edit"></i></button>
                       <button onClick={() => handleDeleteTool(tool.id, tool.name)} className="hover:text-red-500 p-2"><i className="fas fa-trash-alt"></i></button>
                     </div>
                   </div>
-                  <h3 className="font-bold text-white mb-2">{tool.name}</h3>
+                  <h3 className="font-bold text-white mb-2 flex items-center gap-2">
+                    {tool.name}
+                    <span className="text-[10px] text-gray-600 font-mono font-normal">v{tool.version || 0}</span>
+                    {drafts.some(d => d.toolId === tool.id) && <span className="text-[9px] font-bold px-2 py-0.5 rounded-full uppercase bg-purple-500/10 text-purple-400">Draft</span>}
+                  </h3>
                   <div className="text-gray-500 text-xs flex-grow overflow-hidden line-clamp-3 leading-relaxed mb-4" dangerouslySetInnerHTML={{ __html: tool.description }}></div>
-                  {tool.useProxy && <span className="text-[9px] text-green-500 font-bold uppercase tracking-widest flex items-center gap-1"><i className="fas fa-shield-alt"></i> Proxy Enabled</span>}
+                  {toolHealth[tool.id]?.status === 'degraded' && <button onClick={() => setActiveTab('health')} className="text-[9px] text-red-400 font-bold uppercase tracking-widest flex items-center gap-1 mb-1" title={toolHealth[tool.id].reasons.join('\n')}><i className="fas fa-heartbeat"></i> Degraded</button>}
+                  {tool.useProxy && <span className="text-[9px] text-green-500 font-bold uppercase tracking-widest flex items-center gap-1"><i className="fas fa-shield-alt"></i> Via Gateway</span>}
+                  {!!tool.allowedGroups?.length && <span className="text-[9px] text-yellow-500 font-bold uppercase tracking-widest flex items-center gap-1 mt-1"><i className="fas fa-users"></i> {tool.allowedGroups.map(id => groups.find(g => g.id === id)?.name).filter(Boolean).join(', ')}</span>}
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {activeTab === 'health' && (
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-xl font-bold text-white">Tool Health</h2>
+              <p className="text-[11px] text-gray-500 mt-1">Measured from real lookups; cache hits are left out. A tool is flagged as degraded when fewer than 80% of its lookups succeeded or the slowest 5% took over 10 s in the last 24 hours, or when its last three lookups failed.</p>
+            </div>
+            <ToolHealthPanel tools={tools} health={toolHealth} />
+          </div>
+        )}
+
         {activeTab === 'security' && (
           <div className="space-y-6">
             <h2 className="text-xl font-bold text-white">Login Requests</h2>
@@ -288,46 +711,96 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
               </div>
             ) : (
               <div className="grid gap-4">
-                {securityRequests.map(u => (
-                  <div key={u.uid} className="bg-[#111] border border-blue-500/20 rounded-2xl p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
-                    <div className="text-center sm:text-left">
-                      <div className="font-bold text-white">{u.email}</div>
-                      <div className="text-xs text-gray-500 mt-1">Device: {u.pendingSessionMetadata?.deviceName}</div>
+                {securityRequests.map(u => {
+                  const replaced = planPendingApproval(u, sessionSettings, Date.now())?.replaced || [];
+                  return (
+                    <div key={u.uid} className="bg-[#111] border border-blue-500/20 rounded-2xl p-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+                      <div className="text-center sm:text-left space-y-3 min-w-0">
+                        <div className="font-bold text-white">{u.email}</div>
+                        {u.pendingSessionMetadata && <DeviceSummary session={u.pendingSessionMetadata} pending />}
+                        {replaced.length > 0 && <div className="text-[10px] text-yellow-500">Allowing it signs out {replaced.map(describeDevice).join(', ')}</div>}
+                      </div>
+                      <button onClick={() => handleAuthorizeSession(u)} className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-xl text-sm font-bold transition">ALLOW LOGIN</button>
                     </div>
-                    <button onClick={() => handleAuthorizeSession(u)} className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-xl text-sm font-bold transition">ALLOW LOGIN</button>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
         )}
 
         {activeTab === 'devices' && (
+          <SessionsPanel profile={profile} users={users} settings={sessionSettings} />
+        )}
+
+        {activeTab === 'history' && (
           <div className="space-y-6">
-            <h2 className="text-xl font-bold text-white">My Devices</h2>
-            <div className="grid gap-4">
-              {profile.authorizedSessions?.map(s => (
-                <div key={s.sid} className={`bg-[#111] border ${s.sid === currentSid ? 'border-blue-500/50' : 'border-gray-800'} rounded-2xl p-5 flex flex-col sm:flex-row justify-between items-center gap-4`}>
-                  <div className="flex items-center gap-4">
-                    <div className="w-10 h-10 bg-gray-800 rounded-lg flex items-center justify-center text-gray-500">
-                      <i className={`fas ${s.deviceName.toLowerCase().includes('mobile') ? 'fa-mobile-alt' : 'fa-laptop'}`}></i>
-                    </div>
-                    <div>
-                      <div className="font-bold text-white text-sm">
-                        {s.deviceName} {s.sid === currentSid && <span className="text-[10px] bg-blue-600 px-1.5 py-0.5 rounded-full ml-2">Active</span>}
-                      </div>
-                      <div className="text-[10px] text-gray-500 mt-1">{new Date(s.timestamp).toLocaleString()}</div>
-                    </div>
-                  </div>
-                  {s.sid !== currentSid && (
-                    <button onClick={() => handleRevokeDevice(s.sid)} className="w-full sm:w-auto text-red-500 text-xs font-bold uppercase border border-red-900/20 px-4 py-2 rounded-xl hover:bg-red-500/10 transition">Disconnect</button>
+            <h2 className="text-xl font-bold text-white">Lookup History</h2>
+            <HistoryPanel lookups={lookups} tools={tools} showUser onOpen={handleOpenLookup} onExport={handleExportLookups} />
+          </div>
+        )}
+
+        {activeTab === 'audit' && (
+          <div className="space-y-6">
+            <h2 className="text-xl font-bold text-white">Audit Log</h2>
+            <AuditLogPanel entries={auditEntries} />
+          </div>
+        )}
+      </main>
+
+      {/* Lookup Modal */}
+      {viewingLookup && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm">
+          <div className="bg-[#111] border border-gray-800 w-full max-w-3xl rounded-3xl p-6 md:p-8 flex flex-col max-h-[90vh] shadow-2xl overflow-hidden">
+            <div className="flex justify-between items-start mb-6">
+              <div>
+                <h3 className="text-xl font-bold text-white">{viewingLookup.lookup.toolName}</h3>
+                <p className="text-[10px] text-gray-500 mt-1">{viewingLookup.lookup.userEmail} · {new Date(viewingLookup.lookup.timestamp).toLocaleString()}{viewingLookup.lookup.toolVersion !== undefined && ` · v${viewingLookup.lookup.toolVersion}${viewingLookup.lookup.toolDraft ? ' draft' : ''}`}</p>
+              </div>
+              <button onClick={() => setViewingLookup(null)} className="text-gray-500 hover:text-white"><i className="fas fa-times text-xl"></i></button>
+            </div>
+            <div className="space-y-5 overflow-y-auto pr-2 custom-scrollbar">
+              {viewingLookup.lookup.aiSummary && (
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 mb-2 uppercase tracking-widest">AI Summary</label>
+                  {viewingLookup.lookup.aiAnalysis ? (
+                    <div className="bg-[#0a0a0a] border border-gray-800 rounded-xl"><AnalysisView analysis={viewingLookup.lookup.aiAnalysis} /></div>
+                  ) : (
+                    <div className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap">{viewingLookup.lookup.aiSummary}</div>
                   )}
                 </div>
-              ))}
+              )}
+              <div>
+                <label className="block text-xs font-bold text-gray-500 mb-2 uppercase tracking-widest">Raw Data</label>
+                <pre className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-4 text-[11px] text-gray-300 font-mono overflow-auto">{JSON.stringify(viewingLookup.data, null, 2)}</pre>
+              </div>
             </div>
           </div>
-        )}
-      </main>
+        </div>
+      )}
+
+      {isExportOpen && <ToolExportModal profile={profile} tools={tools} onClose={() => setIsExportOpen(false)} />}
+
+      {historyTool && (
+        <ToolHistoryModal
+          tool={tools.find(t => t.id === historyTool.id) || historyTool}
+          draft={drafts.find(d => d.toolId === historyTool.id) || null}
+          onRollback={handleRollback}
+          onClose={() => setHistoryTool(null)}
+        />
+      )}
+
+      {importBundle && (
+        <ToolImportModal
+          profile={profile}
+          bundle={importBundle}
+          tools={tools}
+          groups={groups}
+          templates={templates}
+          onEditTool={tool => { setImportBundle(null); openToolModal(tool); }}
+          onClose={() => setImportBundle(null)}
+        />
+      )}
 
       {/* Tool Modal */}
       {isToolModalOpen && (
@@ -337,6 +810,15 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
               <h3 className="text-xl font-bold text-white">Tool Configuration</h3>
               <button onClick={() => setIsToolModalOpen(false)} className="text-gray-500 hover:text-white"><i className="fas fa-times text-xl"></i></button>
             </div>
+            {editingDraft && (
+              <div className="mb-5 p-3 rounded-xl border border-purple-500/20 bg-purple-500/5 text-xs text-purple-300 flex items-center justify-between gap-3">
+                <span>
+                  <i className="fas fa-pencil-ruler mr-2"></i>Editing the draft based on v{editingDraft.baseVersion}
+                  {editingDraft.baseVersion !== (tools.find(t => t.id === editingDraft.toolId)?.version || 0) && <span className="text-yellow-500"> · a newer version was published since</span>}
+                </span>
+                <button onClick={handleDiscardDraft} className="text-[10px] font-bold uppercase tracking-widest text-red-400 hover:text-red-300 flex-shrink-0">Discard</button>
+              </div>
+            )}
             
             <div className="space-y-5 overflow-y-auto pr-2 custom-scrollbar">
               <div>
@@ -346,13 +828,144 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
               <div>
                 <label className="block text-xs font-bold text-gray-500 mb-2 uppercase tracking-widest">API Endpoint URL</label>
                 <input type="text" className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3.5 text-white font-mono text-sm focus:border-blue-500 outline-none transition" placeholder="https://api.site.com/{query}" value={editingTool?.apiUrl || ''} onChange={e => setEditingTool({...editingTool, apiUrl: e.target.value})}/>
-                <p className="text-[10px] text-gray-600 mt-1.5 ml-1">Use {'{query}'} as the placeholder for user input.</p>
+                <p className="text-[10px] text-gray-600 mt-1.5 ml-1">Use {'{name}'} placeholders matching the parameters below. Without parameters, {'{query}'} is used.</p>
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-4">
+                <div>
+                  <div className="text-sm font-bold text-white">HTTP Request</div>
+                  <div className="text-[10px] text-gray-500">Headers, body and credentials accept the same placeholders as the URL.</div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <select className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={editingTool?.method || 'GET'} onChange={e => setEditingTool({ ...editingTool, method: e.target.value as HttpMethod })}>
+                    {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                  <select disabled={(editingTool?.method || 'GET') === 'GET'} className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none disabled:opacity-40" value={editingTool?.bodyType || 'none'} onChange={e => setEditingTool({ ...editingTool, bodyType: e.target.value as ToolBodyType })}>
+                    <option value="none">No Body</option>
+                    <option value="json">JSON Body</option>
+                    <option value="form">Form Body</option>
+                  </select>
+                </div>
+                {(editingTool?.method || 'GET') !== 'GET' && (editingTool?.bodyType || 'none') !== 'none' && (
+                  <textarea rows={4} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder={editingTool?.bodyType === 'json' ? '{ "email": "{email}" }' : 'email={email}\nlimit=10'} value={editingTool?.bodyTemplate || ''} onChange={e => setEditingTool({ ...editingTool, bodyTemplate: e.target.value })}/>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Headers</span>
+                    <button onClick={() => setEditingTool({ ...editingTool, headers: [...(editingTool?.headers || []), { key: '', value: '' }] })} className="text-[10px] font-bold text-blue-500 uppercase hover:text-blue-400"><i className="fas fa-plus mr-1"></i> Header</button>
+                  </div>
+                  {(editingTool?.headers || []).map((header, i) => (
+                    <div key={i} className="flex gap-2">
+                      <input type="text" className="w-1/3 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Header" value={header.key} onChange={e => updateHeader(i, { key: e.target.value })}/>
+                      <input type="text" className="flex-1 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Value" value={header.value} onChange={e => updateHeader(i, { value: e.target.value })}/>
+                      <button onClick={() => setEditingTool({ ...editingTool, headers: (editingTool?.headers || []).filter((_, idx) => idx !== i) })} className="text-gray-600 hover:text-red-500 px-2"><i className="fas fa-times text-xs"></i></button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Authentication</span>
+                  <select className="w-full bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={editingTool?.auth?.type || 'none'} onChange={e => updateAuth({ type: e.target.value as ToolAuthType })}>
+                    <option value="none">None</option>
+                    <option value="bearer">Bearer Token</option>
+                    <option value="basic">Basic Auth</option>
+                    <option value="apiKey">API Key Header</option>
+                  </select>
+                  {editingTool?.auth?.type === 'bearer' && (
+                    <input type="text" className="w-full bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Token" value={editingTool.auth.token || ''} onChange={e => updateAuth({ token: e.target.value })}/>
+                  )}
+                  {editingTool?.auth?.type === 'basic' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <input type="text" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Username" value={editingTool.auth.username || ''} onChange={e => updateAuth({ username: e.target.value })}/>
+                      <input type="password" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Password" value={editingTool.auth.password || ''} onChange={e => updateAuth({ password: e.target.value })}/>
+                    </div>
+                  )}
+                  {editingTool?.auth?.type === 'apiKey' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <input type="text" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="X-API-Key" value={editingTool.auth.headerName || ''} onChange={e => updateAuth({ headerName: e.target.value })}/>
+                      <input type="text" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Key" value={editingTool.auth.apiKey || ''} onChange={e => updateAuth({ apiKey: e.target.value })}/>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="text-sm font-bold text-white">Input Parameters</div>
+                    <div className="text-[10px] text-gray-500">Fields users fill in before the search runs.</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={detectParamsFromUrl} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition">Detect</button>
+                    <button onClick={() => addParam()} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-plus mr-1"></i> Add</button>
+                  </div>
+                </div>
+                {(editingTool?.params || []).map((param, i) => (
+                  <div key={i} className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="name" value={param.name} onChange={e => updateParam(i, { name: e.target.value.trim() })}/>
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Label" value={param.label} onChange={e => updateParam(i, { label: e.target.value })}/>
+                      <select className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={param.type} onChange={e => updateParam(i, { type: e.target.value as ToolParam['type'] })}>
+                        {PARAM_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                      </select>
+                    </div>
+                    {param.type === 'enum' && (
+                      <input type="text" className="w-full bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Options, comma separated" defaultValue={(param.options || []).join(', ')} onBlur={e => updateParam(i, { options: e.target.value.split(',').map(o => o.trim()).filter(Boolean) })}/>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="Validation regex (optional)" value={param.pattern || ''} onChange={e => updateParam(i, { pattern: e.target.value || undefined })}/>
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Default value (optional)" value={param.defaultValue || ''} onChange={e => updateParam(i, { defaultValue: e.target.value || undefined })}/>
+                    </div>
+                    <input type="text" className="w-full bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Help text (optional)" value={param.helpText || ''} onChange={e => updateParam(i, { helpText: e.target.value || undefined })}/>
+                    <div className="flex justify-between items-center">
+                      <label className="flex items-center gap-2 text-[10px] text-gray-500 font-bold uppercase tracking-widest">
+                        <input type="checkbox" checked={!!param.required} onChange={e => updateParam(i, { required: e.target.checked })}/> Required
+                      </label>
+                      <button onClick={() => removeParam(i)} className="text-gray-600 hover:text-red-500 p-1"><i className="fas fa-trash-alt text-xs"></i></button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="text-sm font-bold text-white">Result Mapping</div>
+                    <div className="text-[10px] text-gray-500">JSONPath selectors for the Structured tab, e.g. $.data.email or $..breaches[*].</div>
+                  </div>
+                  <button onClick={() => setEditingTool({ ...editingTool, resultMapping: [...(editingTool?.resultMapping || []), { label: '', kind: 'field', path: '$.' }] })} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-plus mr-1"></i> Add</button>
+                </div>
+                {(editingTool?.resultMapping || []).map((item, i) => (
+                  <div key={i} className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 space-y-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto_auto] gap-2">
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Label" value={item.label} onChange={e => updateMapping(i, { label: e.target.value })}/>
+                      <input type="text" className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="$.path.to.value" value={item.path} onChange={e => updateMapping(i, { path: e.target.value })}/>
+                      <select className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={item.kind} onChange={e => updateMapping(i, { kind: e.target.value as ResultMappingItem['kind'] })}>
+                        {MAPPING_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                      </select>
+                      <button onClick={() => setEditingTool({ ...editingTool, resultMapping: (editingTool?.resultMapping || []).filter((_, idx) => idx !== i) })} className="text-gray-600 hover:text-red-500 px-2"><i className="fas fa-trash-alt text-xs"></i></button>
+                    </div>
+                    {item.kind === 'table' && (
+                      <div className="pl-3 border-l border-gray-800 space-y-2">
+                        {(item.columns || []).map((col, c) => (
+                          <div key={c} className="flex gap-2">
+                            <input type="text" className="w-1/3 bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="Column" value={col.label} onChange={e => updateMapping(i, { columns: (item.columns || []).map((x, idx) => idx === c ? { ...x, label: e.target.value } : x) })}/>
+                            <input type="text" className="flex-1 bg-[#111] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="$.field (relative to row)" value={col.path} onChange={e => updateMapping(i, { columns: (item.columns || []).map((x, idx) => idx === c ? { ...x, path: e.target.value } : x) })}/>
+                            <button onClick={() => updateMapping(i, { columns: (item.columns || []).filter((_, idx) => idx !== c) })} className="text-gray-600 hover:text-red-500 px-2"><i className="fas fa-times text-xs"></i></button>
+                          </div>
+                        ))}
+                        <button onClick={() => updateMapping(i, { columns: [...(item.columns || []), { label: '', path: '$.' }] })} className="text-[10px] font-bold text-blue-500 uppercase hover:text-blue-400"><i className="fas fa-plus mr-1"></i> Column</button>
+                      </div>
+                    )}
+                  </div>
+                ))}
               </div>
 
               <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 flex items-center justify-between">
                 <div>
-                  <div className="text-sm font-bold text-white">Use Security Proxy</div>
-                  <div className="text-[10px] text-gray-500">Enable this if the API has CORS restrictions.</div>
+                  <div className="text-sm font-bold text-white">Run via Lookup Gateway</div>
+                  <div className="text-[10px] text-gray-500">Requests run server-side. Required for secrets and CORS-restricted APIs.</div>
                 </div>
                 <button 
                   onClick={() => setEditingTool({...editingTool, useProxy: !editingTool?.useProxy})}
@@ -362,6 +975,97 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
                 </button>
               </div>
 
+              {editingTool?.useProxy && (
+                <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <div className="text-sm font-bold text-white">Secrets</div>
+                      <div className="text-[10px] text-gray-500">Use as {'{name}'} placeholders. Values are stored server-side and never shown again.</div>
+                    </div>
+                    <button onClick={() => setEditingTool({ ...editingTool, secretKeys: [...(editingTool?.secretKeys || []), ''] })} className="text-[10px] font-bold text-blue-500 uppercase hover:text-blue-400"><i className="fas fa-plus mr-1"></i> Secret</button>
+                  </div>
+                  {(editingTool?.secretKeys || []).map((key, i) => (
+                    <div key={i} className="flex gap-2">
+                      <input type="text" className="w-1/3 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder="api_key" value={key} onChange={e => {
+                        const secretKeys = [...(editingTool?.secretKeys || [])];
+                        secretKeys[i] = e.target.value.trim();
+                        setEditingTool({ ...editingTool, secretKeys });
+                      }}/>
+                      <input type="password" autoComplete="new-password" className="flex-1 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder={editingTool?.id ? 'Leave blank to keep current value' : 'Secret value'} value={secretValues[key] || ''} onChange={e => setSecretValues({ ...secretValues, [key]: e.target.value })}/>
+                      <button onClick={() => setEditingTool({ ...editingTool, secretKeys: (editingTool?.secretKeys || []).filter((_, idx) => idx !== i) })} className="text-gray-600 hover:text-red-500 px-2"><i className="fas fa-times text-xs"></i></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+                <div>
+                  <div className="text-sm font-bold text-white">Access</div>
+                  <div className="text-[10px] text-gray-500">Only members of the selected groups can see and run this tool. Select none to allow every approved user.</div>
+                </div>
+                {groups.length === 0 ? (
+                  <p className="text-[11px] text-gray-600">No groups defined yet. Create them in the Groups tab.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {groups.map(g => {
+                      const selected = !!editingTool?.allowedGroups?.includes(g.id);
+                      return (
+                        <button key={g.id} onClick={() => setEditingTool({ ...editingTool, allowedGroups: selected ? (editingTool?.allowedGroups || []).filter(id => id !== g.id) : [...(editingTool?.allowedGroups || []), g.id] })} className={`text-[10px] font-bold px-3 py-1.5 rounded-lg border transition ${selected ? 'border-blue-500 text-blue-500 bg-blue-500/10' : 'border-gray-700 text-gray-500 hover:text-white'}`}>
+                          {selected && <i className="fas fa-check mr-1"></i>}{g.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-bold text-white">AI Analysis</div>
+                    <div className="text-[10px] text-gray-500">Summarize results through the gateway. Leave provider and model empty to use the gateway defaults.</div>
+                  </div>
+                  <button onClick={() => setEditingTool({ ...editingTool, ai: { ...editingTool?.ai, enabled: editingTool?.ai?.enabled === false } })} className={`w-12 h-6 rounded-full transition-colors relative flex-shrink-0 ${editingTool?.ai?.enabled !== false ? 'bg-blue-600' : 'bg-gray-700'}`}>
+                    <div className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-all ${editingTool?.ai?.enabled !== false ? 'left-7' : 'left-1'}`}></div>
+                  </button>
+                </div>
+                {editingTool?.ai?.enabled !== false && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <select className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={editingTool?.ai?.provider || ''} onChange={e => setEditingTool({ ...editingTool, ai: { ...editingTool?.ai, enabled: true, provider: (e.target.value || null) as AiProviderId | null } })}>
+                      <option value="">Gateway default</option>
+                      {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                    </select>
+                    <input type="text" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder={editingTool?.ai?.provider ? getDefaultModel(editingTool.ai.provider) : 'Default model'} value={editingTool?.ai?.model || ''} onChange={e => setEditingTool({ ...editingTool, ai: { ...editingTool?.ai, enabled: true, model: e.target.value } })}/>
+                    <select className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={editingTool?.ai?.templateId || ''} onChange={e => setEditingTool({ ...editingTool, ai: { ...editingTool?.ai, enabled: true, templateId: e.target.value || null } })}>
+                      <option value="">Built-in prompt</option>
+                      {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+                <div>
+                  <div className="text-sm font-bold text-white">Tool Quota</div>
+                  <div className="text-[10px] text-gray-500">Team-wide lookups allowed against this provider. Tools with a quota run through the gateway, which counts them. Leave blank for unlimited.</div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['daily', 'monthly'] as const).map(period => (
+                    <input key={period} type="number" min={0} className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder={period === 'daily' ? 'Per day' : 'Per month'} value={editingTool?.quota?.[period] ?? ''} onChange={e => setEditingTool({ ...editingTool, quota: { ...(editingTool?.quota || {}), [period]: e.target.value === '' ? null : Number(e.target.value) } })}/>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+                <div>
+                  <div className="text-sm font-bold text-white">Result Cache</div>
+                  <div className="text-[10px] text-gray-500">Identical lookups within this many hours reuse the stored result and AI summary. Leave blank to always call the provider.</div>
+                </div>
+                <input type="number" min={0} max={MAX_CACHE_TTL_HOURS} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="TTL in hours" value={editingTool?.cacheTtlHours ?? ''} onChange={e => setEditingTool({ ...editingTool, cacheTtlHours: e.target.value === '' ? null : Number(e.target.value) })}/>
+              </div>
+
+              <ToolTestPanel params={getToolParams({ params: editingTool?.params })} onRun={handleTestTool} />
+
               <div className="flex-grow">
                 <label className="block text-xs font-bold text-gray-500 mb-2 uppercase tracking-widest">Description</label>
                 <div className="h-[200px] mb-12 md:mb-10">
@@ -371,13 +1075,42 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ profile, onLogout, onViewLive }
             </div>
             
             <div className="flex flex-col sm:flex-row gap-3 mt-6 pt-6 border-t border-gray-800">
-              <button onClick={handleSaveTool} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition">Save Tool</button>
+              <button onClick={handleSaveTool} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition">{editingTool?.id ? 'Publish' : 'Save Tool'}</button>
+              {editingTool?.id && (
+                <button onClick={handleSaveDraft} title="Only admins can try a draft from the dashboard. Secret values are saved when publishing." className="flex-1 bg-purple-600/20 hover:bg-purple-600/30 text-purple-300 py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition">Save Draft</button>
+              )}
               <button onClick={() => setIsToolModalOpen(false)} className="flex-1 bg-gray-800 hover:bg-gray-700 text-gray-400 py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition">Cancel</button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Quota Modal */}
+      {quotaTarget && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+          <div className="bg-[#111] border border-gray-800 w-full max-w-md rounded-2xl p-8 animate-in zoom-in-95">
+            <h3 className="text-xl font-bold text-white mb-2 flex items-center gap-3"><i className="fas fa-gauge-high text-blue-500"></i> Lookup Quota</h3>
+            <p className="text-xs text-gray-500 mb-6">
+              {quotaTarget === 'defaults' ? 'Applies to every user without their own limits.' : `Limits for ${quotaTarget.email}. Leave both blank to use the default.`}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Daily</label>
+                <input type="number" min={0} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3.5 text-white focus:border-blue-500 outline-none" placeholder="Unlimited" value={quotaDraft.daily} onChange={e => setQuotaDraft({ ...quotaDraft, daily: e.target.value })}/>
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Monthly</label>
+                <input type="number" min={0} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3.5 text-white focus:border-blue-500 outline-none" placeholder="Unlimited" value={quotaDraft.monthly} onChange={e => setQuotaDraft({ ...quotaDraft, monthly: e.target.value })}/>
+              </div>
+            </div>
+            <div className="flex gap-3 pt-6">
+              <button onClick={handleSaveQuota} className="flex-1 bg-blue-600 text-white font-bold py-3.5 rounded-xl transition text-xs uppercase tracking-widest">Save</button>
+              <button onClick={() => setQuotaTarget(null)} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3.5 rounded-xl transition text-xs uppercase tracking-widest">Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Password Modal */}
       {isPasswordModalOpen && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
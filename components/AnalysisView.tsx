@@ -0,0 +1,72 @@
+import React from 'react';
+import { RiskLevel, StructuredAnalysis } from '../types';
+import { RISK_LEVELS } from '../services/analysisSchema';
+
+interface AnalysisViewProps {
+  analysis: StructuredAnalysis;
+}
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  low: 'text-green-400 bg-green-500/10 border-green-500/30',
+  medium: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30',
+  high: 'text-orange-400 bg-orange-500/10 border-orange-500/30',
+  critical: 'text-red-400 bg-red-500/10 border-red-500/30'
+};
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis }) => {
+  return (
+    <div className="p-6 md:p-8 space-y-6">
+      <div className={`border rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${RISK_STYLES[analysis.risk.level]}`}>
+        <span className="text-[10px] font-bold uppercase tracking-widest flex-shrink-0">
+          <i className="fas fa-shield-alt mr-1"></i> {RISK_LEVELS.find(r => r.id === analysis.risk.level)?.label} risk
+        </span>
+        <span className="text-xs text-gray-300">{analysis.risk.justification}</span>
+      </div>
+
+      <p className="text-sm text-gray-300 leading-relaxed">{analysis.summary}</p>
+
+      {analysis.entities.length > 0 && (
+        <div>
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Entities</p>
+          <div className="flex flex-wrap gap-1.5">
+            {analysis.entities.map((e, i) => (
+              <span key={i} className="text-[11px] bg-[#1a1a1a] border border-gray-800 rounded-lg px-2 py-1">
+                <span className="text-gray-500 mr-1">{e.type}</span><span className="text-white break-all">{e.value}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.findings.length > 0 && (
+        <div>
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Key Findings</p>
+          <div className="space-y-3">
+            {analysis.findings.map((f, i) => (
+              <div key={i} className="bg-[#111] border border-gray-800 rounded-xl p-4">
+                <div className="text-sm font-bold text-white">{f.title}</div>
+                <div className="text-xs text-gray-400 mt-1 leading-relaxed">{f.detail}</div>
+                {f.paths.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {f.paths.map(p => <span key={p} className="text-[10px] font-mono text-blue-400 bg-blue-500/10 px-2 py-0.5 rounded">{p}</span>)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {analysis.nextSteps.length > 0 && (
+        <div>
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Recommended Next Steps</p>
+          <ol className="space-y-1 list-decimal list-inside text-sm text-gray-300">
+            {analysis.nextSteps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisView;
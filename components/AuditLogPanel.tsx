@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AuditEntry } from '../types';
+import { AUDIT_ACTIONS, AuditFilters, EMPTY_AUDIT_FILTERS, filterAuditEntries, auditToCsv } from '../services/auditService';
+import { downloadFile, timestampForFilename } from '../services/fileExport';
+
+interface AuditLogPanelProps {
+  entries: AuditEntry[];
+}
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ entries }) => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const visible = filterAuditEntries(entries, filters);
+
+  const exportJson = () => {
+    downloadFile(`audit-${timestampForFilename()}.json`, JSON.stringify(visible, null, 2), 'application/json');
+  };
+
+  const exportCsv = () => {
+    downloadFile(`audit-${timestampForFilename()}.csv`, auditToCsv(visible), 'text/csv');
+  };
+
+  const inputClass = "bg-[#0a0a0a] border border-gray-800 rounded-xl p-2.5 text-white text-xs focus:border-blue-500 outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#111] border border-gray-800 rounded-2xl p-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <input type="text" className={inputClass} placeholder="Actor email or UID" value={filters.actor} onChange={e => setFilters({ ...filters, actor: e.target.value })}/>
+        <input type="text" className={inputClass} placeholder="Target" value={filters.target} onChange={e => setFilters({ ...filters, target: e.target.value })}/>
+        <select className={inputClass} value={filters.action} onChange={e => setFilters({ ...filters, action: e.target.value as AuditFilters['action'] })}>
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+        </select>
+        <button onClick={exportCsv} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-xl bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-file-csv mr-1"></i> CSV</button>
+        <button onClick={exportJson} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-xl bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-file-code mr-1"></i> JSON</button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="py-20 text-center opacity-40">
+          <i className="fas fa-clipboard-list text-4xl mb-4"></i>
+          <p className="text-sm font-bold uppercase tracking-widest">No audit entries</p>
+        </div>
+      ) : (
+        <div className="bg-[#111] border border-gray-800 rounded-2xl overflow-hidden divide-y divide-gray-800">
+          {visible.map(e => (
+            <div key={e.id}>
+              <button onClick={() => setExpandedId(expandedId === e.id ? null : e.id)} className="w-full p-4 text-left hover:bg-gray-800/20 transition flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-white">
+                    <span className="font-bold">{e.actorEmail}</span>
+                    <span className="text-gray-500 mx-2">→</span>
+                    <span className="font-mono text-xs text-blue-400">{e.action}</span>
+                    <span className="text-gray-500 mx-2">on</span>
+                    <span className="font-bold">{e.targetLabel}</span>
+                  </div>
+                  <div className="text-[10px] text-gray-600 font-mono mt-0.5">{e.targetType}:{e.targetId}</div>
+                </div>
+                <div className="text-[10px] text-gray-500 flex-shrink-0">{new Date(e.timestamp).toLocaleString()}</div>
+              </button>
+              {expandedId === e.id && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 px-4 pb-4">
+                  <div>
+                    <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">Before</div>
+                    <pre className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-[10px] text-red-300 font-mono overflow-auto max-h-64">{JSON.stringify(e.before, null, 2)}</pre>
+                  </div>
+                  <div>
+                    <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1">After</div>
+                    <pre className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-[10px] text-green-300 font-mono overflow-auto max-h-64">{JSON.stringify(e.after, null, 2)}</pre>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
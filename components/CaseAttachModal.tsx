@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { InvestigationCase, LookupResult, UserProfile } from '../types';
+import { attachLookup } from '../services/caseService';
+
+interface CaseAttachModalProps {
+  profile: UserProfile;
+  cases: InvestigationCase[];
+  lookup: LookupResult;
+  data: any;
+  summary: string;
+  onClose: () => void;
+}
+
+const CaseAttachModal: React.FC<CaseAttachModalProps> = ({ profile, cases, lookup, data, summary, onClose }) => {
+  const [caseIds, setCaseIds] = useState<string[]>([]);
+  const [includeData, setIncludeData] = useState(true);
+  const [includeSummary, setIncludeSummary] = useState(!!summary);
+  const [saving, setSaving] = useState(false);
+  const openCases = cases.filter(c => c.status !== 'closed');
+
+  const toggleCase = (id: string) => {
+    setCaseIds(caseIds.includes(id) ? caseIds.filter(c => c !== id) : [...caseIds, id]);
+  };
+
+  const handleAttach = async () => {
+    setSaving(true);
+    try {
+      await attachLookup(profile, caseIds, lookup, {
+        data: includeData ? data : undefined,
+        summary: includeSummary ? summary : null
+      });
+      onClose();
+    } catch (err: any) {
+      alert(`Could not attach to the case: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+      <div className="bg-[#111] border border-gray-800 w-full max-w-md rounded-2xl p-8 animate-in zoom-in-95 shadow-2xl space-y-5">
+        <h3 className="text-xl font-bold text-white flex items-center gap-3"><i className="fas fa-briefcase text-blue-500"></i> Add to Case</h3>
+        {openCases.length === 0 ? (
+          <p className="text-xs text-gray-500">You have no open cases. Create one from the Cases view first.</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+            {openCases.map(c => (
+              <label key={c.id} className="flex items-center gap-3 bg-[#0a0a0a] border border-gray-800 rounded-xl px-4 py-3 cursor-pointer hover:border-blue-500/30">
+                <input type="checkbox" checked={caseIds.includes(c.id)} onChange={() => toggleCase(c.id)} />
+                <span className="text-sm text-white truncate">{c.title}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-5 text-xs text-gray-400">
+          <label className="flex items-center gap-2"><input type="checkbox" checked={includeData} onChange={e => setIncludeData(e.target.checked)} /> Result data</label>
+          <label className={`flex items-center gap-2 ${summary ? '' : 'opacity-40'}`}><input type="checkbox" disabled={!summary} checked={includeSummary} onChange={e => setIncludeSummary(e.target.checked)} /> AI summary</label>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={handleAttach} disabled={saving || caseIds.length === 0 || (!includeData && !includeSummary)} className="flex-1 bg-blue-600 text-white font-bold py-3.5 rounded-xl transition disabled:opacity-50 text-xs uppercase tracking-widest">Attach</button>
+          <button onClick={onClose} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3.5 rounded-xl transition text-xs uppercase tracking-widest">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaseAttachModal;
@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react';
+import { CaseItem, CaseStatus, InvestigationCase, OSINTTool, UserProfile } from '../types';
+import { CASE_STATUSES, addCaseNote, deleteCase, parseList, normalizeEmail, removeCaseItem, saveCase, subscribeCaseItems } from '../services/caseService';
+import { decodeResponse } from '../services/historyService';
+import StructuredView from './StructuredView';
+
+interface CasesPanelProps {
+  profile: UserProfile;
+  cases: InvestigationCase[];
+  tools: OSINTTool[];
+}
+
+interface CaseForm {
+  id?: string;
+  title: string;
+  status: CaseStatus;
+  assignees: string;
+  tags: string;
+}
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  open: 'text-blue-400 bg-blue-500/10',
+  active: 'text-yellow-400 bg-yellow-500/10',
+  closed: 'text-gray-400 bg-gray-500/10'
+};
+
+const ITEM_ICONS: Record<CaseItem['kind'], string> = {
+  lookup: 'fas fa-database text-blue-500',
+  summary: 'fas fa-brain text-purple-400',
+  note: 'fas fa-sticky-note text-yellow-400'
+};
+
+const CasesPanel: React.FC<CasesPanelProps> = ({ profile, cases, tools }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<CaseForm | null>(null);
+  const [items, setItems] = useState<CaseItem[]>([]);
+  const [note, setNote] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CaseStatus | ''>('');
+  const [tagFilter, setTagFilter] = useState('');
+
+  const selected = cases.find(c => c.id === selectedId) || null;
+  const allTags = Array.from(new Set(cases.flatMap(c => c.tags))).sort();
+  const visible = cases
+    .filter(c => !statusFilter || c.status === statusFilter)
+    .filter(c => !tagFilter || c.tags.includes(tagFilter));
+
+  useEffect(() => {
+    setItems([]);
+    setExpanded(null);
+    if (!selectedId) return;
+    return subscribeCaseItems(selectedId, setItems);
+  }, [selectedId]);
+
+  const handleSave = async () => {
+    if (!form?.title.trim()) {
+      alert("Please enter a case title.");
+      return;
+    }
+    const assignees = parseList(form.assignees, normalizeEmail);
+    const invalid = assignees.find(a => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(a));
+    if (invalid) {
+      alert(`"${invalid}" is not a valid email.`);
+      return;
+    }
+    try {
+      const id = await saveCase(profile, { title: form.title, status: form.status, assignees, tags: parseList(form.tags) }, cases.find(c => c.id === form.id));
+      setForm(null);
+      setSelectedId(id);
+    } catch (err: any) {
+      alert(`Could not save the case: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (c: InvestigationCase) => {
+    if (!confirm(`Delete the case "${c.title}" and everything attached to it?`)) return;
+    try {
+      await deleteCase(c.id);
+      setSelectedId(null);
+    } catch (err: any) {
+      alert(`Could not delete the case: ${err.message}`);
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !note.trim()) return;
+    try {
+      await addCaseNote(profile, selected.id, note);
+      setNote('');
+    } catch (err: any) {
+      alert(`Could not add the note: ${err.message}`);
+    }
+  };
+
+  const handleRemoveItem = async (item: CaseItem) => {
+    if (!selected || !confirm("Remove this entry from the case?")) return;
+    await removeCaseItem(selected.id, item.id).catch(err => alert(`Could not remove the entry: ${err.message}`));
+  };
+
+  const inputClass = "w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none";
+
+  const renderItemBody = (item: CaseItem) => {
+    if (item.kind !== 'lookup') {
+      return <div className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed">{item.text}</div>;
+    }
+    const mapping = tools.find(t => t.id === item.toolId)?.resultMapping;
+    const data = decodeResponse(item.responseBody || 'null', !!item.truncated);
+    return (
+      <div className="space-y-2">
+        <div className="text-[11px] text-gray-400 font-mono truncate">
+          {Object.entries(item.params || {}).map(([k, v]) => `${k}=${v}`).join(' · ')}
+        </div>
+        <button onClick={() => setExpanded(expanded === item.id ? null : item.id)} className="text-[10px] font-bold text-blue-500 uppercase tracking-widest hover:text-blue-400">
+          <i className={`fas ${expanded === item.id ? 'fa-chevron-up' : 'fa-chevron-down'} mr-1`}></i>{expanded === item.id ? 'Hide data' : 'Show data'}
+        </button>
+        {expanded === item.id && (
+          <div className="bg-[#0a0a0a] border border-gray-800 rounded-xl max-h-96 overflow-auto custom-scrollbar">
+            {mapping?.length ? <StructuredView data={data} mapping={mapping} /> : <pre className="p-4 text-[11px] text-gray-400 whitespace-pre-wrap break-all">{JSON.stringify(data, null, 2)}</pre>}
+            {item.truncated && <p className="px-4 pb-3 text-[10px] text-yellow-500">The response was too large and has been truncated.</p>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderForm = () => {
+    if (!form) return null;
+    return (
+      <div className="bg-[#111] border border-blue-500/30 rounded-2xl p-5 space-y-3">
+        <input type="text" className={inputClass} placeholder="Case title" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })}/>
+        <select className={inputClass} value={form.status} onChange={e => setForm({ ...form, status: e.target.value as CaseStatus })}>
+          {CASE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <input type="text" className={inputClass} placeholder="Assignee emails, comma separated (you are always included)" value={form.assignees} onChange={e => setForm({ ...form, assignees: e.target.value })}/>
+        <input type="text" className={inputClass} placeholder="Tags, comma separated" value={form.tags} onChange={e => setForm({ ...form, tags: e.target.value })}/>
+        <div className="flex gap-2">
+          <button onClick={handleSave} className="flex-1 bg-blue-600 text-white font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Save</button>
+          <button onClick={() => setForm(null)} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Cancel</button>
+        </div>
+      </div>
+    );
+  };
+
+  if (selected) {
+    return (
+      <div className="space-y-6">
+        <button onClick={() => setSelectedId(null)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-arrow-left mr-1"></i> All cases</button>
+        <div className="bg-[#111] border border-gray-800 rounded-2xl p-6 space-y-4">
+          <div className="flex justify-between items-start gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-3">
+                <h2 className="text-xl font-bold text-white truncate">{selected.title}</h2>
+                <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-lg ${STATUS_STYLES[selected.status]}`}>{CASE_STATUSES.find(s => s.id === selected.status)?.label}</span>
+              </div>
+              <p className="text-[11px] text-gray-500 mt-1">Opened by {selected.ownerEmail} · {new Date(selected.createdAt).toLocaleString()}</p>
+            </div>
+            <div className="flex gap-1 text-gray-600 flex-shrink-0">
+              <button onClick={() => setForm({ id: selected.id, title: selected.title, status: selected.status, assignees: selected.assignees.join(', '), tags: selected.tags.join(', ') })} className="hover:text-white p-2" title="Edit"><i className="fas fa-edit"></i></button>
+              {(selected.ownerUid === profile.uid || profile.isAdmin || profile.isOwner) && (
+                <button onClick={() => handleDelete(selected)} className="hover:text-red-500 p-2" title="Delete"><i className="fas fa-trash-alt"></i></button>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {selected.assignees.map(a => <span key={a} className="text-[10px] font-bold text-gray-300 bg-gray-800 px-2 py-1 rounded-lg"><i className="fas fa-user mr-1 text-gray-500"></i>{a}</span>)}
+            {selected.tags.map(t => <span key={t} className="text-[10px] font-bold text-blue-400 bg-blue-500/10 px-2 py-1 rounded-lg">#{t}</span>)}
+          </div>
+        </div>
+
+        {form && renderForm()}
+
+        <div className="space-y-3">
+          {items.length === 0 && (
+            <div className="py-12 text-center opacity-40">
+              <i className="fas fa-stream text-3xl mb-3"></i>
+              <p className="text-xs font-bold uppercase tracking-widest">Attach lookups or add notes to build the timeline</p>
+            </div>
+          )}
+          {items.map(item => (
+            <div key={item.id} className="bg-[#111] border border-gray-800 rounded-2xl p-4 flex gap-4">
+              <i className={`${ITEM_ICONS[item.kind]} mt-1`}></i>
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex justify-between items-center gap-3">
+                  <div className="text-[11px] text-gray-500 truncate">
+                    <span className="font-bold text-white text-sm mr-2">{item.kind === 'note' ? 'Note' : item.kind === 'summary' ? `AI Summary · ${item.toolName}` : item.toolName}</span>
+                    {new Date(item.timestamp).toLocaleString()} · {item.authorEmail}
+                  </div>
+                  {(item.authorUid === profile.uid || selected.ownerUid === profile.uid) && (
+                    <button onClick={() => handleRemoveItem(item)} className="text-gray-600 hover:text-red-500 text-xs flex-shrink-0"><i className="fas fa-times"></i></button>
+                  )}
+                </div>
+                {renderItemBody(item)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddNote} className="bg-[#111] border border-gray-800 rounded-2xl p-4 space-y-3">
+          <textarea className={`${inputClass} min-h-[80px]`} placeholder="Add a note or finding..." value={note} onChange={e => setNote(e.target.value)}></textarea>
+          <button type="submit" disabled={!note.trim()} className="bg-blue-600 hover:bg-blue-700 text-white font-bold px-5 py-2.5 rounded-xl text-xs uppercase tracking-widest transition disabled:opacity-40">Add Note</button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 justify-between">
+        <div className="flex gap-3">
+          <select className="bg-[#111] border border-gray-800 rounded-xl p-2.5 text-white text-xs focus:border-blue-500 outline-none" value={statusFilter} onChange={e => setStatusFilter(e.target.value as CaseStatus | '')}>
+            <option value="">Any status</option>
+            {CASE_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <select className="bg-[#111] border border-gray-800 rounded-xl p-2.5 text-white text-xs focus:border-blue-500 outline-none" value={tagFilter} onChange={e => setTagFilter(e.target.value)}>
+            <option value="">All tags</option>
+            {allTags.map(t => <option key={t} value={t}>#{t}</option>)}
+          </select>
+        </div>
+        <button onClick={() => setForm({ title: '', status: 'open', assignees: '', tags: '' })} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
+          <i className="fas fa-plus mr-2"></i>New Case
+        </button>
+      </div>
+
+      {form && renderForm()}
+
+      {visible.length === 0 ? (
+        <div className="py-20 text-center opacity-40">
+          <i className="fas fa-briefcase text-4xl mb-4"></i>
+          <p className="text-sm font-bold uppercase tracking-widest">No cases found</p>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {visible.map(c => (
+            <button key={c.id} onClick={() => setSelectedId(c.id)} className="bg-[#111] border border-gray-800 rounded-2xl p-4 text-left hover:border-blue-500/30 transition">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-bold text-white text-sm truncate">{c.title}</span>
+                <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded-lg flex-shrink-0 ${STATUS_STYLES[c.status]}`}>{CASE_STATUSES.find(s => s.id === c.status)?.label}</span>
+              </div>
+              <div className="text-[10px] text-gray-600 mt-1 truncate">
+                {c.assignees.length} member{c.assignees.length === 1 ? '' : 's'} · updated {new Date(c.updatedAt).toLocaleString()}
+                {c.tags.length > 0 && <span className="text-blue-400 ml-2">{c.tags.map(t => `#${t}`).join(' ')}</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CasesPanel;
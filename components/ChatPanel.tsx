@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, ChatSourceRef, LookupResult, OSINTTool } from '../types';
+import { askFollowUp } from '../services/aiService';
+import { extractCitations, MAX_CHAT_SOURCES, splitCitations } from '../services/chatPrompt';
+import { loadLookupResponse, updateLookupChat } from '../services/historyService';
+
+interface ChatPanelProps {
+  lookup: LookupResult;
+  data: any;
+  history: LookupResult[];
+  tools: OSINTTool[];
+  onChatChange: (chat: ChatMessage[], chatSources: ChatSourceRef[]) => void;
+}
+
+const formatParams = (params: Record<string, string>) => Object.values(params).filter(Boolean).join(', ');
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ lookup, data, history, tools, onChatChange }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(lookup.chat || []);
+  const [sources, setSources] = useState<ChatSourceRef[]>(lookup.chatSources || []);
+  const [sourceData, setSourceData] = useState<Record<string, any>>({});
+  const [question, setQuestion] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [showPicker, setShowPicker] = useState(false);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  // Only lookups with stored data from tools the analyst can still use can be attached.
+  const attachable = history
+    .filter(l => l.id !== lookup.id && l.status === 'success' && l.responseRef && tools.some(t => t.id === l.toolId))
+    .filter(l => !sources.some(s => s.lookupId === l.id))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 30);
+
+  const persist = (chat: ChatMessage[], chatSources: ChatSourceRef[]) => {
+    onChatChange(chat, chatSources);
+    updateLookupChat(lookup.id, chat, chatSources).catch(err => console.error("Could not save the conversation:", err));
+  };
+
+  const attachSource = (attached: LookupResult) => {
+    const next = [...sources, { lookupId: attached.id, toolId: attached.toolId, toolName: attached.toolName, params: attached.params }];
+    setSources(next);
+    setShowPicker(false);
+    persist(messages, next);
+  };
+
+  const detachSource = (lookupId: string) => {
+    const next = sources.filter(s => s.lookupId !== lookupId);
+    setSources(next);
+    persist(messages, next);
+  };
+
+  const loadSourceData = async () => {
+    const loaded = { ...sourceData };
+    for (const source of sources) {
+      if (source.lookupId in loaded) continue;
+      const attached = history.find(l => l.id === source.lookupId);
+      loaded[source.lookupId] = attached ? await loadLookupResponse(attached) : null;
+    }
+    setSourceData(loaded);
+    return sources.map(s => loaded[s.lookupId] ?? null);
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || streamingText !== null) return;
+    const asked = [...messages, { role: 'user' as const, text, timestamp: Date.now() }];
+    setMessages(asked);
+    setQuestion('');
+    setError('');
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abort.current = controller;
+    let attachedData: any[];
+    try {
+      attachedData = await loadSourceData();
+    } catch (err: any) {
+      setStreamingText(null);
+      setError(`Could not load the attached lookups: ${err.message}`);
+      return;
+    }
+    const allData = [data, ...attachedData];
+    const answer = await askFollowUp(
+      [lookup.id, ...sources.map(s => s.lookupId)],
+      asked.map(({ role, text }) => ({ role, text })),
+      { signal: controller.signal, onChunk: setStreamingText }
+    );
+    if (abort.current !== controller) return;
+    abort.current = null;
+    setStreamingText(null);
+    if (answer.status === 'cancelled') setError("Answer cancelled. Partial output is kept.");
+    if (answer.status === 'failed') setError(answer.error || "The answer failed.");
+
+    const next = answer.text
+      ? [...asked, { role: 'assistant' as const, text: answer.text, timestamp: Date.now(), citations: extractCitations(answer.text, allData.map(d => ({ data: d }))) }]
+      : asked;
+    setMessages(next);
+    persist(next, sources);
+  };
+
+  const sourceLabel = (index: number) => index === 1 ? lookup.toolName : sources[index - 2]?.toolName || 'Unknown source';
+
+  const renderAnswer = (message: ChatMessage) => splitCitations(message.text).map((part, i) => {
+    if ('text' in part) return <span key={i}>{part.text}</span>;
+    const valid = message.citations?.find(c => c.source === part.source && c.path === part.path)?.valid;
+    return (
+      <span key={i} title={valid ? `${sourceLabel(part.source)} ${part.path}` : 'This path does not resolve in the cited data'} className={`inline-block align-baseline text-[10px] font-mono px-1.5 py-0.5 mx-0.5 rounded ${valid ? 'text-blue-400 bg-blue-500/10' : 'text-red-400 bg-red-500/10 line-through'}`}>
+        S{part.source} {part.path}{!valid && <i className="fas fa-exclamation-triangle ml-1 no-underline"></i>}
+      </span>
+    );
+  });
+
+  return (
+    <div className="flex flex-col">
+      <div className="px-6 pt-5 flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mr-1">Sources</span>
+        <span className="text-[11px] bg-[#1a1a1a] border border-gray-800 rounded-lg px-2 py-1 text-white"><span className="text-gray-500 mr-1">S1</span>{lookup.toolName}</span>
+        {sources.map((s, i) => (
+          <span key={s.lookupId} className="text-[11px] bg-[#1a1a1a] border border-gray-800 rounded-lg px-2 py-1 text-white">
+            <span className="text-gray-500 mr-1">S{i + 2}</span>{s.toolName} <span className="text-gray-500">{formatParams(s.params)}</span>
+            <button onClick={() => detachSource(s.lookupId)} disabled={streamingText !== null} className="ml-2 text-gray-600 hover:text-red-400"><i className="fas fa-times"></i></button>
+          </span>
+        ))}
+        {sources.length < MAX_CHAT_SOURCES - 1 && (
+          <div className="relative">
+            <button onClick={() => setShowPicker(!showPicker)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-2 py-1 rounded-lg uppercase hover:text-white transition"><i className="fas fa-paperclip mr-1"></i> Attach Lookup</button>
+            {showPicker && (
+              <div className="absolute left-0 mt-2 w-72 max-h-64 overflow-y-auto custom-scrollbar bg-[#111] border border-gray-800 rounded-xl shadow-2xl z-20">
+                {attachable.length === 0 ? (
+                  <p className="p-4 text-xs text-gray-500">No other saved lookups to attach.</p>
+                ) : attachable.map(l => (
+                  <button key={l.id} onClick={() => attachSource(l)} className="w-full text-left px-4 py-2.5 hover:bg-white/5 border-b border-gray-800 last:border-0">
+                    <div className="text-xs text-white">{l.toolName}</div>
+                    <div className="text-[10px] text-gray-500 truncate">{formatParams(l.params)} · {new Date(l.timestamp).toLocaleString()}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4 max-h-[520px] overflow-y-auto custom-scrollbar">
+        {messages.length === 0 && streamingText === null && (
+          <div className="py-16 text-center opacity-30"><i className="fas fa-comments text-4xl mb-3"></i><p className="text-xs font-bold uppercase tracking-widest">Ask a question about this result</p></div>
+        )}
+        {messages.map((m, i) => (
+          <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap ${m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-[#111] border border-gray-800 text-gray-300'}`}>
+              {m.role === 'user' ? m.text : renderAnswer(m)}
+            </div>
+          </div>
+        ))}
+        {streamingText !== null && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-[#111] border border-gray-800 text-gray-300 font-mono text-xs whitespace-pre-wrap">
+              {streamingText || <span className="opacity-50"><i className="fas fa-brain animate-pulse mr-1"></i> Thinking...</span>}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mx-6 mb-4 p-3 bg-yellow-900/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs flex gap-2"><i className="fas fa-exclamation-triangle mt-0.5"></i>{error}</div>}
+
+      <form onSubmit={handleAsk} className="px-6 pb-6 flex gap-2">
+        <input type="text" className="flex-1 bg-[#111] border border-gray-800 rounded-lg px-3 py-2 text-white text-xs focus:border-blue-500 outline-none" placeholder="e.g. Which accounts share this email?" value={question} onChange={e => setQuestion(e.target.value)} disabled={streamingText !== null}/>
+        {streamingText !== null ? (
+          <button type="button" onClick={() => abort.current?.abort()} className="text-[10px] font-bold text-red-400 border border-red-500/20 px-3 py-1.5 rounded-lg bg-red-500/5 uppercase hover:bg-red-500/10 transition"><i className="fas fa-stop mr-1"></i> Cancel</button>
+        ) : (
+          <button type="submit" disabled={!question.trim()} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition disabled:opacity-50"><i className="fas fa-paper-plane mr-1"></i> Ask</button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
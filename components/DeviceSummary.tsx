@@ -0,0 +1,39 @@
+import React from 'react';
+import { SessionMetadata } from '../types';
+import { describeDevice, deviceIcon } from '../services/deviceInfo';
+
+interface DeviceSummaryProps {
+  session: SessionMetadata;
+  badge?: React.ReactNode;
+  extra?: React.ReactNode; // Appended to the timestamps line
+  pending?: boolean; // A device waiting for approval has not signed in yet
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+const DeviceSummary: React.FC<DeviceSummaryProps> = ({ session, badge, extra, pending = false }) => {
+  const details = [session.label ? session.deviceName : null, session.platform && session.platform[0].toUpperCase() + session.platform.slice(1)].filter(Boolean);
+  const times = pending ? [`Requested ${formatTime(session.firstSeenAt || session.timestamp)}`] : [
+    session.firstSeenAt && session.firstSeenAt !== session.timestamp ? `First seen ${formatTime(session.firstSeenAt)}` : null,
+    session.timestamp ? `Signed in ${formatTime(session.timestamp)}` : 'Signed in before sessions were tracked',
+    session.lastActiveAt ? `Active ${formatTime(session.lastActiveAt)}` : null
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-4 min-w-0">
+      <div className="w-10 h-10 bg-gray-800 rounded-lg flex items-center justify-center text-gray-500 flex-shrink-0">
+        <i className={`fas ${deviceIcon(session)}`}></i>
+      </div>
+      <div className="min-w-0">
+        <div className="font-bold text-white text-sm truncate">{describeDevice(session)} {badge}</div>
+        {details.length > 0 && <div className="text-[10px] text-gray-400 mt-0.5 truncate">{details.join(' · ')}</div>}
+        <div className="text-[10px] text-gray-500 mt-1">
+          {times.join(' · ')}
+          {extra && <> · {extra}</>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceSummary;
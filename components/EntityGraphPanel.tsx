@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EntityType, GraphNode, LookupResult, OSINTTool } from '../types';
+import { loadLookupResponse } from '../services/historyService';
+import { ENTITY_TYPES, getPivotTargets, PivotTarget } from '../services/entities';
+import { buildEntityGraph, EMPTY_GRAPH_FILTERS, entityGraphToJson, filterEntityGraph, GraphFilters, layoutEntityGraph } from '../services/entityGraph';
+import { downloadFile, timestampForFilename } from '../services/fileExport';
+
+interface EntityGraphPanelProps {
+  lookups: LookupResult[];
+  tools: OSINTTool[];
+  busy: boolean; // A pivot lookup is running
+  onExpand: (node: GraphNode, target: PivotTarget) => void;
+  onOpenLookup: (lookup: LookupResult) => void;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 650;
+const SCOPES = [25, 50, 100];
+
+// Plain colours rather than classes so the SVG renders the same when exported as PNG.
+const NODE_COLORS: Record<EntityType | 'lookup', string> = {
+  email: '#7dd3fc',
+  phone: '#86efac',
+  domain: '#d8b4fe',
+  ip: '#fdba74',
+  username: '#f9a8d4',
+  lookup: '#3b82f6'
+};
+const EDGE_COLORS = { input: '#4b5563', found: '#374151', pivot: '#3b82f6' };
+
+const truncate = (text: string, max = 28) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const EntityGraphPanel: React.FC<EntityGraphPanelProps> = ({ lookups, tools, busy, onExpand, onOpenLookup }) => {
+  const [scope, setScope] = useState(SCOPES[0]);
+  const [filters, setFilters] = useState<GraphFilters>(EMPTY_GRAPH_FILTERS);
+  const [responses, setResponses] = useState<Record<string, any>>({});
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const inScope = useMemo(() => [...lookups].sort((a, b) => b.timestamp - a.timestamp).slice(0, scope), [lookups, scope]);
+
+  // Responses are fetched once per lookup; new lookups from expansions only load their own data.
+  useEffect(() => {
+    const missing = inScope.filter(l => l.responseRef && !(l.id in responses));
+    if (!missing.length) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(missing.map(async l => [l.id, await loadLookupResponse(l).catch(() => null)] as const))
+      .then(loaded => { if (!cancelled) setResponses(current => ({ ...current, ...Object.fromEntries(loaded) })); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [inScope]);
+
+  const graph = useMemo(() => buildEntityGraph(inScope.map(lookup => ({ lookup, data: responses[lookup.id] ?? undefined })), tools), [inScope, responses, tools]);
+  const visible = useMemo(() => filterEntityGraph(graph, filters), [graph, filters]);
+  const positions = useMemo(() => layoutEntityGraph(visible, WIDTH, HEIGHT), [visible]);
+  const selected = visible.nodes.find(n => n.id === selectedId) || null;
+  const usedTools = tools.filter(t => graph.nodes.some(n => n.kind === 'lookup' && n.toolId === t.id));
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const zoom = Math.min(4, Math.max(0.3, view.zoom * (e.deltaY < 0 ? 1.1 : 0.9)));
+    setView({ ...view, zoom });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!drag.current) return;
+    setView(v => ({ ...v, x: v.x + e.clientX - drag.current!.x, y: v.y + e.clientY - drag.current!.y }));
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const exportJson = () => {
+    downloadFile(`entity-graph-${timestampForFilename()}.json`, entityGraphToJson(visible, positions), 'application/json');
+  };
+
+  // Renders the untransformed SVG onto a canvas so the export shows the whole graph regardless of pan and zoom.
+  const exportPng = () => {
+    if (!svgRef.current) return;
+    const clone = svgRef.current.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('width', String(WIDTH));
+    clone.setAttribute('height', String(HEIGHT));
+    clone.querySelector('g[data-viewport]')?.removeAttribute('transform');
+    const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = WIDTH * 2;
+      canvas.height = HEIGHT * 2;
+      const context = canvas.getContext('2d')!;
+      context.scale(2, 2);
+      context.fillStyle = '#0a0a0a';
+      context.fillRect(0, 0, WIDTH, HEIGHT);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob && downloadFile(`entity-graph-${timestampForFilename()}.png`, blob, 'image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      alert("Could not render the graph image.");
+    };
+    image.src = url;
+  };
+
+  const chipClass = (active: boolean) => `text-[10px] font-bold px-2.5 py-1 rounded-lg border uppercase tracking-wide transition ${active ? 'border-blue-500/40 bg-blue-500/10 text-blue-400' : 'border-gray-800 text-gray-500 hover:text-white'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#111] border border-gray-800 rounded-2xl p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest w-16">Scope</span>
+          {SCOPES.map(n => <button key={n} onClick={() => setScope(n)} className={chipClass(scope === n)}>Last {n}</button>)}
+          <div className="ml-auto flex gap-2">
+            <button onClick={exportPng} disabled={!visible.nodes.length} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition disabled:opacity-40"><i className="fas fa-image mr-1"></i> PNG</button>
+            <button onClick={exportJson} disabled={!visible.nodes.length} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition disabled:opacity-40"><i className="fas fa-file-code mr-1"></i> JSON</button>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest w-16">Entities</span>
+          {ENTITY_TYPES.map(t => (
+            <button key={t.id} onClick={() => setFilters({ ...filters, entityTypes: toggle(filters.entityTypes, t.id) })} className={chipClass(filters.entityTypes.includes(t.id))}>
+              <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: NODE_COLORS[t.id] }}></span>{t.label}
+            </button>
+          ))}
+        </div>
+        {usedTools.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest w-16">Tools</span>
+            {usedTools.map(t => <button key={t.id} onClick={() => setFilters({ ...filters, toolIds: toggle(filters.toolIds, t.id) })} className={chipClass(filters.toolIds.includes(t.id))}>{t.name}</button>)}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        <div className="lg:col-span-3 bg-[#0a0a0a] border border-gray-800 rounded-2xl overflow-hidden relative">
+          {(loading || busy) && (
+            <div className="absolute top-3 left-3 flex items-center gap-2 text-[10px] font-bold text-blue-500 uppercase tracking-widest"><div className="h-3 w-3 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div> {busy ? 'Running pivot' : 'Loading results'}</div>
+          )}
+          <div className="absolute top-3 right-3 flex gap-1">
+            <button onClick={() => setView({ ...view, zoom: Math.min(4, view.zoom * 1.2) })} className="w-7 h-7 rounded-lg bg-[#111] border border-gray-800 text-gray-400 hover:text-white"><i className="fas fa-plus text-[10px]"></i></button>
+            <button onClick={() => setView({ ...view, zoom: Math.max(0.3, view.zoom / 1.2) })} className="w-7 h-7 rounded-lg bg-[#111] border border-gray-800 text-gray-400 hover:text-white"><i className="fas fa-minus text-[10px]"></i></button>
+            <button onClick={() => setView({ x: 0, y: 0, zoom: 1 })} className="w-7 h-7 rounded-lg bg-[#111] border border-gray-800 text-gray-400 hover:text-white" title="Reset view"><i className="fas fa-compress text-[10px]"></i></button>
+          </div>
+          {visible.nodes.length === 0 ? (
+            <div className="h-[500px] flex flex-col items-center justify-center opacity-30"><i className="fas fa-project-diagram text-4xl mb-3"></i><p className="text-xs font-bold uppercase tracking-widest">No entities to show</p></div>
+          ) : (
+            <svg
+              ref={svgRef}
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-[500px] md:h-[600px] cursor-grab active:cursor-grabbing select-none"
+              onWheel={handleWheel}
+              onMouseDown={e => { drag.current = { x: e.clientX, y: e.clientY }; }}
+              onMouseMove={handleMouseMove}
+              onMouseUp={() => { drag.current = null; }}
+              onMouseLeave={() => { drag.current = null; }}
+            >
+              <g data-viewport="" transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`} fontFamily="ui-sans-serif, system-ui, sans-serif">
+                {visible.edges.map(e => {
+                  const a = positions[e.source];
+                  const b = positions[e.target];
+                  return (
+                    <line key={`${e.source}>${e.target}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={EDGE_COLORS[e.kind]} strokeWidth={e.kind === 'pivot' ? 2 : 1} strokeDasharray={e.kind === 'input' ? '4 3' : undefined}>
+                      <title>{`${e.kind === 'input' ? 'Searched with' : e.kind === 'found' ? 'Found by' : 'Pivot to'} ${e.toolName}`}</title>
+                    </line>
+                  );
+                })}
+                {visible.nodes.map(n => {
+                  const p = positions[n.id];
+                  const color = NODE_COLORS[n.kind === 'lookup' ? 'lookup' : n.entityType!];
+                  const active = n.id === selectedId;
+                  return (
+                    <g key={n.id} transform={`translate(${p.x} ${p.y})`} className="cursor-pointer" onMouseDown={e => e.stopPropagation()} onClick={() => setSelectedId(active ? null : n.id)}>
+                      {n.kind === 'lookup'
+                        ? <rect x={-9} y={-9} width={18} height={18} rx={4} fill={color} fillOpacity={0.25} stroke={color} strokeWidth={active ? 3 : 1.5} />
+                        : <circle r={7} fill={color} fillOpacity={0.3} stroke={color} strokeWidth={active ? 3 : 1.5} />}
+                      <text y={22} textAnchor="middle" fontSize={10} fill="#9ca3af">{truncate(n.label)}</text>
+                      <title>{n.label}</title>
+                    </g>
+                  );
+                })}
+              </g>
+            </svg>
+          )}
+          <div className="px-4 py-2 border-t border-gray-800 text-[10px] text-gray-600 flex gap-4">
+            <span>{visible.nodes.length} nodes · {visible.edges.length} links</span>
+            <span><span className="inline-block w-4 border-t border-dashed border-gray-500 align-middle mr-1"></span>searched</span>
+            <span><span className="inline-block w-4 border-t border-gray-600 align-middle mr-1"></span>found</span>
+            <span><span className="inline-block w-4 border-t-2 border-blue-500 align-middle mr-1"></span>pivot</span>
+          </div>
+        </div>
+
+        <div className="bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4 h-fit">
+          {!selected ? (
+            <p className="text-xs text-gray-500">Select a node to see its details. Entities can be expanded with another tool.</p>
+          ) : selected.kind === 'lookup' ? (
+            <>
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Lookup</p>
+              <p className="text-sm text-white break-all">{selected.label}</p>
+              {(() => {
+                const lookup = lookups.find(l => l.id === selected.lookupIds[0]);
+                return lookup && (
+                  <>
+                    <p className="text-[11px] text-gray-500">{new Date(lookup.timestamp).toLocaleString()} · {lookup.status}</p>
+                    <button onClick={() => onOpenLookup(lookup)} className="w-full text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-external-link-alt mr-1"></i> Open Result</button>
+                  </>
+                );
+              })()}
+            </>
+          ) : (
+            <>
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{ENTITY_TYPES.find(t => t.id === selected.entityType)?.label}</p>
+              <p className="text-sm text-white break-all">{selected.value}</p>
+              <p className="text-[11px] text-gray-500">Seen in {selected.lookupIds.length} lookup(s)</p>
+              <div>
+                <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Expand with</p>
+                <div className="space-y-1">
+                  {getPivotTargets(tools, selected.entityType!).map(target => (
+                    <button key={target.tool.id} disabled={busy} onClick={() => onExpand(selected, target)} className="w-full text-left px-3 py-2 rounded-lg border border-gray-800 text-xs text-gray-300 hover:border-blue-500/40 hover:text-white transition disabled:opacity-40 flex items-center gap-2">
+                      <i className={`${target.tool.icon || 'fas fa-search'} w-4 text-gray-500`}></i>
+                      <span className="truncate flex-1">{target.tool.name}</span>
+                      {!target.exact && <span className="text-[9px] text-gray-600 uppercase">text</span>}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntityGraphPanel;
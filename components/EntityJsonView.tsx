@@ -0,0 +1,64 @@
+import React from 'react';
+import { OSINTTool } from '../types';
+import { PivotHandler } from '../services/entities';
+import EntityText from './EntityText';
+
+interface EntityJsonViewProps {
+  data: any;
+  tools: OSINTTool[];
+  onPivot: PivotHandler;
+}
+
+// Colours follow the vscDarkPlus theme used for the plain raw view so switching between them is seamless.
+const KEY = 'text-[#9cdcfe]';
+const STRING = 'text-[#ce9178]';
+const NUMBER = 'text-[#b5cea8]';
+const LITERAL = 'text-[#569cd6]';
+const PUNCT = 'text-gray-400';
+
+// Pretty-prints JSON like JSON.stringify(data, null, 2), with detected entities rendered as pivot targets.
+const EntityJsonView: React.FC<EntityJsonViewProps> = ({ data, tools, onPivot }) => {
+  const render = (value: any, depth: number, key: string): React.ReactNode => {
+    const pad = '  '.repeat(depth + 1);
+    const close = '  '.repeat(depth);
+    if (Array.isArray(value)) {
+      if (!value.length) return <span className={PUNCT}>[]</span>;
+      return (
+        <>
+          <span className={PUNCT}>[</span>{'\n'}
+          {value.map((item, i) => (
+            <React.Fragment key={i}>{pad}{render(item, depth + 1, key)}{i < value.length - 1 && <span className={PUNCT}>,</span>}{'\n'}</React.Fragment>
+          ))}
+          {close}<span className={PUNCT}>]</span>
+        </>
+      );
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.entries(value);
+      if (!entries.length) return <span className={PUNCT}>{'{}'}</span>;
+      return (
+        <>
+          <span className={PUNCT}>{'{'}</span>{'\n'}
+          {entries.map(([k, v], i) => (
+            <React.Fragment key={k}>
+              {pad}<span className={KEY}>{JSON.stringify(k)}</span><span className={PUNCT}>: </span>{render(v, depth + 1, k)}{i < entries.length - 1 && <span className={PUNCT}>,</span>}{'\n'}
+            </React.Fragment>
+          ))}
+          {close}<span className={PUNCT}>{'}'}</span>
+        </>
+      );
+    }
+    if (typeof value === 'string') {
+      return <span className={STRING}>"<EntityText text={JSON.stringify(value).slice(1, -1)} fieldKey={key} tools={tools} onPivot={onPivot} />"</span>;
+    }
+    return <span className={typeof value === 'number' ? NUMBER : LITERAL}>{JSON.stringify(value) ?? 'null'}</span>;
+  };
+
+  return (
+    <pre className="m-0 p-6 text-[11px] leading-relaxed font-mono whitespace-pre text-gray-300 bg-[#0a0a0a]">
+      {typeof data === 'string' ? <EntityText text={data} tools={tools} onPivot={onPivot} /> : render(data, 0, '')}
+    </pre>
+  );
+};
+
+export default EntityJsonView;
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { EntityType, OSINTTool } from '../types';
+import { ENTITY_TYPES, getPivotTargets, PivotHandler } from '../services/entities';
+
+interface EntityPivotProps {
+  type: EntityType;
+  value: string;
+  tools: OSINTTool[];
+  onPivot: PivotHandler;
+  children?: React.ReactNode; // Text to show instead of the value, e.g. the original casing in raw data
+  chip?: boolean; // Render as a standalone chip rather than inline highlighted text
+}
+
+const EntityPivot: React.FC<EntityPivotProps> = ({ type, value, tools, onPivot, children, chip }) => {
+  const [open, setOpen] = useState(false);
+  const entityType = ENTITY_TYPES.find(t => t.id === type)!;
+  const targets = open ? getPivotTargets(tools, type) : [];
+
+  return (
+    <span className="relative inline-block">
+      <button type="button" onClick={() => setOpen(!open)} title={`${entityType.label}: pivot to another tool`} className={`border rounded transition hover:brightness-125 ${entityType.className} ${chip ? 'text-[11px] px-2 py-1 rounded-lg' : 'px-0.5'}`}>
+        {chip && <i className={`${entityType.icon} mr-1 opacity-70`}></i>}
+        {children ?? value}
+      </button>
+      {open && (
+        <>
+          <span className="fixed inset-0 z-20" onClick={() => setOpen(false)}></span>
+          <span className="absolute left-0 mt-1 w-60 bg-[#1a1a1a] border border-gray-800 rounded-xl shadow-2xl z-30 overflow-hidden block text-left font-sans">
+            <span className="block px-4 py-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest border-b border-gray-800 truncate">Pivot on {entityType.label.toLowerCase()}</span>
+            {targets.length === 0 && <span className="block px-4 py-3 text-xs text-gray-600">No tool accepts this input.</span>}
+            {targets.map(target => (
+              <button key={target.tool.id} type="button" onClick={() => { setOpen(false); onPivot({ type, value }, target); }} className="w-full text-left px-4 py-2.5 text-xs text-gray-300 hover:bg-blue-500/10 hover:text-white transition flex items-center gap-2">
+                <i className={`${target.tool.icon || 'fas fa-search'} w-4 text-gray-500`}></i>
+                <span className="truncate flex-1">{target.tool.name}</span>
+                {!target.exact && <span className="text-[9px] text-gray-600 uppercase">text</span>}
+              </button>
+            ))}
+          </span>
+        </>
+      )}
+    </span>
+  );
+};
+
+export default EntityPivot;
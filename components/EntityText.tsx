@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import { OSINTTool } from '../types';
+import { findEntityMatches, PivotHandler } from '../services/entities';
+import EntityPivot from './EntityPivot';
+
+interface EntityTextProps {
+  text: string;
+  fieldKey?: string; // Key the value sits under; helps recognise usernames and phone numbers
+  tools: OSINTTool[];
+  onPivot: PivotHandler;
+}
+
+// Renders text with every detected entity highlighted and clickable.
+const EntityText: React.FC<EntityTextProps> = ({ text, fieldKey, tools, onPivot }) => {
+  const matches = useMemo(() => findEntityMatches(text, fieldKey), [text, fieldKey]);
+  if (!matches.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  matches.forEach((m, i) => {
+    if (m.start > last) parts.push(text.slice(last, m.start));
+    parts.push(<EntityPivot key={i} type={m.type} value={m.value} tools={tools} onPivot={onPivot}>{text.slice(m.start, m.end)}</EntityPivot>);
+    last = m.end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+export default EntityText;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { collection, doc, writeBatch, arrayUnion, arrayRemove } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OSINTTool, ToolGroup, UserProfile } from '../types';
+import { recordAudit } from '../services/auditService';
+
+interface GroupsPanelProps {
+  profile: UserProfile;
+  groups: ToolGroup[];
+  users: UserProfile[];
+  tools: OSINTTool[];
+}
+
+const GroupsPanel: React.FC<GroupsPanelProps> = ({ profile, groups, users, tools }) => {
+  const [editingGroup, setEditingGroup] = useState<Partial<ToolGroup> | null>(null);
+  const [memberToAdd, setMemberToAdd] = useState<Record<string, string>>({});
+
+  const handleSaveGroup = async () => {
+    const name = editingGroup?.name?.trim();
+    if (!name) {
+      alert("Please enter a group name.");
+      return;
+    }
+    const data = { name, description: editingGroup?.description?.trim() || '' };
+    const existing = groups.find(g => g.id === editingGroup?.id);
+    const ref = existing ? doc(db, 'groups', existing.id) : doc(collection(db, 'groups'));
+    const batch = writeBatch(db);
+    if (existing) batch.update(ref, data);
+    else batch.set(ref, data);
+    recordAudit(profile, {
+      action: existing ? 'group.update' : 'group.create',
+      targetType: 'group',
+      targetId: ref.id,
+      targetLabel: name,
+      before: existing ? { name: existing.name, description: existing.description } : null,
+      after: data
+    }, batch);
+    await batch.commit();
+    setEditingGroup(null);
+  };
+
+  const handleDeleteGroup = async (group: ToolGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Members lose access to tools limited to it.`)) return;
+    const batch = writeBatch(db);
+    users.filter(u => u.groups?.includes(group.id)).forEach(u => batch.update(doc(db, 'users', u.uid), { groups: arrayRemove(group.id) }));
+    tools.filter(t => t.allowedGroups?.includes(group.id)).forEach(t => batch.update(doc(db, 'tools', t.id), { allowedGroups: arrayRemove(group.id) }));
+    batch.delete(doc(db, 'groups', group.id));
+    recordAudit(profile, {
+      action: 'group.delete',
+      targetType: 'group',
+      targetId: group.id,
+      targetLabel: group.name,
+      before: { name: group.name, description: group.description },
+      after: null
+    }, batch);
+    await batch.commit();
+  };
+
+  const handleMembership = async (user: UserProfile, group: ToolGroup, add: boolean) => {
+    const before = user.groups || [];
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', user.uid), { groups: add ? arrayUnion(group.id) : arrayRemove(group.id) });
+    recordAudit(profile, {
+      action: 'user.groups',
+      targetType: 'user',
+      targetId: user.uid,
+      targetLabel: user.email,
+      before: { groups: before },
+      after: { groups: add ? Array.from(new Set([...before, group.id])) : before.filter(g => g !== group.id) }
+    }, batch);
+    await batch.commit();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">Groups</h2>
+        <button onClick={() => setEditingGroup({})} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
+          <i className="fas fa-plus mr-2"></i>New Group
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">Tools limited to groups are only visible and runnable by members. Tools without groups stay open to every approved user. Admins see all tools.</p>
+
+      {editingGroup && (
+        <div className="bg-[#111] border border-blue-500/30 rounded-2xl p-5 space-y-3">
+          <input type="text" className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" placeholder="Group name, e.g. Breach Analysts" value={editingGroup.name || ''} onChange={e => setEditingGroup({ ...editingGroup, name: e.target.value })}/>
+          <input type="text" className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" placeholder="Description (optional)" value={editingGroup.description || ''} onChange={e => setEditingGroup({ ...editingGroup, description: e.target.value })}/>
+          <div className="flex gap-2">
+            <button onClick={handleSaveGroup} className="flex-1 bg-blue-600 text-white font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Save</button>
+            <button onClick={() => setEditingGroup(null)} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="py-20 text-center opacity-40">
+          <i className="fas fa-users-rectangle text-4xl mb-4"></i>
+          <p className="text-sm font-bold uppercase tracking-widest">No groups yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+          {groups.map(group => {
+            const members = users.filter(u => u.groups?.includes(group.id));
+            const candidates = users.filter(u => !u.groups?.includes(group.id) && !u.isOwner);
+            const groupTools = tools.filter(t => t.allowedGroups?.includes(group.id));
+            return (
+              <div key={group.id} className="bg-[#111] border border-gray-800 rounded-2xl p-6 shadow-xl space-y-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-bold text-white">{group.name}</h3>
+                    {group.description && <p className="text-xs text-gray-500 mt-1">{group.description}</p>}
+                  </div>
+                  <div className="flex gap-1 text-gray-600">
+                    <button onClick={() => setEditingGroup(group)} className="hover:text-white p-2"><i className="fas fa-edit"></i></button>
+                    <button onClick={() => handleDeleteGroup(group)} className="hover:text-red-500 p-2"><i className="fas fa-trash-alt"></i></button>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mb-2">Tools ({groupTools.length})</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {groupTools.length === 0 && <span className="text-[11px] text-gray-600">Assign tools from the tool editor.</span>}
+                    {groupTools.map(t => <span key={t.id} className="text-[10px] font-bold text-blue-400 bg-blue-500/10 px-2 py-1 rounded-lg">{t.name}</span>)}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mb-2">Members ({members.length})</p>
+                  <div className="space-y-1.5">
+                    {members.map(u => (
+                      <div key={u.uid} className="flex justify-between items-center bg-[#0a0a0a] rounded-lg px-3 py-2">
+                        <span className="text-xs text-white truncate">{u.email}</span>
+                        <button onClick={() => handleMembership(u, group, false)} className="text-gray-600 hover:text-red-500 text-xs"><i className="fas fa-times"></i></button>
+                      </div>
+                    ))}
+                  </div>
+                  {candidates.length > 0 && (
+                    <div className="flex gap-2 mt-2">
+                      <select className="flex-1 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={memberToAdd[group.id] || ''} onChange={e => setMemberToAdd({ ...memberToAdd, [group.id]: e.target.value })}>
+                        <option value="">Add member...</option>
+                        {candidates.map(u => <option key={u.uid} value={u.uid}>{u.email}</option>)}
+                      </select>
+                      <button
+                        disabled={!memberToAdd[group.id]}
+                        onClick={() => {
+                          const user = users.find(u => u.uid === memberToAdd[group.id]);
+                          if (user) handleMembership(user, group, true);
+                          setMemberToAdd({ ...memberToAdd, [group.id]: '' });
+                        }}
+                        className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition disabled:opacity-40"
+                      >Add</button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupsPanel;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { LookupResult, OSINTTool } from '../types';
+import { HistoryFilters, EMPTY_HISTORY_FILTERS, filterLookups } from '../services/historyService';
+import { ReportFormat } from '../services/reportService';
+import ReportMenu from './ReportMenu';
+
+interface HistoryPanelProps {
+  lookups: LookupResult[];
+  tools: OSINTTool[];
+  showUser?: boolean;
+  onOpen: (lookup: LookupResult) => void;
+  onRerun?: (lookup: LookupResult) => void;
+  onExport?: (lookups: LookupResult[], format: ReportFormat) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ lookups, tools, showUser, onOpen, onRerun, onExport }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const visible = filterLookups(lookups, filters);
+  const selected = visible.filter(l => selectedIds.includes(l.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const inputClass = "bg-[#0a0a0a] border border-gray-800 rounded-xl p-2.5 text-white text-xs focus:border-blue-500 outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#111] border border-gray-800 rounded-2xl p-4 grid grid-cols-2 md:grid-cols-5 gap-3">
+        <select className={inputClass} value={filters.toolId} onChange={e => setFilters({ ...filters, toolId: e.target.value })}>
+          <option value="">All tools</option>
+          {tools.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <select className={inputClass} value={filters.status} onChange={e => setFilters({ ...filters, status: e.target.value as HistoryFilters['status'] })}>
+          <option value="">Any status</option>
+          <option value="success">Success</option>
+          <option value="error">Error</option>
+        </select>
+        <input type="date" className={inputClass} value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} title="From"/>
+        <input type="date" className={inputClass} value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} title="To"/>
+        {showUser ? (
+          <input type="text" className={inputClass} placeholder="User email" value={filters.user} onChange={e => setFilters({ ...filters, user: e.target.value })}/>
+        ) : (
+          <button onClick={() => setFilters(EMPTY_HISTORY_FILTERS)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition">Clear</button>
+        )}
+      </div>
+
+      {onExport && visible.length > 0 && (
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-gray-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={selected.length === visible.length} onChange={e => setSelectedIds(e.target.checked ? visible.map(l => l.id) : [])} />
+            {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+          </label>
+          <ReportMenu disabled={selected.length === 0} label="Export selected" onSelect={format => onExport(selected, format)} />
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="py-20 text-center opacity-40">
+          <i className="fas fa-history text-4xl mb-4"></i>
+          <p className="text-sm font-bold uppercase tracking-widest">No lookups found</p>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {visible.map(l => (
+            <div key={l.id} className="bg-[#111] border border-gray-800 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 hover:border-blue-500/30 transition">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  {onExport && <input type="checkbox" checked={selectedIds.includes(l.id)} onChange={() => toggleSelected(l.id)} />}
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${l.status === 'success' ? 'bg-green-500' : 'bg-red-500'}`}></span>
+                  <span className="font-bold text-white text-sm truncate">{l.toolName}</span>
+                  {l.toolVersion !== undefined && <span className="text-[10px] text-gray-600 font-mono flex-shrink-0">v{l.toolVersion}</span>}
+                  {l.toolDraft && <span className="text-[9px] font-bold px-1.5 py-0.5 rounded-full uppercase bg-purple-500/10 text-purple-400 flex-shrink-0">Draft</span>}
+                  {showUser && <span className="text-[10px] text-gray-500 truncate">{l.userEmail}</span>}
+                </div>
+                <div className="text-[11px] text-gray-400 font-mono mt-1 truncate">
+                  {Object.entries(l.params).map(([k, v]) => `${k}=${v}`).join(' · ')}
+                </div>
+                <div className="text-[10px] text-gray-600 mt-1">
+                  {new Date(l.timestamp).toLocaleString()}
+                  {l.error && <span className="text-red-400 ml-2">{l.error}</span>}
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {l.responseRef && (
+                  <button onClick={() => onOpen(l)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-folder-open mr-1"></i> Open</button>
+                )}
+                {onRerun && (
+                  <button onClick={() => onRerun(l)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition"><i className="fas fa-redo mr-1"></i> Re-run</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
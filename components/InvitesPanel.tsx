@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Invite, InviteRole, ToolGroup, UserProfile } from '../types';
+import { recordAudit } from '../services/auditService';
+import { createInvite, revokeInvite } from '../services/inviteService';
+import { INVITE_EXPIRY_OPTIONS, INVITE_ROLE_LABELS, INVITE_STATUS_LABELS, MAX_INVITE_USES, buildInviteLink, formatInviteCode, getInviteStatus } from '../services/invites';
+
+interface InvitesPanelProps {
+  profile: UserProfile;
+  invites: Invite[];
+  groups: ToolGroup[];
+}
+
+const EMPTY_DRAFT = { role: 'member' as InviteRole, groups: [] as string[], maxUses: '1', expiresInDays: 7 as number | null };
+
+const InvitesPanel: React.FC<InvitesPanelProps> = ({ profile, invites, groups }) => {
+  const [draft, setDraft] = useState<typeof EMPTY_DRAFT | null>(null);
+  const now = Date.now();
+  const active = invites.filter(i => getInviteStatus(i, now) === 'active');
+  const closed = invites.filter(i => getInviteStatus(i, now) !== 'active');
+  const groupName = (id: string) => groups.find(g => g.id === id)?.name || 'Deleted group';
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    const maxUses = Number(draft.maxUses);
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+      alert(`Uses must be a whole number from 1 to ${MAX_INVITE_USES}.`);
+      return;
+    }
+    if (draft.role === 'admin' && !profile.isOwner) {
+      alert("Only the main owner can invite admins.");
+      return;
+    }
+    await createInvite(profile, { role: draft.role, groups: draft.groups, maxUses, expiresInDays: draft.expiresInDays }, (batch, invite) => recordAudit(profile, {
+      action: 'invite.create',
+      targetType: 'invite',
+      targetId: invite.code,
+      targetLabel: formatInviteCode(invite.code),
+      before: null,
+      after: { role: invite.role, groups: invite.groups, maxUses: invite.maxUses, expiresAt: invite.expiresAt }
+    }, batch));
+    setDraft(null);
+  };
+
+  const handleRevoke = async (invite: Invite) => {
+    if (!confirm(`Revoke invite ${formatInviteCode(invite.code)}? Accounts that already joined with it are not affected.`)) return;
+    await revokeInvite(profile, invite.code, (batch) => recordAudit(profile, {
+      action: 'invite.revoke',
+      targetType: 'invite',
+      targetId: invite.code,
+      targetLabel: formatInviteCode(invite.code),
+      before: { uses: invite.uses, revoked: false },
+      after: { uses: invite.uses, revoked: true }
+    }, batch));
+  };
+
+  const handleCopy = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(invite.code, window.location.origin));
+    } catch {
+      alert(`Could not copy. The code is ${formatInviteCode(invite.code)}.`);
+    }
+  };
+
+  const renderInvite = (invite: Invite) => {
+    const status = getInviteStatus(invite, now);
+    return (
+      <div key={invite.code} className="bg-[#111] border border-gray-800 rounded-2xl p-5 shadow-xl space-y-3">
+        <div className="flex justify-between items-start gap-3">
+          <div>
+            <code className="text-sm font-bold text-white font-mono tracking-wider">{formatInviteCode(invite.code)}</code>
+            <div className="text-[10px] text-gray-500 mt-1">
+              By {invite.createdBy} · {new Date(invite.createdAt).toLocaleDateString()}
+              {invite.revokedBy && ` · Revoked by ${invite.revokedBy}`}
+            </div>
+          </div>
+          <span className={`text-[10px] font-bold px-2 py-1 rounded-full flex-shrink-0 ${status === 'active' ? 'bg-green-500/10 text-green-500' : 'bg-gray-800 text-gray-500'}`}>
+            {INVITE_STATUS_LABELS[status].toUpperCase()}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          <span className={`text-[10px] font-bold px-2 py-1 rounded-lg ${invite.role === 'admin' ? 'text-blue-400 bg-blue-500/10' : 'text-gray-400 bg-gray-800'}`}>{INVITE_ROLE_LABELS[invite.role]}</span>
+          {invite.groups.map(id => <span key={id} className="text-[10px] font-bold text-blue-400 bg-blue-500/10 px-2 py-1 rounded-lg">{groupName(id)}</span>)}
+          <span className="text-[10px] font-bold text-gray-400 bg-gray-800 px-2 py-1 rounded-lg">{invite.uses}/{invite.maxUses} used</span>
+          <span className="text-[10px] font-bold text-gray-400 bg-gray-800 px-2 py-1 rounded-lg">
+            {invite.expiresAt === null ? 'No expiry' : `${invite.expiresAt > now ? 'Expires' : 'Expired'} ${new Date(invite.expiresAt).toLocaleString()}`}
+          </span>
+        </div>
+        {invite.redemptions.length > 0 && (
+          <div className="space-y-1.5">
+            {invite.redemptions.map(r => (
+              <div key={r.uid} className="flex justify-between items-center bg-[#0a0a0a] rounded-lg px-3 py-2">
+                <span className="text-xs text-white truncate">{r.email}</span>
+                <span className="text-[10px] text-gray-600 flex-shrink-0 ml-2">{new Date(r.at).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {status === 'active' && (
+          <div className="flex gap-2">
+            <button onClick={() => handleCopy(invite)} className="flex-1 text-[10px] font-bold text-blue-500 border border-blue-500/20 py-2 rounded-xl bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-link mr-2"></i>Copy Link</button>
+            <button onClick={() => handleRevoke(invite)} className="text-red-500 text-xs font-bold uppercase border border-red-900/20 px-4 py-2 rounded-xl hover:bg-red-500/10 transition">Revoke</button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">Invites</h2>
+        <button onClick={() => setDraft(EMPTY_DRAFT)} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
+          <i className="fas fa-plus mr-2"></i>New Invite
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">Accounts registered with a valid invite code or link are approved straight away with the invite's role and groups.</p>
+
+      {draft && (
+        <div className="bg-[#111] border border-blue-500/30 rounded-2xl p-5 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Role</label>
+              <select className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" value={draft.role} onChange={e => setDraft({ ...draft, role: e.target.value as InviteRole })}>
+                <option value="member">{INVITE_ROLE_LABELS.member}</option>
+                {profile.isOwner && <option value="admin">{INVITE_ROLE_LABELS.admin}</option>}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Uses</label>
+              <input type="number" min={1} max={MAX_INVITE_USES} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" value={draft.maxUses} onChange={e => setDraft({ ...draft, maxUses: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Expires</label>
+              <select className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" value={draft.expiresInDays ?? ''} onChange={e => setDraft({ ...draft, expiresInDays: e.target.value ? Number(e.target.value) : null })}>
+                {INVITE_EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+              </select>
+            </div>
+          </div>
+          {groups.length > 0 && (
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Groups</label>
+              <div className="flex flex-wrap gap-2">
+                {groups.map(g => {
+                  const selected = draft.groups.includes(g.id);
+                  return (
+                    <button key={g.id} onClick={() => setDraft({ ...draft, groups: selected ? draft.groups.filter(id => id !== g.id) : [...draft.groups, g.id] })} className={`text-[10px] font-bold px-3 py-1.5 rounded-lg border transition ${selected ? 'border-blue-500 text-blue-400 bg-blue-500/10' : 'border-gray-800 text-gray-500 hover:text-white'}`}>
+                      {g.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleCreate} className="flex-1 bg-blue-600 text-white font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Create</button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mb-3">Active ({active.length})</p>
+        {active.length === 0 ? (
+          <div className="py-12 text-center opacity-40">
+            <i className="fas fa-envelope-open-text text-4xl mb-4"></i>
+            <p className="text-sm font-bold uppercase tracking-widest">No active invites</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">{active.map(renderInvite)}</div>
+        )}
+      </div>
+
+      {closed.length > 0 && (
+        <div>
+          <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mb-3">Redeemed and Closed ({closed.length})</p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">{closed.map(renderInvite)}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvitesPanel;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { JsonDiffEntry, JsonDiffKind } from '../types';
+
+interface JsonDiffListProps {
+  entries: JsonDiffEntry[];
+}
+
+const DIFF_STYLES: Record<JsonDiffKind, { sign: string; className: string }> = {
+  added: { sign: '+', className: 'border-green-500/30 bg-green-500/5 text-green-400' },
+  removed: { sign: '−', className: 'border-red-500/30 bg-red-500/5 text-red-400' },
+  changed: { sign: '~', className: 'border-yellow-500/30 bg-yellow-500/5 text-yellow-400' }
+};
+
+const JsonDiffList: React.FC<JsonDiffListProps> = ({ entries }) => (
+  <>
+    {entries.map((entry, i) => (
+      <div key={i} className={`border rounded-xl px-3 py-2 font-mono text-[11px] ${DIFF_STYLES[entry.kind].className}`}>
+        <div className="flex gap-2">
+          <span className="font-bold">{DIFF_STYLES[entry.kind].sign}</span>
+          <span className="text-gray-300 break-all">{entry.path}</span>
+        </div>
+        {entry.kind === 'changed' ? (
+          <div className="mt-1 pl-4 break-all">
+            <span className="text-red-400 line-through">{entry.before}</span>
+            <i className="fas fa-arrow-right mx-2 text-gray-600"></i>
+            <span className="text-green-400">{entry.after}</span>
+          </div>
+        ) : (
+          <div className="mt-1 pl-4 break-all">{entry.kind === 'added' ? entry.after : entry.before}</div>
+        )}
+      </div>
+    ))}
+  </>
+);
+
+export default JsonDiffList;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { SessionMetadata, UserProfile } from '../types';
+import { recordAudit } from '../services/auditService';
+import { getSessions } from '../services/sessions';
+import { endSessions, renameSession } from '../services/sessionService';
+import { MAX_DEVICE_LABEL_LENGTH, describeDevice } from '../services/deviceInfo';
+import { regenerateRecoveryCodes } from '../services/mfaService';
+import DeviceSummary from './DeviceSummary';
+import RecoveryCodesView from './RecoveryCodesView';
+
+interface MyDevicesModalProps {
+  profile: UserProfile;
+  onClose: () => void;
+}
+
+const MyDevicesModal: React.FC<MyDevicesModalProps> = ({ profile, onClose }) => {
+  const [renaming, setRenaming] = useState<{ sid: string; value: string } | null>(null);
+  const [regenCode, setRegenCode] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const currentSid = localStorage.getItem('flexer_sid');
+  const sessions = getSessions(profile);
+
+  const handleRename = async (sid: string, label: string) => {
+    await renameSession(profile.uid, sid, label);
+    setRenaming(null);
+  };
+
+  const handleRegenerate = async () => {
+    if (!regenCode) return;
+    try {
+      const result = await regenerateRecoveryCodes(regenCode);
+      setRecoveryCodes(result.recoveryCodes);
+      setRegenCode(null);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleSignOut = async (session: SessionMetadata) => {
+    if (!confirm(`Sign out ${describeDevice(session)}?`)) return;
+    await endSessions(profile.uid, [session.sid], 'revoked', profile.email, (tx, ended) => ended.forEach(ended => recordAudit(profile, {
+      action: 'session.revoke',
+      targetType: 'session',
+      targetId: ended.sid,
+      targetLabel: `${profile.email} · ${describeDevice(ended)}`,
+      before: ended,
+      after: null
+    }, tx)));
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+        <div className="bg-[#111] border border-gray-800 w-full max-w-md rounded-3xl p-6 md:p-8 shadow-2xl">
+          <RecoveryCodesView email={profile.email} codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+      <div className="bg-[#111] border border-gray-800 w-full max-w-2xl rounded-3xl p-6 md:p-8 flex flex-col max-h-[90vh] shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-3"><i className="fas fa-laptop text-blue-500"></i> My Devices</h3>
+            <p className="text-[10px] text-gray-500 mt-1">Devices signed in to {profile.email}. Names are only visible to you and admins.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><i className="fas fa-times text-xl"></i></button>
+        </div>
+        <div className="space-y-3 overflow-y-auto pr-2 custom-scrollbar">
+          {sessions.map(s => (
+            <div key={s.sid} className={`bg-[#0a0a0a] border ${s.sid === currentSid ? 'border-blue-500/50' : 'border-gray-800'} rounded-xl p-4 flex flex-col sm:flex-row justify-between sm:items-center gap-3`}>
+              {renaming?.sid === s.sid ? (
+                <div className="flex items-center gap-2 flex-1">
+                  <input type="text" autoFocus maxLength={MAX_DEVICE_LABEL_LENGTH} placeholder={s.deviceName} className="flex-1 bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={renaming.value} onChange={e => setRenaming({ sid: s.sid, value: e.target.value })} />
+                  <button onClick={() => handleRename(s.sid, renaming.value)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">Save</button>
+                  <button onClick={() => setRenaming(null)} className="text-[10px] font-bold text-gray-500 px-2 py-2 uppercase hover:text-white transition">Cancel</button>
+                </div>
+              ) : (
+                <DeviceSummary session={s} badge={s.sid === currentSid && <span className="text-[10px] bg-blue-600 px-1.5 py-0.5 rounded-full ml-2">This device</span>} />
+              )}
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {renaming?.sid !== s.sid && (
+                  <button onClick={() => setRenaming({ sid: s.sid, value: s.label || '' })} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-2 rounded-xl uppercase hover:text-white transition" title="Rename"><i className="fas fa-pen"></i></button>
+                )}
+                {s.sid !== currentSid && (
+                  <button onClick={() => handleSignOut(s)} className="text-red-500 text-xs font-bold uppercase border border-red-900/20 px-4 py-2 rounded-xl hover:bg-red-500/10 transition">Sign Out</button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-6 pt-6 border-t border-gray-800 flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+          <div>
+            <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-widest">Two-Factor</label>
+            <p className="text-xs text-gray-400 mt-1">
+              {profile.mfa?.enabled ? `On · ${profile.mfa.recoveryCodesLeft} recovery codes left` : 'Off · not required for this account'}
+            </p>
+          </div>
+          {profile.mfa?.enabled && (regenCode === null ? (
+            <button onClick={() => setRegenCode('')} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-2 rounded-xl uppercase hover:text-white transition">New Recovery Codes</button>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input type="text" autoFocus inputMode="numeric" autoComplete="one-time-code" maxLength={6} placeholder="Authenticator code" className="w-40 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs font-mono focus:border-blue-500 outline-none" value={regenCode} onChange={e => setRegenCode(e.target.value.replace(/\D/g, ''))} />
+              <button onClick={handleRegenerate} disabled={regenCode.length !== 6} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition disabled:opacity-40">Create</button>
+              <button onClick={() => setRegenCode(null)} className="text-[10px] font-bold text-gray-500 px-2 py-2 uppercase hover:text-white transition">Cancel</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyDevicesModal;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { collection, doc, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OSINTTool, PromptTemplate, UserProfile } from '../types';
+import { recordAudit } from '../services/auditService';
+import { AI_PROVIDERS, DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS } from '../services/aiPrompt';
+import { extractPlaceholders } from '../services/toolSchema';
+
+interface PromptTemplatesPanelProps {
+  profile: UserProfile;
+  templates: PromptTemplate[];
+  tools: OSINTTool[];
+}
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ profile, templates, tools }) => {
+  const [editing, setEditing] = useState<Partial<PromptTemplate> | null>(null);
+
+  const handleSave = async () => {
+    const name = editing?.name?.trim();
+    const template = editing?.template?.trim();
+    if (!name || !template) {
+      alert("Please enter a name and a prompt.");
+      return;
+    }
+    const unknown = extractPlaceholders(template).filter(p => !PROMPT_PLACEHOLDERS.includes(p));
+    if (unknown.length > 0) {
+      alert(`Unknown placeholder(s): ${unknown.map(p => `{${p}}`).join(', ')}. Use ${PROMPT_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}.`);
+      return;
+    }
+    const data = { name, template };
+    const existing = templates.find(t => t.id === editing?.id);
+    const ref = existing ? doc(db, 'promptTemplates', existing.id) : doc(collection(db, 'promptTemplates'));
+    const batch = writeBatch(db);
+    if (existing) batch.update(ref, data);
+    else batch.set(ref, data);
+    recordAudit(profile, {
+      action: existing ? 'template.update' : 'template.create',
+      targetType: 'template',
+      targetId: ref.id,
+      targetLabel: name,
+      before: existing ? { name: existing.name, template: existing.template } : null,
+      after: data
+    }, batch);
+    await batch.commit();
+    setEditing(null);
+  };
+
+  // Tools pointing at a deleted template fall back to the built-in prompt.
+  const handleDelete = async (template: PromptTemplate) => {
+    const users = tools.filter(t => t.ai?.templateId === template.id);
+    if (!confirm(`Delete the prompt "${template.name}"?${users.length ? ` ${users.length} tool(s) will switch to the built-in prompt.` : ''}`)) return;
+    const batch = writeBatch(db);
+    users.forEach(t => batch.update(doc(db, 'tools', t.id), { 'ai.templateId': null }));
+    batch.delete(doc(db, 'promptTemplates', template.id));
+    recordAudit(profile, {
+      action: 'template.delete',
+      targetType: 'template',
+      targetId: template.id,
+      targetLabel: template.name,
+      before: { name: template.name, template: template.template },
+      after: null
+    }, batch);
+    await batch.commit();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-white">AI Prompts</h2>
+        <button onClick={() => setEditing({ template: DEFAULT_PROMPT_TEMPLATE })} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-sm transition">
+          <i className="fas fa-plus mr-2"></i>New Prompt
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Prompts can use {PROMPT_PLACEHOLDERS.map(p => `{${p}}`).join(', ')}. Pick a prompt, provider and model per tool in the tool editor.
+        Providers available on the gateway: {AI_PROVIDERS.map(p => p.label).join(', ')}.
+      </p>
+
+      {editing && (
+        <div className="bg-[#111] border border-blue-500/30 rounded-2xl p-5 space-y-3">
+          <input type="text" className="w-full bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" placeholder="Prompt name, e.g. Breach triage" value={editing.name || ''} onChange={e => setEditing({ ...editing, name: e.target.value })}/>
+          <textarea className="w-full min-h-[160px] bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-white font-mono text-xs focus:border-blue-500 outline-none" value={editing.template || ''} onChange={e => setEditing({ ...editing, template: e.target.value })}></textarea>
+          <div className="flex gap-2">
+            <button onClick={handleSave} className="flex-1 bg-blue-600 text-white font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Save</button>
+            <button onClick={() => setEditing(null)} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3 rounded-xl text-xs uppercase tracking-widest">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-4">
+        <div className="bg-[#111] border border-gray-800 rounded-2xl p-5">
+          <h3 className="font-bold text-white text-sm">Built-in default</h3>
+          <p className="text-[11px] text-gray-500 font-mono mt-2 whitespace-pre-wrap">{DEFAULT_PROMPT_TEMPLATE}</p>
+        </div>
+        {templates.map(template => {
+          const usedBy = tools.filter(t => t.ai?.templateId === template.id);
+          return (
+            <div key={template.id} className="bg-[#111] border border-gray-800 rounded-2xl p-5">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="font-bold text-white text-sm">{template.name}</h3>
+                  <p className="text-[10px] text-gray-600 mt-1">{usedBy.length ? `Used by ${usedBy.map(t => t.name).join(', ')}` : 'Not used by any tool'}</p>
+                </div>
+                <div className="flex gap-1 text-gray-600">
+                  <button onClick={() => setEditing(template)} className="hover:text-white p-2"><i className="fas fa-edit"></i></button>
+                  <button onClick={() => handleDelete(template)} className="hover:text-red-500 p-2"><i className="fas fa-trash-alt"></i></button>
+                </div>
+              </div>
+              <p className="text-[11px] text-gray-400 font-mono mt-3 whitespace-pre-wrap line-clamp-4">{template.template}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../services/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Drawn locally so enrollment secrets are never sent to a third-party QR service.
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192 }) => {
+  const drawing = useMemo(() => {
+    let modules: boolean[][];
+    try {
+      modules = encodeQrCode(value);
+    } catch {
+      return null;
+    }
+    const quietZone = 4;
+    const d = modules.flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + quietZone} ${y + quietZone}h1v1h-1z` : ''))).join('');
+    return { path: d, dimension: modules.length + quietZone * 2 };
+  }, [value]);
+
+  // Values beyond what the encoder supports (e.g. a very long account email) fall back to the key shown as text.
+  if (!drawing) {
+    return (
+      <div style={{ width: size, height: size }} className="rounded-xl border border-gray-800 bg-[#0a0a0a] flex items-center justify-center p-4 text-center text-xs text-gray-500">
+        This key is too long for a QR code. Enter it in your authenticator app manually.
+      </div>
+    );
+  }
+  const { path, dimension } = drawing;
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${dimension} ${dimension}`} shapeRendering="crispEdges" className="rounded-xl">
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { downloadFile, timestampForFilename } from '../services/fileExport';
+
+interface RecoveryCodesViewProps {
+  email: string;
+  codes: string[];
+  onDone: () => void;
+}
+
+// Codes are shown once; the gateway keeps only their hashes.
+const RecoveryCodesView: React.FC<RecoveryCodesViewProps> = ({ email, codes, onDone }) => {
+  const text = `Flexer OSINT recovery codes for ${email}\nEach code can be used once.\n\n${codes.join('\n')}\n`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      alert('Could not copy. Download the codes instead.');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-bold text-white flex items-center gap-3 mb-2"><i className="fas fa-life-ring text-blue-500"></i> Recovery Codes</h3>
+      <p className="text-gray-500 text-xs mb-6 leading-relaxed">
+        Keep these somewhere safe. If you lose your authenticator, each code lets you sign in once. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 bg-[#0a0a0a] border border-gray-800 rounded-xl p-4 mb-6">
+        {codes.map(c => <code key={c} className="text-sm text-blue-400 font-mono text-center py-1">{c}</code>)}
+      </div>
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <button onClick={handleCopy} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-3 rounded-xl uppercase hover:text-white transition"><i className="fas fa-copy mr-2"></i>Copy</button>
+        <button onClick={() => downloadFile(`flexer-recovery-codes-${timestampForFilename()}.txt`, text, 'text/plain')} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-3 rounded-xl uppercase hover:text-white transition"><i className="fas fa-download mr-2"></i>Download</button>
+      </div>
+      <button onClick={onDone} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl transition text-xs uppercase tracking-widest">I Saved My Codes</button>
+    </div>
+  );
+};
+
+export default RecoveryCodesView;
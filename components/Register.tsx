@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { auth } from '../firebase';
+import { PENDING_INVITE_STORAGE_KEY, formatInviteCode, normalizeInviteCode } from '../services/invites';
 
 interface RegisterProps {
   onSwitch: () => void;
@@ -9,6 +10,7 @@ interface RegisterProps {
 const Register: React.FC<RegisterProps> = ({ onSwitch }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [inviteCode, setInviteCode] = useState(() => formatInviteCode(localStorage.getItem(PENDING_INVITE_STORAGE_KEY) || ''));
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -16,6 +18,10 @@ const Register: React.FC<RegisterProps> = ({ onSwitch }) => {
     e.preventDefault();
     setLoading(true);
     setError('');
+    // App redeems the code once the new profile exists; the gateway checks it then.
+    const code = normalizeInviteCode(inviteCode);
+    if (code) localStorage.setItem(PENDING_INVITE_STORAGE_KEY, code);
+    else localStorage.removeItem(PENDING_INVITE_STORAGE_KEY);
     try {
       await createUserWithEmailAndPassword(auth, email, password);
     } catch (err: any) {
@@ -41,7 +47,7 @@ const Register: React.FC<RegisterProps> = ({ onSwitch }) => {
             <i className="fas fa-user-plus text-xl text-blue-500"></i>
           </div>
           <h1 className="text-3xl font-bold tracking-tight text-white">Create Account</h1>
-          <p className="text-gray-500 mt-2 text-sm">Join the Flexer OSINT network.</p>
+          <p className="text-gray-500 mt-2 text-sm">Join the Flexer OSINT network. With an invite code your account is approved right away.</p>
         </div>
 
         {error && (
@@ -76,6 +82,17 @@ const Register: React.FC<RegisterProps> = ({ onSwitch }) => {
             />
           </div>
 
+          <div>
+            <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Invite Code <span className="normal-case tracking-normal font-normal text-gray-600">(optional)</span></label>
+            <input
+              type="text"
+              className="w-full bg-[#0a0a0a] border border-gray-700 rounded-xl py-3.5 px-4 text-white focus:outline-none focus:border-blue-500 transition-all text-sm font-mono uppercase"
+              placeholder="XXXX-XXXX-XXXX"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+            />
+          </div>
+
           <button
             type="submit"
             disabled={loading}
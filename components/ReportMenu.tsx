@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { REPORT_FORMATS, ReportFormat } from '../services/reportService';
+
+interface ReportMenuProps {
+  onSelect: (format: ReportFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+const ReportMenu: React.FC<ReportMenuProps> = ({ onSelect, disabled, label = 'Export' }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button disabled={disabled} onClick={() => setOpen(!open)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition disabled:opacity-40">
+        <i className="fas fa-file-export mr-1"></i> {label}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-40 bg-[#1a1a1a] border border-gray-800 rounded-xl shadow-2xl z-20 overflow-hidden">
+          {REPORT_FORMATS.map(f => (
+            <button key={f.id} onClick={() => { setOpen(false); onSelect(f.id); }} className="w-full text-left px-4 py-2.5 text-xs text-gray-300 hover:bg-blue-500/10 hover:text-white transition">
+              <i className={`${f.icon} w-5 text-gray-500`}></i>{f.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportMenu;
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { doc, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { SessionMetadata, SessionSettings, UserProfile } from '../types';
+import { recordAudit } from '../services/auditService';
+import { getSessionExpiry, getSessions, resolveDeviceLimit } from '../services/sessions';
+import { SESSION_SETTINGS_PATH, endSessions, renameSession } from '../services/sessionService';
+import { MAX_DEVICE_LABEL_LENGTH, describeDevice } from '../services/deviceInfo';
+import DeviceSummary from './DeviceSummary';
+
+interface SessionsPanelProps {
+  profile: UserProfile;
+  users: UserProfile[];
+  settings: SessionSettings;
+}
+
+const toDraft = (settings: SessionSettings) => ({
+  standard: settings.deviceLimits.standard?.toString() ?? '',
+  admin: settings.deviceLimits.admin?.toString() ?? '',
+  idle: settings.idleTimeoutMinutes?.toString() ?? '',
+  absolute: settings.absoluteTimeoutHours?.toString() ?? ''
+});
+
+// Blank means unlimited; anything else must be a whole number of at least 1.
+const parseLimit = (value: string): number | null | false => {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 ? n : false;
+};
+
+const formatLimit = (limit: number | null) => (limit === null ? 'Unlimited' : `${limit} device${limit === 1 ? '' : 's'}`);
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ profile, users, settings }) => {
+  const [draft, setDraft] = useState(() => toDraft(settings));
+  const [filter, setFilter] = useState('');
+  const [limitEdit, setLimitEdit] = useState<{ uid: string; value: string } | null>(null);
+  const [renaming, setRenaming] = useState<{ sid: string; value: string } | null>(null);
+  const currentSid = localStorage.getItem('flexer_sid');
+  const now = Date.now();
+
+  useEffect(() => setDraft(toDraft(settings)), [settings]);
+
+  const handleSaveSettings = async () => {
+    const values = [draft.standard, draft.admin, draft.idle, draft.absolute].map(parseLimit);
+    if (values.includes(false)) {
+      alert("Limits and timeouts must be whole numbers of 1 or more. Leave blank for unlimited.");
+      return;
+    }
+    const [standard, admin, idle, absolute] = values as (number | null)[];
+    const next: SessionSettings = { deviceLimits: { standard, admin }, idleTimeoutMinutes: idle, absoluteTimeoutHours: absolute };
+    const batch = writeBatch(db);
+    batch.set(doc(db, ...SESSION_SETTINGS_PATH), next);
+    recordAudit(profile, {
+      action: 'settings.sessions',
+      targetType: 'settings',
+      targetId: 'sessions',
+      targetLabel: 'Session settings',
+      before: settings,
+      after: next
+    }, batch);
+    await batch.commit();
+  };
+
+  const handleSaveLimit = async (user: UserProfile, value: string) => {
+    const limit = parseLimit(value);
+    if (limit === false) {
+      alert("The device limit must be a whole number of 1 or more. Leave blank to use the role default.");
+      return;
+    }
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', user.uid), { deviceLimit: limit });
+    recordAudit(profile, {
+      action: 'user.deviceLimit',
+      targetType: 'user',
+      targetId: user.uid,
+      targetLabel: user.email,
+      before: { deviceLimit: user.deviceLimit ?? null },
+      after: { deviceLimit: limit }
+    }, batch);
+    await batch.commit();
+    setLimitEdit(null);
+  };
+
+  const handleRevoke = async (user: UserProfile, sessions: SessionMetadata[]) => {
+    const label = sessions.length === 1 ? describeDevice(sessions[0]) : `${sessions.length} devices`;
+    if (!confirm(`Sign out ${label} for ${user.email}?`)) return;
+    await endSessions(user.uid, sessions.map(s => s.sid), 'revoked', profile.email, (tx, ended) => ended.forEach(session => recordAudit(profile, {
+      action: 'session.revoke',
+      targetType: 'session',
+      targetId: session.sid,
+      targetLabel: `${user.email} · ${describeDevice(session)}`,
+      before: session,
+      after: null
+    }, tx)));
+  };
+
+  const handleRename = async (user: UserProfile, sid: string, label: string) => {
+    await renameSession(user.uid, sid, label);
+    setRenaming(null);
+  };
+
+  const describeExpiry = (session: SessionMetadata) => {
+    const expiry = getSessionExpiry(session, settings);
+    if (!expiry) return null;
+    if (expiry.at <= now) return <span className="text-red-400">{expiry.reason === 'idle' ? 'Timed out' : 'Expired'}</span>;
+    return <span>{expiry.reason === 'idle' ? 'Idles out' : 'Expires'} {new Date(expiry.at).toLocaleString()}</span>;
+  };
+
+  const visibleUsers = users
+    .filter(u => u.email.toLowerCase().includes(filter.trim().toLowerCase()))
+    .sort((a, b) => getSessions(b).length - getSessions(a).length || a.email.localeCompare(b.email));
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-bold text-white">Devices</h2>
+
+      <div className="bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {([
+            ['standard', 'Standard Devices', 'Unlimited'],
+            ['admin', 'Admin Devices', 'Unlimited'],
+            ['idle', 'Idle Timeout (min)', 'Never'],
+            ['absolute', 'Max Session (hours)', 'Never']
+          ] as const).map(([key, label, placeholder]) => (
+            <div key={key}>
+              <label className="text-[10px] font-bold text-gray-500 uppercase tracking-widest block mb-2">{label}</label>
+              <input type="number" min={1} placeholder={placeholder} className="w-full bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-sm focus:border-blue-500 outline-none" value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value })} />
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-[10px] text-gray-500">A device over the limit waits for approval from a signed-in device or an admin. Approving it signs out the least recently active device. The owner is never limited.</p>
+          <button onClick={handleSaveSettings} className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-xl font-bold text-xs uppercase tracking-widest transition flex-shrink-0">Save</button>
+        </div>
+      </div>
+
+      <input type="text" placeholder="Filter by email" className="w-full bg-[#111] border border-gray-800 rounded-xl p-3 text-white text-sm focus:border-blue-500 outline-none" value={filter} onChange={e => setFilter(e.target.value)} />
+
+      <div className="grid gap-4">
+        {visibleUsers.map(u => {
+          const sessions = getSessions(u);
+          const revocable = sessions.filter(s => !(u.uid === profile.uid && s.sid === currentSid));
+          const limit = resolveDeviceLimit(u, settings);
+          return (
+            <div key={u.uid} className="bg-[#111] border border-gray-800 rounded-2xl p-5 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-bold text-white text-sm truncate">{u.email}</div>
+                  <div className="text-[10px] text-gray-500 mt-1">
+                    {u.isOwner ? 'Owner' : u.isAdmin ? 'Admin' : 'Member'} · {sessions.length} signed in · limit {formatLimit(limit)}
+                    {typeof u.deviceLimit === 'number' && ' (custom)'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {limitEdit?.uid === u.uid ? (
+                    <>
+                      <input type="number" min={1} autoFocus placeholder="Default" className="w-24 bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={limitEdit.value} onChange={e => setLimitEdit({ uid: u.uid, value: e.target.value })} />
+                      <button onClick={() => handleSaveLimit(u, limitEdit.value)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">Save</button>
+                      <button onClick={() => setLimitEdit(null)} className="text-[10px] font-bold text-gray-500 px-2 py-2 uppercase hover:text-white transition">Cancel</button>
+                    </>
+                  ) : (
+                    !u.isOwner && (
+                      <button onClick={() => setLimitEdit({ uid: u.uid, value: u.deviceLimit?.toString() ?? '' })} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-2 rounded-lg uppercase hover:text-white transition">
+                        <i className="fas fa-pen mr-1"></i> Limit
+                      </button>
+                    )
+                  )}
+                  {revocable.length > 1 && (
+                    <button onClick={() => handleRevoke(u, revocable)} className="text-red-500 text-[10px] font-bold uppercase border border-red-900/20 px-3 py-2 rounded-lg hover:bg-red-500/10 transition">Revoke All</button>
+                  )}
+                </div>
+              </div>
+
+              {sessions.length === 0 && !u.pendingSessionId && <p className="text-xs text-gray-600">No signed-in devices.</p>}
+              {sessions.map(s => {
+                const isCurrent = u.uid === profile.uid && s.sid === currentSid;
+                return (
+                  <div key={s.sid} className={`bg-[#0a0a0a] border ${isCurrent ? 'border-blue-500/50' : 'border-gray-800'} rounded-xl p-4 flex flex-col sm:flex-row justify-between sm:items-center gap-3`}>
+                    {renaming?.sid === s.sid ? (
+                      <div className="flex items-center gap-2 flex-1">
+                        <input type="text" autoFocus maxLength={MAX_DEVICE_LABEL_LENGTH} placeholder={s.deviceName} className="flex-1 bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={renaming.value} onChange={e => setRenaming({ sid: s.sid, value: e.target.value })} />
+                        <button onClick={() => handleRename(u, s.sid, renaming.value)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-2 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">Save</button>
+                        <button onClick={() => setRenaming(null)} className="text-[10px] font-bold text-gray-500 px-2 py-2 uppercase hover:text-white transition">Cancel</button>
+                      </div>
+                    ) : (
+                      <DeviceSummary
+                        session={s}
+                        badge={isCurrent && <span className="text-[10px] bg-blue-600 px-1.5 py-0.5 rounded-full ml-2">This device</span>}
+                        extra={describeExpiry(s)}
+                      />
+                    )}
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {u.uid === profile.uid && renaming?.sid !== s.sid && (
+                        <button onClick={() => setRenaming({ sid: s.sid, value: s.label || '' })} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-2 rounded-xl uppercase hover:text-white transition" title="Rename"><i className="fas fa-pen"></i></button>
+                      )}
+                      {revocable.includes(s) && (
+                        <button onClick={() => handleRevoke(u, [s])} className="w-full sm:w-auto text-red-500 text-xs font-bold uppercase border border-red-900/20 px-4 py-2 rounded-xl hover:bg-red-500/10 transition">Revoke</button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {u.pendingSessionId && (
+                <div className="text-[11px] text-yellow-500"><i className="fas fa-hourglass-half mr-1"></i>{u.pendingSessionMetadata ? describeDevice(u.pendingSessionMetadata) : 'A device'} is waiting for approval under Requests.</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
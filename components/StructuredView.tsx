@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { OSINTTool, ResultMappingItem } from '../types';
+import { applyResultMapping, formatCellValue } from '../services/resultMapping';
+import { pathKey, PivotHandler } from '../services/entities';
+import EntityText from './EntityText';
+
+interface StructuredViewProps {
+  data: any;
+  mapping: ResultMappingItem[];
+  tools?: OSINTTool[]; // With onPivot, highlights entities and offers pivots
+  onPivot?: PivotHandler;
+}
+
+const StructuredView: React.FC<StructuredViewProps> = ({ data, mapping, tools, onPivot }) => {
+  const sections = useMemo(() => applyResultMapping(data, mapping), [data, mapping]);
+
+  const renderValue = (value: any, path: string | null) => {
+    const text = formatCellValue(value);
+    return tools && onPivot && path ? <EntityText text={text} fieldKey={pathKey(path)} tools={tools} onPivot={onPivot} /> : text;
+  };
+
+  return (
+    <div className="p-6 md:p-8 space-y-6">
+      {sections.map((section, i) => (
+        <div key={i}>
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">{section.label}</p>
+          {section.status !== 'ok' ? (
+            <div className={`text-xs flex items-center gap-2 ${section.status === 'invalid' ? 'text-red-400' : 'text-gray-600 italic'}`}>
+              <i className={`fas ${section.status === 'invalid' ? 'fa-exclamation-triangle' : 'fa-minus-circle'}`}></i>
+              {section.message}
+            </div>
+          ) : section.kind === 'field' ? (
+            <div className="text-sm text-white font-medium break-words" title={section.path}>{renderValue(section.value, section.path)}</div>
+          ) : section.kind === 'list' ? (
+            <ul className="space-y-1">
+              {section.items.map(item => (
+                <li key={item.path} className="text-sm text-gray-300 flex gap-2" title={item.path || undefined}>
+                  <span className="text-blue-500">•</span><span className="break-all">{renderValue(item.value, item.path)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="overflow-x-auto border border-gray-800 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-[#1a1a1a] text-gray-500 uppercase font-bold">
+                  <tr>{section.columns.map(c => <th key={c} className="p-3">{c}</th>)}</tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {section.rows.length === 0 && (
+                    <tr><td colSpan={section.columns.length} className="p-3 text-gray-600 italic">No rows.</td></tr>
+                  )}
+                  {section.rows.map((row, r) => (
+                    <tr key={r} className="hover:bg-gray-800/20">
+                      {row.map((cell, c) => (
+                        <td key={c} className={`p-3 break-all ${cell.path ? 'text-gray-300' : 'text-gray-600 italic'}`} title={cell.path || 'Missing'}>{renderValue(cell.value, cell.path)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StructuredView;
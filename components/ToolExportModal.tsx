@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { OSINTTool, UserProfile } from '../types';
+import { BundleFileFormat, bundleTool, buildToolBundle, serializeToolBundle } from '../services/toolBundle';
+import { downloadFile, timestampForFilename } from '../services/fileExport';
+
+interface ToolExportModalProps {
+  profile: UserProfile;
+  tools: OSINTTool[];
+  onClose: () => void;
+}
+
+const ToolExportModal: React.FC<ToolExportModalProps> = ({ profile, tools, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(tools.map(t => t.id));
+  const [format, setFormat] = useState<BundleFileFormat>('json');
+  const sorted = [...tools].sort((a, b) => a.name.localeCompare(b.name));
+  const stripped = tools.filter(t => selected.includes(t.id) && bundleTool(t).requiresSecrets.length > 0).length;
+
+  const toggleTool = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const handleExport = () => {
+    const bundle = buildToolBundle(sorted.filter(t => selected.includes(t.id)), profile.email);
+    const content = serializeToolBundle(bundle, format);
+    downloadFile(`tools-${timestampForFilename()}.${format}`, content, format === 'json' ? 'application/json' : 'application/yaml');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+      <div className="bg-[#111] border border-gray-800 w-full max-w-md rounded-2xl p-8 animate-in zoom-in-95 shadow-2xl space-y-5">
+        <h3 className="text-xl font-bold text-white flex items-center gap-3"><i className="fas fa-file-export text-blue-500"></i> Export Tools</h3>
+        <div className="flex justify-between items-center text-[10px] font-bold uppercase tracking-widest">
+          <span className="text-gray-500">{selected.length} of {tools.length} selected</span>
+          <button onClick={() => setSelected(selected.length === tools.length ? [] : tools.map(t => t.id))} className="text-blue-500 hover:text-blue-400">
+            {selected.length === tools.length ? 'Select None' : 'Select All'}
+          </button>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          {sorted.map(tool => (
+            <label key={tool.id} className="flex items-center gap-3 bg-[#0a0a0a] border border-gray-800 rounded-xl px-4 py-3 cursor-pointer hover:border-blue-500/30">
+              <input type="checkbox" checked={selected.includes(tool.id)} onChange={() => toggleTool(tool.id)} />
+              <i className={`${tool.icon || 'fas fa-search'} text-blue-500 text-xs`}></i>
+              <span className="text-sm text-white truncate">{tool.name}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-5 text-xs text-gray-400">
+          {(['json', 'yaml'] as BundleFileFormat[]).map(f => (
+            <label key={f} className="flex items-center gap-2"><input type="radio" checked={format === f} onChange={() => setFormat(f)} /> {f.toUpperCase()}</label>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-500">
+          Credentials are left out of the bundle and gateway secrets are never exported.
+          {stripped > 0 && ` ${stripped} selected tool${stripped === 1 ? '' : 's'} will need credentials re-entered after import.`}
+        </p>
+        <div className="flex gap-3">
+          <button onClick={handleExport} disabled={selected.length === 0} className="flex-1 bg-blue-600 text-white font-bold py-3.5 rounded-xl transition disabled:opacity-50 text-xs uppercase tracking-widest">Download</button>
+          <button onClick={onClose} className="flex-1 bg-gray-800 text-gray-500 font-bold py-3.5 rounded-xl transition text-xs uppercase tracking-widest">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ToolExportModal;
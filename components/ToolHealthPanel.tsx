@@ -0,0 +1,103 @@
+import React from 'react';
+import { OSINTTool } from '../types';
+import { ToolHealth, ToolHealthStatus, formatDuration } from '../services/toolHealth';
+
+interface ToolHealthPanelProps {
+  tools: OSINTTool[];
+  health: Record<string, ToolHealth>;
+}
+
+const STATUS_STYLES: Record<ToolHealthStatus, { label: string; className: string }> = {
+  healthy: { label: 'Healthy', className: 'bg-green-500/10 text-green-500' },
+  degraded: { label: 'Degraded', className: 'bg-red-500/10 text-red-400' },
+  idle: { label: 'No recent lookups', className: 'bg-gray-500/10 text-gray-400' }
+};
+
+const STATUS_ORDER: ToolHealthStatus[] = ['degraded', 'healthy', 'idle'];
+
+// Daily lookups as stacked bars: failures in red on top of successes.
+const DailyBars: React.FC<{ health: ToolHealth }> = ({ health }) => {
+  const max = Math.max(1, ...health.days.map(d => d.total));
+  const width = 8;
+  const gap = 3;
+  const height = 40;
+  return (
+    <svg width={health.days.length * (width + gap)} height={height} className="block">
+      {health.days.map((d, i) => {
+        const total = (d.total / max) * height;
+        const failed = (d.failures / max) * height;
+        return (
+          <g key={d.day}>
+            <title>{`${d.day}: ${d.total} lookups, ${d.failures} failed, median ${formatDuration(d.medianMs)}`}</title>
+            <rect x={i * (width + gap)} y={0} width={width} height={height} fill="#1a1a1a" rx={2} />
+            <rect x={i * (width + gap)} y={height - total} width={width} height={total - failed} fill="#22c55e" rx={2} />
+            <rect x={i * (width + gap)} y={height - total} width={width} height={failed} fill="#ef4444" rx={2} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const ToolHealthPanel: React.FC<ToolHealthPanelProps> = ({ tools, health }) => {
+  const sorted = [...tools]
+    .filter(t => health[t.id])
+    .sort((a, b) => STATUS_ORDER.indexOf(health[a.id].status) - STATUS_ORDER.indexOf(health[b.id].status) || a.name.localeCompare(b.name));
+
+  if (sorted.length === 0) {
+    return (
+      <div className="py-20 text-center opacity-40">
+        <i className="fas fa-heartbeat text-4xl mb-4"></i>
+        <p className="text-sm font-bold uppercase tracking-widest">No tools yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {sorted.map(tool => {
+        const h = health[tool.id];
+        return (
+          <div key={tool.id} className={`bg-[#111] border rounded-2xl p-5 space-y-4 ${h.status === 'degraded' ? 'border-red-500/30' : 'border-gray-800'}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <i className={`${tool.icon || 'fas fa-search'} text-blue-500`}></i>
+                <span className="font-bold text-white text-sm truncate">{tool.name}</span>
+              </div>
+              <span className={`text-[10px] font-bold px-2 py-1 rounded-full uppercase flex-shrink-0 ${STATUS_STYLES[h.status].className}`}>{STATUS_STYLES[h.status].label}</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {[
+                { label: 'Lookups 24h', value: String(h.total) },
+                { label: 'Success', value: h.successRate === null ? '—' : `${Math.round(h.successRate * 100)}%` },
+                { label: 'Median', value: formatDuration(h.medianMs) },
+                { label: 'p95', value: formatDuration(h.p95Ms) }
+              ].map(stat => (
+                <div key={stat.label}>
+                  <div className="text-[9px] font-bold text-gray-500 uppercase tracking-widest">{stat.label}</div>
+                  <div className="text-sm font-bold text-white mt-0.5">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-[9px] font-bold text-gray-500 uppercase tracking-widest mb-1">Last 14 days</div>
+              <DailyBars health={h} />
+            </div>
+            {h.reasons.length > 0 && (
+              <ul className="space-y-1">
+                {h.reasons.map(reason => <li key={reason} className="text-[11px] text-red-400"><i className="fas fa-exclamation-triangle mr-1"></i>{reason}</li>)}
+              </ul>
+            )}
+            {h.lastError && (
+              <div className="text-[10px] text-gray-500">
+                Last error {new Date(h.lastError.timestamp).toLocaleString()}: <span className="text-gray-400">{h.lastError.message}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ToolHealthPanel;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { OSINTTool, ToolDraft, ToolVersion } from '../types';
+import { diffToolConfigs, subscribeToolVersions } from '../services/toolVersionService';
+import { toToolConfig } from '../services/toolConfig';
+import { countDiff } from '../services/jsonDiff';
+import JsonDiffList from './JsonDiffList';
+
+interface ToolHistoryModalProps {
+  tool: OSINTTool;
+  draft: ToolDraft | null;
+  onRollback: (version: ToolVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+const ToolHistoryModal: React.FC<ToolHistoryModalProps> = ({ tool, draft, onRollback, onClose }) => {
+  const [versions, setVersions] = useState<ToolVersion[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const current = tool.version || 0;
+
+  useEffect(() => subscribeToolVersions(tool.id, setVersions), [tool.id]);
+
+  const handleRollback = async (version: ToolVersion) => {
+    if (!confirm(`Publish the configuration of v${version.version} as v${current + 1}? Stored secret values are not versioned and stay as they are.`)) return;
+    setRollingBack(version.version);
+    try {
+      await onRollback(version);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  // The draft is compared with the version it started from, like every other entry.
+  const draftBase = draft ? versions.find(v => v.version === draft.baseVersion) : undefined;
+  const draftBaseConfig = draftBase?.config || (draft?.baseVersion === current ? toToolConfig(tool) : null);
+  const draftDiff = draft ? diffToolConfigs(draftBaseConfig, draft.config) : [];
+
+  const renderCounts = (diff: ToolVersion['diff']) => {
+    const counts = countDiff(diff);
+    return (
+      <>
+        {counts.added > 0 && <span className="text-green-400">+{counts.added}</span>}
+        {counts.removed > 0 && <span className="text-red-400">−{counts.removed}</span>}
+        {counts.changed > 0 && <span className="text-yellow-400">~{counts.changed}</span>}
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+      <div className="bg-[#111] border border-gray-800 w-full max-w-3xl rounded-3xl p-6 md:p-8 flex flex-col max-h-[90vh] shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-3"><i className="fas fa-history text-blue-500"></i> {tool.name}</h3>
+            <p className="text-[10px] text-gray-500 mt-1">Published version v{current}. Rolling back publishes the earlier configuration as a new version.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><i className="fas fa-times text-xl"></i></button>
+        </div>
+        <div className="space-y-3 overflow-y-auto pr-2 custom-scrollbar">
+          {draft && (
+            <div className="bg-[#0a0a0a] border border-purple-500/30 rounded-2xl overflow-hidden">
+              <button onClick={() => setExpanded(expanded === 'draft' ? null : 'draft')} className="w-full p-4 flex items-center justify-between gap-3 text-left">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] font-bold px-2 py-0.5 rounded-full uppercase bg-purple-500/10 text-purple-400">Draft</span>
+                    <span className="text-sm text-white">based on v{draft.baseVersion}</span>
+                    {draft.baseVersion !== current && <span className="text-[10px] text-yellow-500">v{current} was published since</span>}
+                  </div>
+                  <div className="text-[10px] text-gray-600 mt-1">{draft.authorEmail} · {new Date(draft.updatedAt).toLocaleString()}</div>
+                </div>
+                <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest flex-shrink-0">
+                  {renderCounts(draftDiff)}
+                  <i className={`fas fa-chevron-${expanded === 'draft' ? 'up' : 'down'} text-gray-600 ml-2`}></i>
+                </div>
+              </button>
+              {expanded === 'draft' && <div className="border-t border-gray-800 p-4 space-y-2"><JsonDiffList entries={draftDiff} /></div>}
+            </div>
+          )}
+          {versions.length === 0 && (
+            <p className="text-xs text-gray-500 py-10 text-center">No versions recorded yet. History starts with the next save.</p>
+          )}
+          {versions.map(version => (
+            <div key={version.id} className={`bg-[#0a0a0a] border rounded-2xl overflow-hidden ${version.version === current ? 'border-blue-500/30' : 'border-gray-800'}`}>
+              <div className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <button onClick={() => setExpanded(expanded === version.id ? null : version.id)} disabled={version.diff.length === 0} className="min-w-0 text-left flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-white text-sm">v{version.version}</span>
+                    {version.version === current && <span className="text-[9px] font-bold px-2 py-0.5 rounded-full uppercase bg-blue-500/10 text-blue-400">Published</span>}
+                    {version.note && <span className="text-[10px] text-gray-400 truncate">{version.note}</span>}
+                  </div>
+                  <div className="text-[10px] text-gray-600 mt-1">{version.authorEmail || 'Unknown author'} · {new Date(version.timestamp).toLocaleString()}</div>
+                </button>
+                <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest flex-shrink-0">
+                  {renderCounts(version.diff)}
+                  {version.diff.length > 0 && <i className={`fas fa-chevron-${expanded === version.id ? 'up' : 'down'} text-gray-600`}></i>}
+                  {version.version !== current && (
+                    <button onClick={() => handleRollback(version)} disabled={rollingBack !== null} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition disabled:opacity-40">
+                      {rollingBack === version.version ? <i className="fas fa-spinner fa-spin"></i> : <><i className="fas fa-undo mr-1"></i> Roll Back</>}
+                    </button>
+                  )}
+                </div>
+              </div>
+              {expanded === version.id && <div className="border-t border-gray-800 p-4 space-y-2"><JsonDiffList entries={version.diff} /></div>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ToolHistoryModal;
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { deleteField } from 'firebase/firestore';
+import { OSINTTool, PromptTemplate, ToolGroup, UserProfile } from '../types';
+import { ParsedToolBundle, ToolImportChoice, ToolImportItem, ToolImportStatus, describeSecret, findMissingSecrets, planToolImport } from '../services/toolBundle';
+import { recordAudit, redactTool } from '../services/auditService';
+import { publishTool } from '../services/toolVersionService';
+import { countDiff } from '../services/jsonDiff';
+import JsonDiffList from './JsonDiffList';
+
+interface ToolImportModalProps {
+  profile: UserProfile;
+  bundle: ParsedToolBundle;
+  tools: OSINTTool[];
+  groups: ToolGroup[];
+  templates: PromptTemplate[];
+  onEditTool: (tool: OSINTTool) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ToolImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-500/10 text-green-500' },
+  identical: { label: 'Unchanged', className: 'bg-gray-500/10 text-gray-400' },
+  conflict: { label: 'Differs', className: 'bg-yellow-500/10 text-yellow-500' },
+  invalid: { label: 'Invalid', className: 'bg-red-500/10 text-red-400' }
+};
+
+const CHOICES: Record<ToolImportStatus, ToolImportChoice[]> = {
+  new: ['create', 'skip'],
+  identical: ['skip', 'create'],
+  conflict: ['skip', 'update', 'create'],
+  invalid: []
+};
+
+const CHOICE_LABELS: Record<ToolImportChoice, string> = {
+  create: 'Create new',
+  update: 'Update existing',
+  skip: 'Skip'
+};
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  needsSecrets: { tool: OSINTTool; missing: string[] }[];
+}
+
+const ToolImportModal: React.FC<ToolImportModalProps> = ({ profile, bundle, tools, groups, templates, onEditTool, onClose }) => {
+  // Planned once against the tools present when the file was opened, so live updates do not reshuffle the list.
+  const plan = useMemo(
+    () => planToolImport(bundle, tools, { groupIds: groups.map(g => g.id), templateIds: templates.map(t => t.id) }),
+    [bundle]
+  );
+  const [choices, setChoices] = useState<Record<number, ToolImportChoice>>(() => Object.fromEntries(plan.map(item => [item.index, item.defaultChoice])));
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const pending = plan.filter(item => choices[item.index] !== 'skip' && item.status !== 'invalid').length;
+
+  const missingFor = (item: ToolImportItem) => {
+    if (choices[item.index] === 'update') return findMissingSecrets(item.merged!, item.existing);
+    return item.config ? findMissingSecrets(item.config) : [];
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    const outcome: ImportResult = { created: 0, updated: 0, needsSecrets: [] };
+    try {
+      for (const item of plan) {
+        const choice = choices[item.index];
+        const missing = missingFor(item);
+        if (choice === 'create' && item.config) {
+          const config = item.config;
+          const { toolId, version } = await publishTool(profile, config, null, {
+            note: 'Imported from bundle',
+            audit: (writer, published) => recordAudit(profile, {
+              action: 'tool.create',
+              targetType: 'tool',
+              targetId: published.toolId,
+              targetLabel: config.name,
+              before: null,
+              after: { ...redactTool({ ...config, version: published.version }), importedFrom: bundle.exportedBy }
+            }, writer)
+          });
+          const data = { ...config, version };
+          outcome.created++;
+          if (missing.length) outcome.needsSecrets.push({ tool: { ...data, id: toolId }, missing });
+        } else if (choice === 'update' && item.merged && item.existing) {
+          const existing = item.existing;
+          const merged = item.merged;
+          // Same as saving in the editor: secrets the tool no longer declares are removed.
+          const removed = (existing.secretKeys || []).filter(k => !merged.secretKeys?.includes(k));
+          const { version } = await publishTool(profile, merged, existing, {
+            note: 'Imported from bundle',
+            secrets: Object.fromEntries(removed.map(k => [k, deleteField()])),
+            audit: (writer, published) => recordAudit(profile, {
+              action: 'tool.update',
+              targetType: 'tool',
+              targetId: existing.id,
+              targetLabel: merged.name,
+              before: redactTool({ ...existing, id: undefined }),
+              after: { ...redactTool({ ...merged, version: published.version }), importedFrom: bundle.exportedBy, secretsChanged: removed }
+            }, writer)
+          });
+          const data = { ...merged, version };
+          outcome.updated++;
+          if (missing.length) outcome.needsSecrets.push({ tool: { ...data, id: existing.id }, missing });
+        }
+      }
+    } catch (err: any) {
+      alert(`The import stopped before finishing: ${err.message}`);
+    } finally {
+      setApplying(false);
+      setResult(outcome);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
+      <div className="bg-[#111] border border-gray-800 w-full max-w-3xl rounded-3xl p-6 md:p-8 flex flex-col max-h-[90vh] shadow-2xl overflow-hidden">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white flex items-center gap-3"><i className="fas fa-file-import text-blue-500"></i> Import Tools</h3>
+            <p className="text-[10px] text-gray-500 mt-1">
+              {bundle.tools.length} tool{bundle.tools.length === 1 ? '' : 's'}
+              {bundle.exportedBy && ` · exported by ${bundle.exportedBy}`}
+              {bundle.exportedAt > 0 && ` · ${new Date(bundle.exportedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={applying} className="text-gray-500 hover:text-white"><i className="fas fa-times text-xl"></i></button>
+        </div>
+
+        {result ? (
+          <div className="space-y-4 overflow-y-auto pr-2 custom-scrollbar">
+            <div className="p-4 rounded-xl border border-green-500/20 bg-green-500/5 text-green-400 text-sm">
+              <i className="fas fa-check-circle mr-2"></i>Created {result.created} and updated {result.updated} tool{result.created + result.updated === 1 ? '' : 's'}.
+            </div>
+            {result.needsSecrets.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">Credentials to re-enter</div>
+                {result.needsSecrets.map(({ tool, missing }) => (
+                  <div key={tool.id} className="flex items-center justify-between gap-3 bg-[#0a0a0a] border border-yellow-500/20 rounded-xl px-4 py-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-bold text-white truncate">{tool.name}</div>
+                      <div className="text-[11px] text-yellow-400">{missing.map(describeSecret).join(', ')}</div>
+                    </div>
+                    <button onClick={() => onEditTool(tool)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition flex-shrink-0">
+                      <i className="fas fa-edit mr-1"></i> Edit
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button onClick={onClose} className="w-full bg-gray-800 text-gray-400 font-bold py-3.5 rounded-xl transition text-xs uppercase tracking-widest">Done</button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 overflow-y-auto pr-2 custom-scrollbar">
+              {plan.map(item => {
+                const counts = countDiff(item.diff);
+                const missing = choices[item.index] === 'skip' ? [] : missingFor(item);
+                return (
+                  <div key={item.index} className={`bg-[#0a0a0a] border rounded-2xl overflow-hidden ${item.status === 'invalid' ? 'border-red-500/20' : 'border-gray-800'}`}>
+                    <div className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-bold text-white text-sm truncate">{item.name}</span>
+                          <span className={`text-[9px] font-bold px-2 py-0.5 rounded-full uppercase flex-shrink-0 ${STATUS_STYLES[item.status].className}`}>{STATUS_STYLES[item.status].label}</span>
+                        </div>
+                        {item.existing && <div className="text-[10px] text-gray-600 mt-1">Matches “{item.existing.name}” (v{item.existing.version || 0})</div>}
+                        {item.error && <div className="text-[11px] text-red-400 mt-1">{item.error}</div>}
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        {item.diff.length > 0 && (
+                          <button onClick={() => setExpanded(expanded === item.index ? null : item.index)} className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest">
+                            {counts.added > 0 && <span className="text-green-400">+{counts.added}</span>}
+                            {counts.removed > 0 && <span className="text-red-400">−{counts.removed}</span>}
+                            {counts.changed > 0 && <span className="text-yellow-400">~{counts.changed}</span>}
+                            <i className={`fas fa-chevron-${expanded === item.index ? 'up' : 'down'} text-gray-600`}></i>
+                          </button>
+                        )}
+                        {CHOICES[item.status].length > 0 && (
+                          <select className="bg-[#111] border border-gray-800 rounded-lg p-2 text-white text-xs focus:border-blue-500 outline-none" value={choices[item.index]} onChange={e => setChoices({ ...choices, [item.index]: e.target.value as ToolImportChoice })}>
+                            {CHOICES[item.status].map(c => <option key={c} value={c}>{CHOICE_LABELS[c]}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                    {(item.warnings.length > 0 || missing.length > 0) && (
+                      <ul className="px-4 pb-3 space-y-1">
+                        {item.warnings.map(w => <li key={w} className="text-[11px] text-gray-400"><i className="fas fa-info-circle mr-1"></i>{w}</li>)}
+                        {missing.length > 0 && <li className="text-[11px] text-yellow-400"><i className="fas fa-key mr-1"></i>Re-enter after import: {missing.map(describeSecret).join(', ')}</li>}
+                      </ul>
+                    )}
+                    {expanded === item.index && (
+                      <div className="border-t border-gray-800 p-4 space-y-2">
+                        <JsonDiffList entries={item.diff} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-3 mt-6">
+              <button onClick={handleApply} disabled={applying || pending === 0} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition disabled:opacity-50">
+                {applying ? <><i className="fas fa-spinner fa-spin mr-2"></i>Importing</> : `Import ${pending} Tool${pending === 1 ? '' : 's'}`}
+              </button>
+              <button onClick={onClose} disabled={applying} className="flex-1 bg-gray-800 text-gray-500 py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition">Cancel</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToolImportModal;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ToolParam } from '../types';
+import { ToolTestReport, formatBytes, formatDuration, getSampleValues } from '../services/toolHealth';
+
+interface ToolTestPanelProps {
+  params: ToolParam[];
+  onRun: (values: Record<string, string>) => Promise<ToolTestReport | null>; // Null when the configuration is invalid
+}
+
+const MAX_PREVIEW_CHARS = 4000;
+
+const ToolTestPanel: React.FC<ToolTestPanelProps> = ({ params, onRun }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<ToolTestReport | null>(null);
+  const [error, setError] = useState('');
+  const [showResponse, setShowResponse] = useState(false);
+  const samples = getSampleValues(params);
+  const current = Object.fromEntries(params.map(p => [p.name, values[p.name] ?? samples[p.name]]));
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError('');
+    try {
+      const result = await onRun(current);
+      if (result) setReport(result);
+    } catch (err: any) {
+      setReport(null);
+      setError(err.message || "The test request failed.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const preview = report ? (typeof report.data === 'string' ? report.data : JSON.stringify(report.data, null, 2)) : '';
+
+  return (
+    <div className="bg-[#1a1a1a] p-4 rounded-2xl border border-gray-800 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-bold text-white">Test Tool</div>
+          <div className="text-[10px] text-gray-500">Runs the configuration above once with these inputs. Nothing is saved and no quota is used.</div>
+        </div>
+        <button onClick={handleRun} disabled={running} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition disabled:opacity-40 flex-shrink-0">
+          {running ? <><i className="fas fa-spinner fa-spin mr-1"></i> Testing</> : <><i className="fas fa-vial mr-1"></i> Run Test</>}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {params.map(p => (
+          <input key={p.name} type="text" className="bg-[#0a0a0a] border border-gray-800 rounded-lg p-2 text-white font-mono text-xs focus:border-blue-500 outline-none" placeholder={p.label || p.name} title={p.name} value={current[p.name]} onChange={e => setValues({ ...values, [p.name]: e.target.value })}/>
+        ))}
+      </div>
+      {error && <div className="p-3 bg-red-900/10 border border-red-500/20 rounded-xl text-red-400 text-xs flex gap-2"><i className="fas fa-exclamation-circle mt-0.5"></i>{error}</div>}
+      {report && (
+        <div className="space-y-3">
+          <div className={`p-3 rounded-xl border text-xs flex items-center gap-2 ${report.ok ? 'border-green-500/20 bg-green-500/5 text-green-400' : 'border-yellow-500/20 bg-yellow-500/5 text-yellow-400'}`}>
+            <i className={`fas ${report.ok ? 'fa-check-circle' : 'fa-exclamation-triangle'}`}></i>
+            {report.ok ? 'The tool works with this configuration.' : report.status >= 300 ? `The provider answered with status ${report.status}.` : 'The response does not match the result mapping.'}
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {[
+              { label: 'Status', value: String(report.status), bad: report.status >= 300 },
+              { label: 'Latency', value: formatDuration(report.durationMs), bad: false },
+              { label: 'Content Type', value: report.contentType.split(';')[0] || '—', bad: !report.isJson },
+              { label: 'Size', value: formatBytes(report.sizeBytes), bad: false }
+            ].map(stat => (
+              <div key={stat.label} className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3">
+                <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{stat.label}</div>
+                <div className={`text-sm font-bold mt-1 truncate ${stat.bad ? 'text-yellow-400' : 'text-white'}`}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          {report.mapping.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Result Mapping</div>
+              {report.mapping.map((check, i) => (
+                <div key={i} className="flex items-start gap-2 text-[11px]">
+                  <i className={`fas mt-0.5 ${check.status === 'ok' ? 'fa-check text-green-500' : 'fa-times text-red-500'}`}></i>
+                  <span className="text-gray-300">{check.label}</span>
+                  <span className="text-gray-600 font-mono">{check.path}</span>
+                  {check.message && <span className="text-red-400">{check.message}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          <button onClick={() => setShowResponse(!showResponse)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition">
+            <i className={`fas fa-chevron-${showResponse ? 'up' : 'down'} mr-1`}></i> Response
+          </button>
+          {showResponse && (
+            <pre className="bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-[11px] text-gray-300 font-mono overflow-auto max-h-60 custom-scrollbar">
+              {preview.length > MAX_PREVIEW_CHARS ? `${preview.slice(0, MAX_PREVIEW_CHARS)}\n…` : preview}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolTestPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { verifyMfa } from '../services/mfaService';
+
+interface TwoFactorChallengeProps {
+  profile: UserProfile;
+  onLogout: () => void;
+}
+
+// Shown on every new sign-in. Success is written to the profile by the gateway, and its snapshot lets the app through.
+const TwoFactorChallenge: React.FC<TwoFactorChallengeProps> = ({ profile, onLogout }) => {
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const result = await verifyMfa(code);
+      if (result.method === 'recovery') {
+        alert(`Recovery code used. ${result.recoveryCodesLeft} left; you can make new ones under My Devices.`);
+      }
+    } catch (err: any) {
+      setError(err.message);
+      setCode('');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-[#111] p-8 md:p-10 rounded-3xl shadow-2xl border border-gray-800">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-14 h-14 rounded-2xl bg-blue-600/10 mb-5 border border-blue-600/30">
+            <i className="fas fa-key text-xl text-blue-500"></i>
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-white">Two-Factor Check</h1>
+          <p className="text-gray-500 mt-2 text-sm">
+            {useRecovery ? 'Enter one of your recovery codes. Each code works once.' : `Enter the code from your authenticator app for ${profile.email}.`}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/10 border border-red-500/30 rounded-xl text-red-400 text-xs flex items-center gap-3">
+            <i className="fas fa-exclamation-circle"></i>
+            <span>{error}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <input
+            type="text"
+            required
+            autoFocus
+            inputMode={useRecovery ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            maxLength={useRecovery ? 9 : 6}
+            className="w-full bg-[#0a0a0a] border border-gray-700 rounded-xl py-3.5 px-4 text-white focus:outline-none focus:border-blue-500 transition-all text-lg font-mono tracking-[0.3em] text-center"
+            placeholder={useRecovery ? 'xxxx-xxxx' : '000000'}
+            value={code}
+            onChange={(e) => setCode(useRecovery ? e.target.value : e.target.value.replace(/\D/g, ''))}
+          />
+          <button
+            type="submit"
+            disabled={loading || !code}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl transition-all disabled:opacity-50 flex items-center justify-center shadow-lg shadow-blue-900/20 active:scale-[0.98] text-xs uppercase tracking-widest"
+          >
+            {loading ? <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : 'Verify'}
+          </button>
+        </form>
+
+        <div className="mt-8 pt-6 border-t border-gray-800 flex justify-between text-xs">
+          <button onClick={() => { setUseRecovery(!useRecovery); setCode(''); setError(''); }} className="text-blue-500 hover:text-blue-400 font-bold transition-colors">
+            {useRecovery ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+          <button onClick={onLogout} className="text-gray-500 hover:text-white font-bold transition-colors">Sign Out</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorChallenge;
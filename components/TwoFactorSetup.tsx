@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { MfaEnrollResponse, UserProfile } from '../types';
+import { confirmMfaEnrollment, startMfaEnrollment } from '../services/mfaService';
+import QrCode from './QrCode';
+
+interface TwoFactorSetupProps {
+  profile: UserProfile;
+  onEnrolled: (recoveryCodes: string[]) => void;
+  onLogout: () => void;
+}
+
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ profile, onEnrolled, onLogout }) => {
+  const [enrollment, setEnrollment] = useState<MfaEnrollResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    startMfaEnrollment().then(setEnrollment).catch((err: any) => setError(err.message));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const { recoveryCodes } = await confirmMfaEnrollment(code);
+      onEnrolled(recoveryCodes);
+    } catch (err: any) {
+      setError(err.message);
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-[#111] p-8 md:p-10 rounded-3xl shadow-2xl border border-gray-800">
+        <div className="text-center mb-6">
+          <div className="inline-flex items-center justify-center w-14 h-14 rounded-2xl bg-blue-600/10 mb-5 border border-blue-600/30">
+            <i className="fas fa-shield-halved text-xl text-blue-500"></i>
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-white">Set Up Two-Factor</h1>
+          <p className="text-gray-500 mt-2 text-sm">
+            {profile.isAdmin || profile.isOwner ? 'Admin accounts' : 'All accounts'} need an authenticator app. Scan the code, then enter the 6-digit code it shows.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/10 border border-red-500/30 rounded-xl text-red-400 text-xs flex items-center gap-3">
+            <i className="fas fa-exclamation-circle"></i>
+            <span>{error}</span>
+          </div>
+        )}
+
+        {enrollment ? (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="flex justify-center"><QrCode value={enrollment.otpauthUrl} /></div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Or enter this key</label>
+              <code className="block bg-[#0a0a0a] border border-gray-800 rounded-xl p-3 text-xs text-blue-400 font-mono break-all select-all">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</code>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">Code</label>
+              <input
+                type="text"
+                required
+                autoFocus
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                className="w-full bg-[#0a0a0a] border border-gray-700 rounded-xl py-3.5 px-4 text-white focus:outline-none focus:border-blue-500 transition-all text-lg font-mono tracking-[0.5em] text-center"
+                placeholder="000000"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={loading || code.length !== 6}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl transition-all disabled:opacity-50 flex items-center justify-center shadow-lg shadow-blue-900/20 active:scale-[0.98] text-xs uppercase tracking-widest"
+            >
+              {loading ? <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : 'Turn On Two-Factor'}
+            </button>
+          </form>
+        ) : !error && (
+          <div className="flex justify-center py-10"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div></div>
+        )}
+
+        <button onClick={onLogout} className="w-full mt-4 bg-transparent border border-gray-800 py-3 rounded-xl text-gray-500 text-xs font-bold uppercase hover:bg-gray-800 transition">Sign Out</button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { QuotaLimits } from '../types';
+import { hasLimit, remaining } from '../services/quota';
+
+interface UsageMeterProps {
+  label: string;
+  limits: QuotaLimits;
+  usage: { day: number; month: number };
+}
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ label, limits, usage }) => {
+  const rows = [
+    { id: 'day', name: 'Today', limit: limits.daily, used: usage.day },
+    { id: 'month', name: 'This month', limit: limits.monthly, used: usage.month }
+  ].filter(r => hasLimit(r.limit));
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest">{label}</p>
+      {rows.map(r => {
+        const left = remaining(r.limit, r.used) ?? 0;
+        const pct = r.limit ? Math.min(100, (r.used / r.limit) * 100) : 100;
+        return (
+          <div key={r.id}>
+            <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+              <span>{r.name}</span>
+              <span className={left === 0 ? 'text-red-400 font-bold' : ''}>{left} of {r.limit} left</span>
+            </div>
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${pct >= 90 ? 'bg-red-500' : pct >= 70 ? 'bg-yellow-500' : 'bg-blue-500'}`} style={{ width: `${pct}%` }}></div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UsageMeter;
@@ -1,9 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { collection, onSnapshot } from 'firebase/firestore';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
 import { updatePassword } from 'firebase/auth';
 import { auth, db } from '../firebase';
-import { UserProfile, OSINTTool, ADMIN_TELEGRAM } from '../types';
-import { analyzeOSINTResult } from '../services/geminiService';
+import { UserProfile, OSINTTool, LookupResult, QuotaSettings, InvestigationCase, StructuredAnalysis, ChatMessage, ChatSourceRef, EntityType, GraphNode, LookupPivot, PivotStep, ToolDraft, Watch, WatchChange, ADMIN_TELEGRAM } from '../types';
+import { analyzeOSINTResult } from '../services/aiService';
+import { isAiEnabled } from '../services/aiPrompt';
+import { getToolParams, getDefaultValues, validateParams, getParamPlaceholder } from '../services/toolSchema';
+import { runToolLookup } from '../services/lookupService';
+import { updateLookupSummary, loadLookupResponse } from '../services/historyService';
+import { formatCacheAge } from '../services/resultCache';
+import { subscribeQuotaSettings, subscribeUsage } from '../services/quotaService';
+import { QuotaExceededError, resolveUserLimits } from '../services/quota';
+import { canUseTool } from '../services/access';
+import { subscribeUsableTools } from '../services/toolService';
+import { subscribeCases } from '../services/caseService';
+import { ReportFormat, exportReport, loadReportEntries } from '../services/reportService';
+import { extractEntities, PivotTarget } from '../services/entities';
+import { claimWatch, createWatch, recordWatchFailure, recordWatchResult, subscribeWatchChanges, subscribeWatches } from '../services/watchService';
+import { createWatchScheduler } from '../services/watchScheduler';
+import { draftToTool, subscribeToolDrafts } from '../services/toolVersionService';
+import HistoryPanel from './HistoryPanel';
+import CasesPanel from './CasesPanel';
+import CaseAttachModal from './CaseAttachModal';
+import MyDevicesModal from './MyDevicesModal';
+import ReportMenu from './ReportMenu';
+import StructuredView from './StructuredView';
+import AnalysisView from './AnalysisView';
+import ChatPanel from './ChatPanel';
+import EntityJsonView from './EntityJsonView';
+import EntityPivot from './EntityPivot';
+import EntityGraphPanel from './EntityGraphPanel';
+import WatchInbox from './WatchInbox';
+import WatchMenu from './WatchMenu';
+import UsageMeter from './UsageMeter';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 
@@ -11,18 +40,50 @@ interface UserDashboardProps {
   profile: UserProfile;
   onLogout: () => void;
   onToggleAdmin?: () => void;
+  onRedeemInvite: (code: string) => Promise<void>;
 }
 
-const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onToggleAdmin }) => {
+const MAX_HIGHLIGHT_CHARS = 200_000;
+
+const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onToggleAdmin, onRedeemInvite }) => {
   const [tools, setTools] = useState<OSINTTool[]>([]);
+  const [toolsLoaded, setToolsLoaded] = useState(false);
   const [selectedTool, setSelectedTool] = useState<OSINTTool | null>(null);
-  const [lookupValue, setLookupValue] = useState('');
+  const [lookupValues, setLookupValues] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [inviteCode, setInviteCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<any>(null);
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [aiStructured, setAiStructured] = useState<StructuredAnalysis | null>(null);
+  const [aiStreaming, setAiStreaming] = useState(false);
+  const [aiError, setAiError] = useState('');
+  const [aiFocus, setAiFocus] = useState('');
+  const aiAbort = useRef<AbortController | null>(null);
   const [error, setError] = useState('');
-  const [resultTab, setResultTab] = useState<'raw' | 'analysis'>('raw');
+  const [resultTab, setResultTab] = useState<'structured' | 'raw' | 'analysis' | 'chat'>('raw');
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<LookupResult[]>([]);
+  const [currentLookup, setCurrentLookup] = useState<LookupResult | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [showCases, setShowCases] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
+  const [showWatches, setShowWatches] = useState(false);
+  const [watches, setWatches] = useState<Watch[]>([]);
+  const [watchChanges, setWatchChanges] = useState<WatchChange[]>([]);
+  const [drafts, setDrafts] = useState<ToolDraft[]>([]);
+  const [tryDraft, setTryDraft] = useState(false);
+  const [cases, setCases] = useState<InvestigationCase[]>([]);
+  const [isCaseModalOpen, setIsCaseModalOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [pivotTrail, setPivotTrail] = useState<PivotStep[]>([]);
+  const [pendingPivot, setPendingPivot] = useState<(LookupPivot & { toolId: string; param: string }) | null>(null);
+  const [quotaSettings, setQuotaSettings] = useState<QuotaSettings>({ defaults: {} });
+  const [userUsage, setUserUsage] = useState({ day: 0, month: 0 });
+  const [toolUsage, setToolUsage] = useState({ day: 0, month: 0 });
 
+  const [isDevicesOpen, setIsDevicesOpen] = useState(false);
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
   const [newPassword, setNewPassword] = useState('');
   const [passwordLoading, setPasswordLoading] = useState(false);
@@ -30,45 +91,334 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
 
   useEffect(() => {
     if (!profile.isApproved) return;
-    const unsubscribe = onSnapshot(collection(db, 'tools'), 
-      (snapshot) => setTools(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as OSINTTool))),
+    const unsubscribe = subscribeUsableTools(profile,
+      (loaded) => {
+        setTools(loaded.filter(t => canUseTool(profile, t)));
+        setToolsLoaded(true);
+      },
       () => setError("Could not load tools.")
     );
     return () => unsubscribe();
-  }, [profile.isApproved]);
+  }, [profile.isApproved, profile.isAdmin, profile.isOwner, profile.groups?.join(',')]);
 
-  const handleLookup = async (e: React.FormEvent) => {
+  useEffect(() => {
+    if (!profile.isApproved) return;
+    const unsubscribe = onSnapshot(query(collection(db, 'lookups'), where('uid', '==', profile.uid)),
+      (snapshot) => setHistory(snapshot.docs.map(doc => doc.data() as LookupResult)),
+      (err) => console.error("History sync failed:", err)
+    );
+    return () => unsubscribe();
+  }, [profile.isApproved, profile.uid]);
+
+  useEffect(() => {
+    if (!profile.isApproved) return;
+    return subscribeCases(profile, setCases);
+  }, [profile.isApproved, profile.email]);
+
+  useEffect(() => {
+    if (!profile.isApproved) return;
+    const unsubSettings = subscribeQuotaSettings(setQuotaSettings);
+    const unsubUsage = subscribeUsage('user', profile.uid, setUserUsage);
+    return () => { unsubSettings(); unsubUsage(); };
+  }, [profile.isApproved, profile.uid]);
+
+  // Drafts are admin-only; everyone else only ever sees published tools.
+  useEffect(() => {
+    if (!profile.isApproved || (!profile.isAdmin && !profile.isOwner)) return;
+    return subscribeToolDrafts(setDrafts);
+  }, [profile.isApproved, profile.isAdmin, profile.isOwner]);
+
+  useEffect(() => {
+    if (!profile.isApproved) return;
+    const unsubWatches = subscribeWatches(profile.uid, setWatches);
+    const unsubChanges = subscribeWatchChanges(profile.uid, setWatchChanges);
+    return () => { unsubWatches(); unsubChanges(); };
+  }, [profile.isApproved, profile.uid]);
+
+  // The scheduler lives as long as the dashboard and reads the latest state through this ref.
+  const watchContext = useRef({ profile, tools, watches, quotaSettings });
+  watchContext.current = { profile, tools, watches, quotaSettings };
+  const watchScheduler = useRef<ReturnType<typeof createWatchScheduler> | null>(null);
+
+  // Starts only once the tools have loaded, so a watch is never claimed and failed for a tool that is still on its way.
+  useEffect(() => {
+    if (!profile.isApproved || !toolsLoaded) return;
+    const scheduler = createWatchScheduler({
+      getWatches: () => watchContext.current.watches,
+      runWatch: async (watch, now) => {
+        const { profile, tools, quotaSettings } = watchContext.current;
+        const tool = tools.find(t => t.id === watch.toolId);
+        if (!(await claimWatch(watch, now))) return;
+        if (!tool) return recordWatchFailure(watch, "This tool is no longer available to you.");
+        try {
+          // Watches always go to the source; a cached answer could hide the change they exist to catch.
+          const { data, lookup } = await runToolLookup(profile, tool, watch.params, { quotaSettings, refresh: true });
+          await recordWatchResult(watch, lookup, data);
+        } catch (err: any) {
+          await recordWatchFailure(watch, err.message);
+        }
+      }
+    });
+    watchScheduler.current = scheduler;
+    scheduler.start();
+    return () => {
+      scheduler.stop();
+      watchScheduler.current = null;
+    };
+  }, [profile.isApproved, profile.uid, toolsLoaded]);
+
+  useEffect(() => {
+    watchScheduler.current?.refresh();
+  }, [watches]);
+
+  useEffect(() => {
+    if (!selectedTool?.quota) return;
+    return subscribeUsage('tool', selectedTool.id, setToolUsage);
+  }, [selectedTool?.id, selectedTool?.quota]);
+
+  // Entity highlighting re-renders the whole response, so very large results fall back to the plain viewer.
+  const entities = useMemo(() => (result === null || result === undefined ? [] : extractEntities(result)), [result]);
+  const highlightRaw = useMemo(() => entities.length > 0 && (JSON.stringify(result) ?? '').length <= MAX_HIGHLIGHT_CHARS, [entities, result]);
+
+  const unreadChanges = watchChanges.filter(c => !c.read).length;
+  const isWatched = !!currentLookup && watches.some(w => w.toolId === currentLookup.toolId && JSON.stringify(w.params) === JSON.stringify(currentLookup.params));
+
+  const selectedDraft = selectedTool ? drafts.find(d => d.toolId === selectedTool.id) : undefined;
+  const activeTool = selectedTool && tryDraft && selectedDraft ? draftToTool(selectedDraft) : selectedTool;
+
+  const selectTool = (tool: OSINTTool, values: Record<string, string> = {}) => {
+    setSelectedTool(tool);
+    setTryDraft(false);
+    setLookupValues({ ...getDefaultValues(getToolParams(tool)), ...values });
+    setFieldErrors({});
+  };
+
+  const openTool = (tool: OSINTTool) => {
+    setPivotTrail([]);
+    setPendingPivot(null);
+    selectTool(tool);
+  };
+
+  const clearResult = () => {
+    aiAbort.current?.abort();
+    aiAbort.current = null;
+    setAiStreaming(false);
+    setResult(null);
+    setCurrentLookup(null);
+    setError('');
+  };
+
+  // Opens the target tool with the entity filled in; the lookup itself still needs a click so quota is never spent by accident.
+  const handlePivot = (entity: { type: EntityType; value: string }, target: PivotTarget) => {
+    if (!selectedTool) return;
+    const origin: PivotStep = { toolId: selectedTool.id, toolName: selectedTool.name, params: currentLookup?.params || lookupValues, lookupId: currentLookup?.id || null };
+    const params = { ...getDefaultValues(getToolParams(target.tool)), [target.param.name]: entity.value };
+    setPivotTrail(trail => [...(trail.length ? trail : [origin]), { toolId: target.tool.id, toolName: target.tool.name, params, lookupId: null, via: entity }]);
+    setPendingPivot(currentLookup ? { fromLookupId: currentLookup.id, entityType: entity.type, value: entity.value, toolId: target.tool.id, param: target.param.name } : null);
+    clearResult();
+    selectTool(target.tool, params);
+  };
+
+  // Going back along the trail drops the later hops, like browser history.
+  const handleOpenStep = async (index: number) => {
+    const step = pivotTrail[index];
+    setPivotTrail(pivotTrail.slice(0, index + 1));
+    setPendingPivot(null);
+    const lookup = step.lookupId ? history.find(l => l.id === step.lookupId) : undefined;
+    if (lookup) return handleOpenLookup(lookup);
+    const tool = tools.find(t => t.id === step.toolId);
+    if (!tool) {
+      setError("This tool is no longer available to you.");
+      return;
+    }
+    clearResult();
+    selectTool(tool, step.params);
+  };
+
+  // Streams a summary into the AI tab. Starting a new run supersedes (and aborts) any run in progress.
+  const runAnalysis = async (tool: OSINTTool, lookup: LookupResult | null, focus?: string) => {
+    aiAbort.current?.abort();
+    const controller = new AbortController();
+    aiAbort.current = controller;
+    setAiAnalysis('');
+    setAiStructured(null);
+    setAiError('');
+    setAiStreaming(true);
+
+    // The gateway analyzes the stored response, so a lookup whose history entry failed to save cannot be summarized.
+    const analysis = lookup
+      ? await analyzeOSINTResult(tool, lookup.id, { focus, signal: controller.signal, onChunk: setAiAnalysis })
+      : isAiEnabled(tool) ? { text: '', structured: null, status: 'failed' as const, error: "Analysis needs the lookup to be saved to history." } : null;
+    if (aiAbort.current !== controller) return;
+    aiAbort.current = null;
+    setAiStreaming(false);
+    if (analysis === null) return;
+
+    setAiAnalysis(analysis.text);
+    setAiStructured(analysis.structured);
+    if (analysis.status === 'cancelled') setAiError("Analysis cancelled. Partial output is shown.");
+    if (analysis.status === 'failed') setAiError(analysis.error || "Analysis failed.");
+    if (lookup && analysis.text) {
+      setCurrentLookup(current => ({ ...(current?.id === lookup.id ? current : lookup), aiSummary: analysis.text, aiAnalysis: analysis.structured }));
+      updateLookupSummary(lookup.id, analysis.text, analysis.structured).catch(err => console.error("Could not save AI summary:", err));
+    }
+  };
+
+  const handleChatChange = (chat: ChatMessage[], chatSources: ChatSourceRef[]) => {
+    setCurrentLookup(current => current && { ...current, chat, chatSources });
+  };
+
+  const cancelAnalysis = () => aiAbort.current?.abort();
+
+  const handleRegenerate = (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedTool) return;
+    runAnalysis(selectedTool, currentLookup, aiFocus.trim() || undefined);
+  };
+
+  const runLookup = async (tool: OSINTTool, values: Record<string, string>, pivot: LookupPivot | null = null, refresh = false, draft = false) => {
+    if (!canUseTool(profile, tool)) {
+      setError("You do not have access to this tool.");
+      return;
+    }
+    const errors = validateParams(getToolParams(tool), values);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
+    aiAbort.current?.abort();
+    aiAbort.current = null;
     setLoading(true);
     setResult(null);
+    setCurrentLookup(null);
     setAiAnalysis('');
+    setAiStructured(null);
+    setAiError('');
+    setAiStreaming(false);
     setError('');
 
     try {
-      let finalUrl = selectedTool.apiUrl.replace('{query}', encodeURIComponent(lookupValue));
-      if (selectedTool.useProxy) {
-        finalUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(finalUrl)}`;
-      }
-      const response = await fetch(finalUrl);
-      if (!response.ok) throw new Error(`Status: ${response.status}`);
-      let data = await response.json();
-      if (selectedTool.useProxy && data.contents) {
-        try { data = JSON.parse(data.contents); } 
-        catch { data = data.contents; }
-      }
+      const { data, cache, lookup } = await runToolLookup(profile, tool, values, { quotaSettings, pivot, refresh, draft });
       setResult(data);
-      setResultTab('raw');
-      const analysis = await analyzeOSINTResult(data);
-      setAiAnalysis(analysis);
+      setCachedAt(cache?.createdAt ?? null);
+      setResultTab(tool.resultMapping?.length ? 'structured' : 'raw');
+      setCurrentLookup(lookup);
+      setPivotTrail(trail => {
+        const last = trail[trail.length - 1];
+        return last && last.toolId === tool.id ? [...trail.slice(0, -1), { ...last, params: values, lookupId: lookup?.id || null }] : trail;
+      });
+      if (cache?.aiSummary) {
+        setAiAnalysis(cache.aiSummary);
+        setAiStructured(cache.aiAnalysis);
+        if (lookup) {
+          setCurrentLookup({ ...lookup, aiSummary: cache.aiSummary, aiAnalysis: cache.aiAnalysis });
+          updateLookupSummary(lookup.id, cache.aiSummary, cache.aiAnalysis).catch(err => console.error("Could not save AI summary:", err));
+        }
+      } else {
+        runAnalysis(tool, lookup);
+      }
     } catch (err: any) {
+      if (err instanceof QuotaExceededError) {
+        setError(err.message);
+        return;
+      }
       setError(`Search failed: ${err.message}.`);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTool) return;
+    // The lookup only counts as a pivot while the pivoted value is still in the form.
+    const pivot = pendingPivot && pendingPivot.toolId === selectedTool.id && lookupValues[pendingPivot.param] === pendingPivot.value
+      ? { fromLookupId: pendingPivot.fromLookupId, entityType: pendingPivot.entityType, value: pendingPivot.value }
+      : null;
+    await runLookup(activeTool!, lookupValues, pivot, false, activeTool !== selectedTool);
+  };
+
+  // Expanding a graph node runs the pivot straight away; the new lookup then shows up in the graph through history.
+  const handleRefresh = () => {
+    if (!selectedTool) return;
+    runLookup(activeTool!, currentLookup?.params || lookupValues, currentLookup?.pivot || null, true, activeTool !== selectedTool);
+  };
+
+  const handleExpand = async (node: GraphNode, target: PivotTarget) => {
+    const params = { ...getDefaultValues(getToolParams(target.tool)), [target.param.name]: node.value! };
+    const errors = validateParams(getToolParams(target.tool), params);
+    if (Object.keys(errors).length > 0) {
+      setError(`${target.tool.name} cannot run with this value: ${Object.values(errors)[0]}`);
+      return;
+    }
+    setPivotTrail([]);
+    setPendingPivot(null);
+    selectTool(target.tool, params);
+    await runLookup(target.tool, params, { fromLookupId: node.lookupIds[0], entityType: node.entityType!, value: node.value! });
+  };
+
+  const findToolForLookup = (lookup: LookupResult): OSINTTool => {
+    return tools.find(t => t.id === lookup.toolId)
+      || { id: lookup.toolId, name: lookup.toolName, apiUrl: '', description: '', icon: 'fas fa-history' };
+  };
+
+  const handleOpenLookup = async (lookup: LookupResult) => {
+    try {
+      const data = await loadLookupResponse(lookup);
+      const tool = findToolForLookup(lookup);
+      setSelectedTool(tool);
+      setLookupValues(lookup.params);
+      setFieldErrors({});
+      setError('');
+      setResult(data);
+      setCachedAt(lookup.cachedAt ?? null);
+      setCurrentLookup(lookup);
+      aiAbort.current?.abort();
+      aiAbort.current = null;
+      setAiStreaming(false);
+      setAiError('');
+      setAiAnalysis(lookup.aiSummary || '');
+      setAiStructured(lookup.aiAnalysis || null);
+      setResultTab(tool.resultMapping?.length ? 'structured' : 'raw');
+      setShowHistory(false);
+      setShowCases(false);
+      setShowGraph(false);
+      setShowWatches(false);
+    } catch (err: any) {
+      alert(`Could not open this lookup: ${err.message}`);
+    }
+  };
+
+  const handleOpenWatchLookup = (lookupId: string) => {
+    const lookup = history.find(l => l.id === lookupId);
+    if (!lookup) {
+      alert("This lookup is no longer in your history.");
+      return;
+    }
+    setPivotTrail([]);
+    handleOpenLookup(lookup);
+  };
+
+  const handleWatch = async (intervalMinutes: number) => {
+    if (!selectedTool || !currentLookup) return;
+    try {
+      await createWatch(profile, selectedTool, currentLookup, intervalMinutes);
+    } catch (err: any) {
+      alert(`Could not create the watch: ${err.message}`);
+    }
+  };
+
+  const handleRerunLookup = async (lookup: LookupResult) => {
+    const tool = tools.find(t => t.id === lookup.toolId);
+    if (!tool) {
+      alert("This tool is no longer available to you.");
+      return;
+    }
+    setSelectedTool(tool);
+    setLookupValues(lookup.params);
+    setShowHistory(false);
+    await runLookup(tool, lookup.params);
+  };
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
     if (newPassword.length < 6) {
@@ -91,10 +441,52 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
     }
   };
 
-  const copyToClipboard = () => {
-    const text = resultTab === 'raw' ? JSON.stringify(result, null, 2) : aiAnalysis;
-    navigator.clipboard.writeText(text);
-    alert("Copied to clipboard.");
+  const copyToClipboard = async () => {
+    const text = resultTab === 'analysis' ? aiAnalysis : JSON.stringify(result, null, 2);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError("Could not copy to the clipboard. Use an export instead.");
+    }
+  };
+
+  const handleExportResult = (format: ReportFormat) => {
+    if (!selectedTool) return;
+    const lookup: LookupResult = currentLookup || {
+      id: '',
+      uid: profile.uid,
+      userEmail: profile.email,
+      toolId: selectedTool.id,
+      toolName: selectedTool.name,
+      params: lookupValues,
+      timestamp: Date.now(),
+      status: 'success',
+      aiSummary: aiAnalysis || null,
+      aiAnalysis: aiStructured
+    };
+    exportReport(format, [{ lookup, data: result, mapping: selectedTool.resultMapping }], profile.email);
+  };
+
+  const handleExportLookups = async (lookups: LookupResult[], format: ReportFormat) => {
+    try {
+      exportReport(format, await loadReportEntries(lookups, tools), profile.email);
+    } catch (err: any) {
+      alert(`Could not build the report: ${err.message}`);
+    }
+  };
+
+  const handleRedeemInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRedeeming(true);
+    try {
+      await onRedeemInvite(inviteCode);
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setIsRedeeming(false);
+    }
   };
 
   if (!profile.isApproved) {
@@ -108,6 +500,10 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
             <a href={`https://t.me/${ADMIN_TELEGRAM}`} target="_blank" rel="noopener noreferrer" className="bg-[#24A1DE] text-white font-bold py-3.5 px-8 rounded-xl flex items-center justify-center transition uppercase text-xs tracking-widest"><i className="fab fa-telegram-plane mr-2"></i> Contact Admin</a>
             <button onClick={onLogout} className="border border-gray-700 text-gray-400 py-3.5 px-8 rounded-xl font-bold hover:bg-gray-800 transition text-xs uppercase tracking-widest">Logout</button>
           </div>
+          <form onSubmit={handleRedeemInvite} className="mt-8 pt-6 border-t border-gray-800 flex gap-2">
+            <input type="text" required className="flex-1 bg-[#0a0a0a] border border-gray-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:border-blue-500 transition-all text-sm font-mono uppercase" placeholder="Have an invite code?" value={inviteCode} onChange={e => setInviteCode(e.target.value)} />
+            <button type="submit" disabled={isRedeeming || !inviteCode.trim()} className="bg-blue-600 hover:bg-blue-700 text-white font-bold px-6 rounded-xl transition text-xs uppercase tracking-widest disabled:opacity-50">Redeem</button>
+          </form>
         </div>
       </div>
     );
@@ -125,6 +521,14 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
             {(profile.isAdmin || profile.isOwner) && onToggleAdmin && (
                <button onClick={onToggleAdmin} className="p-3 text-gray-500 hover:text-blue-500" title="Admin Panel"><i className="fas fa-user-shield"></i></button>
             )}
+            <button onClick={() => { setShowGraph(!showGraph); setShowCases(false); setShowHistory(false); setShowWatches(false); setSelectedTool(null); setResult(null); }} className={`p-3 hover:text-blue-500 ${showGraph ? 'text-blue-500' : 'text-gray-500'}`} title="Entity Graph"><i className="fas fa-project-diagram"></i></button>
+            <button onClick={() => { setShowCases(!showCases); setShowGraph(false); setShowHistory(false); setShowWatches(false); setSelectedTool(null); setResult(null); }} className={`p-3 hover:text-blue-500 ${showCases ? 'text-blue-500' : 'text-gray-500'}`} title="Cases"><i className="fas fa-briefcase"></i></button>
+            <button onClick={() => { setShowWatches(!showWatches); setShowGraph(false); setShowCases(false); setShowHistory(false); setSelectedTool(null); setResult(null); }} className={`p-3 hover:text-blue-500 relative ${showWatches ? 'text-blue-500' : 'text-gray-500'}`} title="Watches">
+              <i className="fas fa-eye"></i>
+              {unreadChanges > 0 && <span className="absolute top-1.5 right-1 min-w-[16px] h-4 px-1 rounded-full bg-blue-500 text-white text-[9px] font-bold flex items-center justify-center">{unreadChanges > 99 ? '99+' : unreadChanges}</span>}
+            </button>
+            <button onClick={() => { setShowHistory(!showHistory); setShowCases(false); setShowGraph(false); setShowWatches(false); setSelectedTool(null); setResult(null); }} className={`p-3 hover:text-blue-500 ${showHistory ? 'text-blue-500' : 'text-gray-500'}`} title="History"><i className="fas fa-history"></i></button>
+            <button onClick={() => setIsDevicesOpen(true)} className="p-3 text-gray-500 hover:text-blue-500" title="My Devices"><i className="fas fa-laptop"></i></button>
             <button onClick={() => setIsPasswordModalOpen(true)} className="p-3 text-gray-500 hover:text-blue-500" title="Password"><i className="fas fa-lock"></i></button>
             <button onClick={onLogout} className="p-3 text-gray-500 hover:text-red-500" title="Logout"><i className="fas fa-sign-out-alt"></i></button>
           </div>
@@ -132,7 +536,40 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 py-8">
-        {!selectedTool ? (
+        {showWatches ? (
+          <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-extrabold text-white">Watches</h1>
+              <button onClick={() => setShowWatches(false)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-arrow-left mr-1"></i> Back to Hub</button>
+            </div>
+            <WatchInbox watches={watches} changes={watchChanges} onOpenLookup={handleOpenWatchLookup} />
+          </div>
+        ) : showGraph ? (
+          <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-extrabold text-white">Entity Graph</h1>
+              <button onClick={() => setShowGraph(false)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-arrow-left mr-1"></i> Back to Hub</button>
+            </div>
+            {error && <div className="p-5 bg-red-900/10 border border-red-500/20 rounded-2xl text-red-400 text-xs flex gap-3"><i className="fas fa-exclamation-circle mt-0.5"></i>{error}</div>}
+            <EntityGraphPanel lookups={history} tools={tools} busy={loading} onExpand={handleExpand} onOpenLookup={lookup => { setShowGraph(false); setPivotTrail([]); handleOpenLookup(lookup); }} />
+          </div>
+        ) : showCases ? (
+          <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-extrabold text-white">Cases</h1>
+              <button onClick={() => setShowCases(false)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-arrow-left mr-1"></i> Back to Hub</button>
+            </div>
+            <CasesPanel profile={profile} cases={cases} tools={tools} />
+          </div>
+        ) : showHistory ? (
+          <div className="space-y-6 animate-in fade-in duration-500">
+            <div className="flex justify-between items-center">
+              <h1 className="text-2xl font-extrabold text-white">Lookup History</h1>
+              <button onClick={() => setShowHistory(false)} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-arrow-left mr-1"></i> Back to Hub</button>
+            </div>
+            <HistoryPanel lookups={history} tools={tools} onOpen={lookup => { setPivotTrail([]); handleOpenLookup(lookup); }} onRerun={lookup => { setPivotTrail([]); handleRerunLookup(lookup); }} onExport={handleExportLookups} />
+          </div>
+        ) : !selectedTool ? (
           <div className="space-y-8 animate-in fade-in duration-500">
             <div className="text-center mb-10">
               <h1 className="text-3xl md:text-4xl font-extrabold text-white mb-3">Choose a Tool</h1>
@@ -140,7 +577,7 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
               {tools.map(tool => (
-                <button key={tool.id} onClick={() => setSelectedTool(tool)} className="group bg-[#111] border border-gray-800 rounded-3xl p-6 text-left hover:border-blue-500/50 hover:bg-blue-500/5 transition-all flex flex-col h-full shadow-lg">
+                <button key={tool.id} onClick={() => openTool(tool)} className="group bg-[#111] border border-gray-800 rounded-3xl p-6 text-left hover:border-blue-500/50 hover:bg-blue-500/5 transition-all flex flex-col h-full shadow-lg">
                   <div className="w-12 h-12 bg-blue-600/10 rounded-2xl flex items-center justify-center mb-5 border border-blue-500/20 text-blue-500 group-hover:scale-105 transition"><i className={`${tool.icon || 'fas fa-search'} text-xl`}></i></div>
                   <h3 className="text-lg font-bold text-white mb-2">{tool.name}</h3>
                   <div className="text-gray-500 text-xs leading-relaxed mb-6 line-clamp-2" dangerouslySetInnerHTML={{ __html: tool.description }}></div>
@@ -155,12 +592,43 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
               <button onClick={() => { setSelectedTool(null); setResult(null); }} className="w-full bg-[#111] border border-gray-800 p-4 rounded-2xl text-gray-400 hover:text-white flex items-center justify-center gap-3 transition font-bold text-xs uppercase tracking-widest"><i className="fas fa-arrow-left"></i> Back to Hub</button>
               <div className="bg-[#111] border border-gray-800 rounded-2xl p-6 shadow-xl">
                 <div className="flex items-center gap-3 mb-6"><i className={`${selectedTool.icon} text-blue-500`}></i><h3 className="font-bold text-white">{selectedTool.name}</h3></div>
-                <form onSubmit={handleLookup} className="space-y-4">
-                  <input type="text" required className="w-full bg-[#0a0a0a] border border-gray-700 rounded-xl py-3.5 px-4 text-white focus:border-blue-500 outline-none transition text-sm" placeholder="Enter search text..." value={lookupValue} onChange={e => setLookupValue(e.target.value)}/>
+                <form onSubmit={handleLookup} noValidate className="space-y-4">
+                  {getToolParams(activeTool!).map(param => (
+                    <div key={param.name}>
+                      {(activeTool!.params?.length || 0) > 0 && (
+                        <label className="block text-[10px] font-bold text-gray-500 mb-2 uppercase tracking-widest">
+                          {param.label}{param.required && <span className="text-red-500 ml-1">*</span>}
+                        </label>
+                      )}
+                      {param.type === 'enum' ? (
+                        <select className={`w-full bg-[#0a0a0a] border ${fieldErrors[param.name] ? 'border-red-500/50' : 'border-gray-700'} rounded-xl py-3.5 px-4 text-white focus:border-blue-500 outline-none transition text-sm`} value={lookupValues[param.name] || ''} onChange={e => setLookupValues({ ...lookupValues, [param.name]: e.target.value })}>
+                          {!param.required && <option value="">—</option>}
+                          {(param.options || []).map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                        </select>
+                      ) : (
+                        <input type={param.type === 'email' ? 'email' : param.type === 'phone' ? 'tel' : 'text'} className={`w-full bg-[#0a0a0a] border ${fieldErrors[param.name] ? 'border-red-500/50' : 'border-gray-700'} rounded-xl py-3.5 px-4 text-white focus:border-blue-500 outline-none transition text-sm`} placeholder={getParamPlaceholder(param)} value={lookupValues[param.name] || ''} onChange={e => setLookupValues({ ...lookupValues, [param.name]: e.target.value })}/>
+                      )}
+                      {fieldErrors[param.name] ? (
+                        <p className="text-[10px] text-red-400 mt-1.5 ml-1">{fieldErrors[param.name]}</p>
+                      ) : param.helpText && (
+                        <p className="text-[10px] text-gray-600 mt-1.5 ml-1">{param.helpText}</p>
+                      )}
+                    </div>
+                  ))}
+                  {selectedDraft && (
+                    <label className="flex items-center gap-2 text-[11px] text-purple-300 bg-purple-500/5 border border-purple-500/20 rounded-xl px-3 py-2.5">
+                      <input type="checkbox" checked={tryDraft} onChange={e => setTryDraft(e.target.checked)} />
+                      Try the unpublished draft (based on v{selectedDraft.baseVersion}, skips the cache)
+                    </label>
+                  )}
                   <button type="submit" disabled={loading} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl transition disabled:opacity-50 flex items-center justify-center gap-2 uppercase tracking-widest text-xs">
                     {loading ? <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : 'Search Now'}
                   </button>
                 </form>
+                <div className="mt-6 space-y-4">
+                  <UsageMeter label="Your quota" limits={resolveUserLimits(profile.quota, quotaSettings.defaults)} usage={userUsage} />
+                  {selectedTool.quota && <UsageMeter label="Tool quota (team)" limits={selectedTool.quota} usage={toolUsage} />}
+                </div>
                 {selectedTool.description && (
                    <div className="mt-8 pt-6 border-t border-gray-800">
                      <p className="text-[10px] font-bold text-gray-600 uppercase tracking-widest mb-3">About this tool</p>
@@ -171,36 +639,121 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
             </div>
 
             <div className="lg:col-span-8 space-y-6">
+              {pivotTrail.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mr-1"><i className="fas fa-route mr-1"></i> Pivot Trail</span>
+                  {pivotTrail.map((step, i) => (
+                    <React.Fragment key={i}>
+                      {i > 0 && <i className="fas fa-chevron-right text-[8px] text-gray-700"></i>}
+                      <button onClick={() => handleOpenStep(i)} disabled={i === pivotTrail.length - 1} className={`px-2 py-1 rounded-lg border transition ${i === pivotTrail.length - 1 ? 'border-blue-500/30 bg-blue-500/10 text-blue-400' : 'border-gray-800 bg-[#111] text-gray-400 hover:text-white'}`} title={Object.values(step.params).filter(Boolean).join(', ')}>
+                        {step.toolName}{step.via && <span className="text-gray-500 ml-1">({step.via.value})</span>}
+                      </button>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
               {error && <div className="p-5 bg-red-900/10 border border-red-500/20 rounded-2xl text-red-400 text-xs flex gap-3"><i className="fas fa-exclamation-circle mt-0.5"></i>{error}</div>}
 
               {result ? (
                 <div className="bg-[#111] border border-gray-800 rounded-3xl overflow-hidden shadow-2xl animate-in fade-in duration-500">
                   <div className="bg-[#1a1a1a] px-6 pt-6 border-b border-gray-800">
                     <div className="flex flex-col sm:flex-row items-center justify-between mb-4 gap-4">
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Data Feed Active</span>
+                      {cachedAt ? (
+                        <div className="flex items-center gap-2">
+                          <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
+                          <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest" title={new Date(cachedAt).toLocaleString()}>Cached · {formatCacheAge(cachedAt)}</span>
+                          {tools.some(t => t.id === selectedTool.id) && (
+                            <button onClick={handleRefresh} disabled={loading} className="text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-widest transition disabled:opacity-40 ml-1"><i className="fas fa-sync-alt mr-1"></i> Refresh from source</button>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className="w-2 h-2 rounded-full bg-green-500"></div>
+                          <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Data Feed Active</span>
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        {currentLookup && (
+                          <button onClick={() => setIsCaseModalOpen(true)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition">
+                            <i className="fas fa-briefcase mr-1"></i> Add to Case
+                          </button>
+                        )}
+                        {currentLookup?.responseRef && tools.some(t => t.id === selectedTool.id) && (
+                          <WatchMenu watching={isWatched} onSelect={handleWatch} />
+                        )}
+                        <ReportMenu onSelect={handleExportResult} />
+                        <button onClick={copyToClipboard} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">
+                          <i className={`fas ${copied ? 'fa-check' : 'fa-copy'} mr-1`}></i> {copied ? 'Copied' : 'Copy All'}
+                        </button>
                       </div>
-                      <button onClick={copyToClipboard} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">
-                        <i className="fas fa-copy mr-1"></i> Copy All
-                      </button>
                     </div>
                     <div className="flex gap-6 overflow-x-auto scrollbar-hide border-b border-transparent">
+                      {!!selectedTool.resultMapping?.length && (
+                        <button onClick={() => setResultTab('structured')} className={`pb-4 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${resultTab === 'structured' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>Structured</button>
+                      )}
                       <button onClick={() => setResultTab('raw')} className={`pb-4 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${resultTab === 'raw' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>Raw Data</button>
-                      <button onClick={() => setResultTab('analysis')} className={`pb-4 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${resultTab === 'analysis' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>AI Summary</button>
+                      {isAiEnabled(selectedTool) && (
+                        <button onClick={() => setResultTab('analysis')} className={`pb-4 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${resultTab === 'analysis' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>AI Summary</button>
+                      )}
+                      {isAiEnabled(selectedTool) && currentLookup && (
+                        <button onClick={() => setResultTab('chat')} className={`pb-4 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${resultTab === 'chat' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>Ask</button>
+                      )}
                     </div>
                   </div>
 
+                  {entities.length > 0 && resultTab !== 'analysis' && resultTab !== 'chat' && (
+                    <div className="px-6 py-3 border-b border-gray-800 bg-[#0f0f0f] flex flex-wrap items-center gap-1.5 max-h-28 overflow-y-auto custom-scrollbar">
+                      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mr-1">Entities ({entities.length})</span>
+                      {entities.map(e => (
+                        <EntityPivot key={`${e.type}:${e.value}`} type={e.type} value={e.value} tools={tools} onPivot={handlePivot} chip />
+                      ))}
+                    </div>
+                  )}
+
                   <div className="bg-[#0a0a0a] min-h-[400px]">
-                    {resultTab === 'raw' ? (
+                    {resultTab === 'structured' && selectedTool.resultMapping?.length ? (
+                      <div className="max-h-[600px] overflow-auto custom-scrollbar">
+                        <StructuredView data={result} mapping={selectedTool.resultMapping} tools={tools} onPivot={handlePivot} />
+                      </div>
+                    ) : resultTab === 'chat' && currentLookup ? (
+                      <ChatPanel key={currentLookup.id} lookup={currentLookup} data={result} history={history} tools={tools} onChatChange={handleChatChange} />
+                    ) : resultTab !== 'analysis' && highlightRaw ? (
+                      <div className="max-h-[600px] overflow-auto custom-scrollbar">
+                        <EntityJsonView data={result} tools={tools} onPivot={handlePivot} />
+                      </div>
+                    ) : resultTab !== 'analysis' ? (
                       <div className="max-h-[600px] overflow-auto custom-scrollbar">
                         <SyntaxHighlighter language="json" style={vscDarkPlus} customStyle={{ margin: 0, padding: '1.5rem', fontSize: '11px', backgroundColor: '#0a0a0a' }}>
                           {JSON.stringify(result, null, 2)}
                         </SyntaxHighlighter>
                       </div>
                     ) : (
-                      <div className="p-6 md:p-8 text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-medium">
-                        {aiAnalysis || <div className="py-20 text-center opacity-30"><i className="fas fa-brain text-4xl mb-3 animate-pulse"></i><p className="text-xs font-bold uppercase tracking-widest">AI is thinking...</p></div>}
+                      <div>
+                        <div className="px-6 pt-5 flex flex-col sm:flex-row gap-2">
+                          {aiStreaming ? (
+                            <>
+                              <div className="flex-1 flex items-center gap-2 text-[10px] font-bold text-blue-500 uppercase tracking-widest"><div className="h-3 w-3 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div> Streaming analysis</div>
+                              <button onClick={cancelAnalysis} className="text-[10px] font-bold text-red-400 border border-red-500/20 px-3 py-1.5 rounded-lg bg-red-500/5 uppercase hover:bg-red-500/10 transition"><i className="fas fa-stop mr-1"></i> Cancel</button>
+                            </>
+                          ) : (
+                            <form onSubmit={handleRegenerate} className="flex-1 flex gap-2">
+                              <input type="text" className="flex-1 bg-[#111] border border-gray-800 rounded-lg px-3 py-1.5 text-white text-xs focus:border-blue-500 outline-none" placeholder="Optional focus, e.g. focus on breach exposure" value={aiFocus} onChange={e => setAiFocus(e.target.value)}/>
+                              <button type="submit" className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition"><i className="fas fa-sync-alt mr-1"></i> Regenerate</button>
+                            </form>
+                          )}
+                        </div>
+                        {aiError && <div className="mx-6 mt-4 p-3 bg-yellow-900/10 border border-yellow-500/20 rounded-xl text-yellow-400 text-xs flex gap-2"><i className="fas fa-exclamation-triangle mt-0.5"></i>{aiError}</div>}
+                        {aiStructured ? (
+                          <div className="max-h-[600px] overflow-auto custom-scrollbar">
+                            <AnalysisView analysis={aiStructured} />
+                          </div>
+                        ) : (
+                          <div className={`p-6 md:p-8 text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-medium ${aiStreaming ? 'font-mono text-xs' : ''}`}>
+                            {aiAnalysis || (aiStreaming
+                              ? <div className="py-20 text-center opacity-30"><i className="fas fa-brain text-4xl mb-3 animate-pulse"></i><p className="text-xs font-bold uppercase tracking-widest">AI is thinking...</p></div>
+                              : <div className="py-20 text-center opacity-30"><p className="text-xs font-bold uppercase tracking-widest">No AI summary yet</p></div>)}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -218,6 +771,12 @@ const UserDashboard: React.FC<UserDashboardProps> = ({ profile, onLogout, onTogg
         )}
       </main>
 
+      {isCaseModalOpen && currentLookup && (
+        <CaseAttachModal profile={profile} cases={cases} lookup={currentLookup} data={result} summary={currentLookup.aiSummary || ''} onClose={() => setIsCaseModalOpen(false)} />
+      )}
+
+      {isDevicesOpen && <MyDevicesModal profile={profile} onClose={() => setIsDevicesOpen(false)} />}
+
       {/* Password Modal */}
       {isPasswordModalOpen && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/95 backdrop-blur-md">
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Watch, WatchChange, WatchRunStatus } from '../types';
+import { WATCH_INTERVALS, formatWatchInterval, nextRunAfter } from '../services/watchScheduler';
+import { deleteWatch, markWatchChangesRead, updateWatch } from '../services/watchService';
+import { countDiff } from '../services/jsonDiff';
+import JsonDiffList from './JsonDiffList';
+
+interface WatchInboxProps {
+  watches: Watch[];
+  changes: WatchChange[];
+  onOpenLookup: (lookupId: string) => void;
+}
+
+const STATUS_STYLES: Record<WatchRunStatus, string> = {
+  unchanged: 'bg-green-500',
+  changed: 'bg-yellow-500',
+  error: 'bg-red-500'
+};
+
+const formatParams = (params: Record<string, string>) => Object.entries(params).map(([k, v]) => `${k}=${v}`).join(' · ');
+
+const WatchInbox: React.FC<WatchInboxProps> = ({ watches, changes, onOpenLookup }) => {
+  const [tab, setTab] = useState<'inbox' | 'watches'>('inbox');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const unread = changes.filter(c => !c.read);
+
+  const handleExpand = (change: WatchChange) => {
+    setExpanded(expanded === change.id ? null : change.id);
+    if (!change.read) markWatchChangesRead([change]).catch(err => console.error("Could not mark change as read:", err));
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markWatchChangesRead(unread);
+    } catch (err: any) {
+      alert(`Could not update the inbox: ${err.message}`);
+    }
+  };
+
+  const handleUpdate = async (watch: Watch, update: Parameters<typeof updateWatch>[1]) => {
+    try {
+      await updateWatch(watch.id, update);
+    } catch (err: any) {
+      alert(`Could not update the watch: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (watch: Watch) => {
+    if (!confirm(`Stop watching ${watch.toolName} (${formatParams(watch.params)})? Its inbox entries are removed too.`)) return;
+    try {
+      await deleteWatch(watch);
+    } catch (err: any) {
+      alert(`Could not delete the watch: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex gap-6 border-b border-gray-800">
+          <button onClick={() => setTab('inbox')} className={`pb-3 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${tab === 'inbox' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>
+            Inbox{unread.length > 0 && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-500 text-white">{unread.length}</span>}
+          </button>
+          <button onClick={() => setTab('watches')} className={`pb-3 px-2 text-[10px] font-bold uppercase tracking-widest transition-all border-b-2 ${tab === 'watches' ? 'border-blue-500 text-blue-500' : 'border-transparent text-gray-500 hover:text-white'}`}>
+            Watches ({watches.length})
+          </button>
+        </div>
+        {tab === 'inbox' && unread.length > 0 && (
+          <button onClick={handleMarkAllRead} className="text-[10px] font-bold text-gray-500 uppercase tracking-widest hover:text-white transition"><i className="fas fa-check-double mr-1"></i> Mark all read</button>
+        )}
+      </div>
+
+      {tab === 'inbox' ? (
+        changes.length === 0 ? (
+          <div className="py-20 text-center opacity-40">
+            <i className="fas fa-inbox text-4xl mb-4"></i>
+            <p className="text-sm font-bold uppercase tracking-widest">No changes yet</p>
+            <p className="text-xs mt-2">Watch a lookup from its result to be told when the data changes. Watches run while a dashboard tab is open.</p>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {changes.map(change => {
+              const counts = countDiff(change.diff);
+              return (
+                <div key={change.id} className={`bg-[#111] border rounded-2xl overflow-hidden transition ${change.read ? 'border-gray-800' : 'border-blue-500/40'}`}>
+                  <button onClick={() => handleExpand(change)} className="w-full p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-left hover:bg-white/[0.02] transition">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        {!change.read && <span className="w-2 h-2 rounded-full bg-blue-500 flex-shrink-0"></span>}
+                        <span className="font-bold text-white text-sm truncate">{change.toolName}</span>
+                      </div>
+                      <div className="text-[11px] text-gray-400 font-mono mt-1 truncate">{formatParams(change.params)}</div>
+                      <div className="text-[10px] text-gray-600 mt-1">{new Date(change.timestamp).toLocaleString()}</div>
+                    </div>
+                    <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest flex-shrink-0">
+                      {counts.added > 0 && <span className="text-green-400">+{counts.added} added</span>}
+                      {counts.removed > 0 && <span className="text-red-400">−{counts.removed} removed</span>}
+                      {counts.changed > 0 && <span className="text-yellow-400">~{counts.changed} changed</span>}
+                      <i className={`fas fa-chevron-${expanded === change.id ? 'up' : 'down'} text-gray-600 ml-2`}></i>
+                    </div>
+                  </button>
+                  {expanded === change.id && (
+                    <div className="border-t border-gray-800 p-4 space-y-2 bg-[#0a0a0a]">
+                      <JsonDiffList entries={change.diff} />
+                      {change.diffTruncated && <p className="text-[10px] text-gray-500">More differences were found than can be shown. Open the lookups to compare them in full.</p>}
+                      <div className="flex gap-2 pt-2">
+                        <button onClick={() => onOpenLookup(change.fromLookupId)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition">Open previous</button>
+                        {change.toLookupId && (
+                          <button onClick={() => onOpenLookup(change.toLookupId!)} className="text-[10px] font-bold text-blue-500 border border-blue-500/20 px-3 py-1.5 rounded-lg bg-blue-500/5 uppercase hover:bg-blue-500/10 transition">Open latest</button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : watches.length === 0 ? (
+        <div className="py-20 text-center opacity-40">
+          <i className="fas fa-eye text-4xl mb-4"></i>
+          <p className="text-sm font-bold uppercase tracking-widest">No watches</p>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {watches.map(watch => (
+            <div key={watch.id} className="bg-[#111] border border-gray-800 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${watch.lastStatus ? STATUS_STYLES[watch.lastStatus] : 'bg-gray-600'}`}></span>
+                  <span className="font-bold text-white text-sm truncate">{watch.toolName}</span>
+                  {watch.paused && <span className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">Paused</span>}
+                </div>
+                <div className="text-[11px] text-gray-400 font-mono mt-1 truncate">{formatParams(watch.params)}</div>
+                <div className="text-[10px] text-gray-600 mt-1">
+                  {watch.lastRunAt ? `Last run ${new Date(watch.lastRunAt).toLocaleString()}` : 'Not run yet'}
+                  {!watch.paused && ` · Next ${new Date(watch.nextRunAt).toLocaleString()}`}
+                  {watch.lastError && <span className="text-red-400 ml-2">{watch.lastError}</span>}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <select className="bg-[#0a0a0a] border border-gray-800 rounded-lg px-2 py-1.5 text-white text-[11px] focus:border-blue-500 outline-none" value={watch.intervalMinutes} onChange={e => handleUpdate(watch, { intervalMinutes: Number(e.target.value), nextRunAt: nextRunAfter({ intervalMinutes: Number(e.target.value) }, watch.lastRunAt ?? watch.createdAt) })}>
+                  {!WATCH_INTERVALS.some(i => i.minutes === watch.intervalMinutes) && <option value={watch.intervalMinutes}>{formatWatchInterval(watch.intervalMinutes)}</option>}
+                  {WATCH_INTERVALS.map(i => <option key={i.minutes} value={i.minutes}>{i.label}</option>)}
+                </select>
+                <button onClick={() => handleUpdate(watch, { nextRunAt: Date.now() })} disabled={watch.paused} className="p-2 text-gray-500 hover:text-blue-500 disabled:opacity-30" title="Run now"><i className="fas fa-play"></i></button>
+                <button onClick={() => handleUpdate(watch, watch.paused ? { paused: false, nextRunAt: Date.now() } : { paused: true })} className="p-2 text-gray-500 hover:text-yellow-500" title={watch.paused ? 'Resume' : 'Pause'}><i className={`fas ${watch.paused ? 'fa-redo' : 'fa-pause'}`}></i></button>
+                <button onClick={() => handleDelete(watch)} className="p-2 text-gray-500 hover:text-red-500" title="Delete"><i className="fas fa-trash"></i></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchInbox;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { WATCH_INTERVALS } from '../services/watchScheduler';
+
+interface WatchMenuProps {
+  watching: boolean; // An active watch already exists for this tool and input
+  onSelect: (intervalMinutes: number) => void;
+}
+
+const WatchMenu: React.FC<WatchMenuProps> = ({ watching, onSelect }) => {
+  const [open, setOpen] = useState(false);
+
+  if (watching) {
+    return (
+      <span className="text-[10px] font-bold text-green-500 border border-green-500/20 px-3 py-1.5 rounded-lg bg-green-500/5 uppercase">
+        <i className="fas fa-eye mr-1"></i> Watching
+      </span>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className="text-[10px] font-bold text-gray-400 border border-gray-700 px-3 py-1.5 rounded-lg uppercase hover:text-white transition">
+        <i className="fas fa-eye mr-1"></i> Watch
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-44 bg-[#1a1a1a] border border-gray-800 rounded-xl shadow-2xl z-20 overflow-hidden">
+          <p className="px-4 pt-3 pb-1 text-[10px] font-bold text-gray-500 uppercase tracking-widest">Re-run</p>
+          <p className="px-4 pb-1 text-[10px] text-gray-600">Only while a dashboard tab is open.</p>
+          {WATCH_INTERVALS.map(i => (
+            <button key={i.minutes} onClick={() => { setOpen(false); onSelect(i.minutes); }} className="w-full text-left px-4 py-2.5 text-xs text-gray-300 hover:bg-blue-500/10 hover:text-white transition">
+              {i.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchMenu;
@@ -0,0 +1,107 @@
+import { GoogleGenAI } from '@google/genai';
+import { config } from './config';
+import { GatewayError } from './errors';
+import { AiProviderId } from '../types';
+import { stubAnalysis } from '../services/aiPrompt';
+import { stubChatAnswer } from '../services/chatPrompt';
+
+export interface AiRequest {
+  model: string;
+  prompt: string;
+  data: any;
+  signal: AbortSignal;
+  json?: boolean; // Ask for JSON output (structured analysis); chat answers are plain text
+  question?: string; // Latest chat question, used by the offline stub
+}
+
+// Providers stream text through onChunk and resolve with the complete output.
+export interface AiProvider {
+  id: AiProviderId;
+  stream: (request: AiRequest, onChunk: (text: string) => void) => Promise<string>;
+}
+
+const requireKey = (key: string, provider: string) => {
+  if (!key) throw new GatewayError(503, 'ai-not-configured', `The ${provider} provider has no API key configured on the gateway.`);
+  return key;
+};
+
+const geminiProvider: AiProvider = {
+  id: 'gemini',
+  stream: async ({ model, prompt, signal, json }, onChunk) => {
+    const ai = new GoogleGenAI({ apiKey: requireKey(config.ai.geminiApiKey, 'Gemini') });
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: prompt,
+      config: { thinkingConfig: { thinkingBudget: 0 }, responseMimeType: json ? 'application/json' : 'text/plain', abortSignal: AbortSignal.any([signal, AbortSignal.timeout(config.ai.timeoutMs)]) }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onChunk(chunk.text);
+    }
+    return text;
+  }
+};
+
+// Works with any server that implements the OpenAI chat completions API (OpenAI, vLLM, Ollama, LM Studio...).
+const openAiProvider: AiProvider = {
+  id: 'openai',
+  stream: async ({ model, prompt, signal }, onChunk) => {
+    const response = await fetch(`${config.ai.openaiBaseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${requireKey(config.ai.openaiApiKey, 'OpenAI-compatible')}` },
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], stream: true }),
+      signal: AbortSignal.any([signal, AbortSignal.timeout(config.ai.timeoutMs)])
+    });
+    if (!response.ok || !response.body) throw new GatewayError(502, 'ai-upstream-error', `The AI provider returned status ${response.status}.`);
+
+    // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    const reader = response.body.getReader();
+    for (let next = await reader.read(); !next.done; next = await reader.read()) {
+      buffer += decoder.decode(next.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+        const delta = (JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content;
+        if (!delta) continue;
+        text += delta;
+        onChunk(delta);
+      }
+    }
+    return text;
+  }
+};
+
+// Emits the deterministic analysis in small pieces so the streaming UI can be exercised offline.
+const stubProvider: AiProvider = {
+  id: 'stub',
+  stream: async ({ prompt, data, signal, json, question }, onChunk) => {
+    const text = json ? stubAnalysis(prompt, data) : stubChatAnswer(question || '', data);
+    for (let i = 0; i < text.length; i += 24) {
+      if (signal.aborted) throw signal.reason;
+      onChunk(text.slice(i, i + 24));
+      await new Promise(resolve => setTimeout(resolve, 15));
+    }
+    return text;
+  }
+};
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  stub: stubProvider
+};
+
+export const getProvider = (id: AiProviderId | null | undefined): AiProvider => {
+  const key = id || config.ai.defaultProvider;
+  // The id comes from a tool document, so inherited keys such as "constructor" must not resolve.
+  const provider = Object.hasOwn(PROVIDERS, key) ? PROVIDERS[key] : undefined;
+  if (!provider) throw new GatewayError(500, 'ai-unknown-provider', `Unknown AI provider "${key}".`);
+  return provider;
+};
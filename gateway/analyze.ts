@@ -0,0 +1,83 @@
+import { DocumentReference } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { Caller } from './auth';
+import { AiProvider, getProvider } from './aiProviders';
+import { consumeAiQuota } from './quota';
+import { LookupSource, loadLookupSource } from './history';
+import { CachedResult, GatewayAnalysisResponse, PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, getDefaultModel, isAiEnabled, renderPrompt } from '../services/aiPrompt';
+import { ANALYSIS_OUTPUT_INSTRUCTIONS, analysisToText, parseStructuredAnalysis } from '../services/analysisSchema';
+import { buildCacheKey, isCacheEnabled, isCacheFresh } from '../services/resultCache';
+
+export interface AnalyzeRequestBody {
+  lookupId?: unknown; // The prompt is built from this lookup's stored response
+  focus?: unknown; // Optional extra instruction for regenerated summaries
+}
+
+const loadTemplate = async (templateId: string | null | undefined) => {
+  if (!templateId) return DEFAULT_PROMPT_TEMPLATE;
+  const snapshot = await adminDb.collection('promptTemplates').doc(templateId).get();
+  // A deleted template should not break analysis for the tools that still point at it.
+  return (snapshot.data() as PromptTemplate | undefined)?.template || DEFAULT_PROMPT_TEMPLATE;
+};
+
+export interface PreparedAnalysis {
+  provider: AiProvider;
+  model: string;
+  prompt: string;
+  data: any;
+  cacheRef: DocumentReference | null; // Cache entry the default summary is shared through
+}
+
+const MAX_FOCUS_CHARS = 500;
+
+// Focused summaries answer one analyst's question, and drafts never enter the cache, so only the default
+// summary of a cached result is shared. The lookup's stored response must also be the gateway's cached
+// body, since the client recorded it and could have stored anything.
+const findCacheEntry = async ({ lookup, tool, stored }: LookupSource, focus: string) => {
+  if (focus || lookup.toolDraft || !isCacheEnabled(tool)) return null;
+  const ref = adminDb.collection('lookupCache').doc(await buildCacheKey(tool, lookup.params));
+  const entry = (await ref.get()).data() as CachedResult | undefined;
+  return entry && isCacheFresh(entry, tool) && entry.body === stored.body && entry.truncated === stored.truncated ? ref : null;
+};
+
+// Resolves lookup, access, provider and prompt up front so request errors surface before any streaming starts.
+export const prepareAnalysis = async (body: AnalyzeRequestBody, caller: Caller): Promise<PreparedAnalysis> => {
+  const source = await loadLookupSource(body.lookupId, caller);
+  const { lookup, tool, data } = source;
+  if (!isAiEnabled(tool)) throw new GatewayError(400, 'ai-disabled', 'AI analysis is turned off for this tool.');
+
+  const focus = typeof body.focus === 'string' ? body.focus.trim().slice(0, MAX_FOCUS_CHARS) : '';
+  const provider = getProvider(tool.ai?.provider);
+  const prompt = renderPrompt(await loadTemplate(tool.ai?.templateId), tool, lookup.params, data)
+    + (focus ? `\n\nAdditional focus requested by the analyst: ${focus}` : '')
+    + ANALYSIS_OUTPUT_INSTRUCTIONS;
+  const cacheRef = await findCacheEntry(source, focus);
+  await consumeAiQuota(caller.profile);
+  return { provider, model: tool.ai?.model || getDefaultModel(provider.id), prompt, data, cacheRef };
+};
+
+export const generateAnalysis = async (
+  { provider, model, prompt, data, cacheRef }: PreparedAnalysis,
+  onChunk: (text: string) => void = () => {},
+  signal: AbortSignal = new AbortController().signal
+): Promise<GatewayAnalysisResponse> => {
+  let text: string;
+  try {
+    text = await provider.stream({ model, prompt, data, signal, json: true }, onChunk);
+  } catch (err: any) {
+    if (err instanceof GatewayError) throw err;
+    const timedOut = err?.name === 'TimeoutError';
+    if (!signal.aborted) console.error('AI provider failure:', err);
+    throw new GatewayError(502, timedOut ? 'ai-timeout' : 'ai-upstream-error', timedOut ? 'The AI provider did not respond in time.' : 'The AI provider request failed.');
+  }
+  // Output that fails validation is passed through as plain text rather than rejected.
+  const structured = parseStructuredAnalysis(text);
+  const result = { text: structured ? analysisToText(structured) : text, structured, provider: provider.id, model };
+  // Lets later cache hits skip the AI analysis as well as the upstream call.
+  if (cacheRef && result.text) {
+    await cacheRef.update({ aiSummary: result.text, aiAnalysis: structured }).catch(err => console.error('Could not cache AI summary:', err));
+  }
+  return result;
+};
@@ -0,0 +1,26 @@
+import { DocumentData, DocumentReference, FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { Caller } from './auth';
+import { AuditEntry } from '../types';
+
+// Server-side counterpart of recordAudit in services/auditService.ts, for actions only the gateway can see.
+// The caller awaits it before doing the audited work, or passes the batch or transaction that does the work
+// so both land together.
+export const recordGatewayAudit = async (
+  caller: Caller,
+  entry: Omit<AuditEntry, 'id' | 'actorUid' | 'actorEmail' | 'timestamp'>,
+  writer?: { set: (ref: DocumentReference, data: DocumentData) => unknown }
+) => {
+  const ref = adminDb.collection('auditLog').doc();
+  const audit = {
+    ...entry,
+    id: ref.id,
+    actorUid: caller.uid,
+    actorEmail: caller.profile.email,
+    before: entry.before === undefined ? null : JSON.parse(JSON.stringify(entry.before)),
+    after: entry.after === undefined ? null : JSON.parse(JSON.stringify(entry.after)),
+    timestamp: FieldValue.serverTimestamp()
+  };
+  if (writer) writer.set(ref, audit);
+  else await ref.set(audit);
+};
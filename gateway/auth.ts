@@ -0,0 +1,51 @@
+import { adminAuth, adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { SecuritySettings, UserProfile } from '../types';
+import { isPrivileged } from '../services/access';
+import { DEFAULT_SECURITY_SETTINGS, isSignInVerified, needsSecondFactor } from '../services/mfa';
+
+export interface Caller {
+  uid: string;
+  profile: UserProfile;
+  authTime: number; // auth_time of the ID token in seconds, which identifies the sign-in
+}
+
+export interface AuthenticateOptions {
+  allowUnapproved?: boolean; // For routes an account awaiting approval needs, such as invite redemption
+  allowUnverified?: boolean; // For the two-factor routes a sign-in uses before it has passed the second factor
+}
+
+const loadSecuritySettings = async () =>
+  ((await adminDb.collection('settings').doc('security').get()).data() as SecuritySettings | undefined) || DEFAULT_SECURITY_SETTINGS;
+
+// Accounts that need a second factor (see needsSecondFactor) must have passed it for this sign-in, like in the rules.
+export const authenticate = async (authorization: string | undefined, { allowUnapproved = false, allowUnverified = false }: AuthenticateOptions = {}): Promise<Caller> => {
+  const match = /^Bearer (.+)$/.exec(authorization || '');
+  if (!match) throw new GatewayError(401, 'unauthenticated', 'Missing ID token.');
+
+  let uid: string;
+  let authTime: number;
+  try {
+    ({ uid, auth_time: authTime } = await adminAuth.verifyIdToken(match[1]));
+  } catch {
+    throw new GatewayError(401, 'unauthenticated', 'Invalid or expired ID token.');
+  }
+
+  const snapshot = await adminDb.collection('users').doc(uid).get();
+  const profile = snapshot.data() as UserProfile | undefined;
+  if (!profile) throw new GatewayError(403, 'forbidden', 'No profile found for this account.');
+  if (!profile.isApproved && !allowUnapproved) throw new GatewayError(403, 'not-approved', 'Your account is awaiting approval.');
+  if (!allowUnverified && !isSignInVerified(profile, authTime) && needsSecondFactor(profile, await loadSecuritySettings())) {
+    throw new GatewayError(403, 'mfa-required', 'Confirm your two-factor code first.');
+  }
+
+  return { uid, profile, authTime };
+};
+
+// Admin actions also need the sign-in behind the token to have passed the second factor.
+export const requireAdmin = (caller: Caller, message: string) => {
+  if (!isPrivileged(caller.profile)) throw new GatewayError(403, 'forbidden', message);
+  if (!isSignInVerified(caller.profile, caller.authTime)) {
+    throw new GatewayError(403, 'mfa-required', 'Confirm your two-factor code before using admin tools.');
+  }
+};
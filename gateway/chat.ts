@@ -0,0 +1,68 @@
+import { GatewayError } from './errors';
+import { Caller } from './auth';
+import { AiProvider, getProvider } from './aiProviders';
+import { consumeAiQuota } from './quota';
+import { loadLookupSource } from './history';
+import { GatewayChatResponse } from '../types';
+import { getDefaultModel, isAiEnabled } from '../services/aiPrompt';
+import { buildChatPrompt, ChatSource, MAX_CHAT_SOURCES } from '../services/chatPrompt';
+
+export interface ChatRequestBody {
+  sources?: unknown; // Lookup ids; the first one is the lookup the conversation belongs to
+  messages?: unknown; // [{ role, text }], ending with the analyst's question
+}
+
+export interface PreparedChat {
+  provider: AiProvider;
+  model: string;
+  prompt: string;
+  question: string;
+  data: any;
+}
+
+const MAX_QUESTION_CHARS = 2000;
+
+export const prepareChat = async (body: ChatRequestBody, caller: Caller): Promise<PreparedChat> => {
+  if (!Array.isArray(body.sources) || !body.sources.length || body.sources.length > MAX_CHAT_SOURCES) {
+    throw new GatewayError(400, 'invalid-sources', `Between 1 and ${MAX_CHAT_SOURCES} sources are required.`);
+  }
+  const messages = (Array.isArray(body.messages) ? body.messages : [])
+    .filter((m: any) => m && (m.role === 'user' || m.role === 'assistant') && typeof m.text === 'string')
+    .map((m: any) => ({ role: m.role as 'user' | 'assistant', text: m.text.slice(0, MAX_QUESTION_CHARS * 4) }));
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user' || !last.text.trim()) {
+    throw new GatewayError(400, 'invalid-question', 'The conversation must end with a question.');
+  }
+  if (last.text.length > MAX_QUESTION_CHARS) throw new GatewayError(400, 'invalid-question', 'The question is too long.');
+
+  const loaded = await Promise.all(body.sources.map(lookupId => loadLookupSource(lookupId, caller)));
+  const primary = loaded[0].tool;
+  if (!isAiEnabled(primary)) throw new GatewayError(400, 'ai-disabled', 'AI analysis is turned off for this tool.');
+
+  const sources: ChatSource[] = loaded.map(({ tool, lookup, data }) => ({ toolName: tool.name, params: lookup.params, data }));
+  const provider = getProvider(primary.ai?.provider);
+  await consumeAiQuota(caller.profile);
+  return {
+    provider,
+    model: primary.ai?.model || getDefaultModel(provider.id),
+    prompt: buildChatPrompt(sources, messages),
+    question: last.text.trim(),
+    data: sources[0].data
+  };
+};
+
+export const generateChatAnswer = async (
+  { provider, model, prompt, question, data }: PreparedChat,
+  onChunk: (text: string) => void = () => {},
+  signal: AbortSignal = new AbortController().signal
+): Promise<GatewayChatResponse> => {
+  try {
+    const text = await provider.stream({ model, prompt, data, signal, question }, onChunk);
+    return { text, provider: provider.id, model };
+  } catch (err: any) {
+    if (err instanceof GatewayError) throw err;
+    const timedOut = err?.name === 'TimeoutError';
+    if (!signal.aborted) console.error('AI provider failure:', err);
+    throw new GatewayError(502, timedOut ? 'ai-timeout' : 'ai-upstream-error', timedOut ? 'The AI provider did not respond in time.' : 'The AI provider request failed.');
+  }
+};
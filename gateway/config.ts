@@ -0,0 +1,22 @@
+import { AiProviderId } from '../types';
+
+// The Admin SDK talks to the emulators when FIRESTORE_EMULATOR_HOST / FIREBASE_AUTH_EMULATOR_HOST are set.
+export const config = {
+  port: Number(process.env.GATEWAY_PORT || 8787),
+  projectId: process.env.FIREBASE_PROJECT_ID || 'flexer-osint',
+  allowedOrigin: process.env.GATEWAY_ALLOWED_ORIGIN || '*',
+  upstreamTimeoutMs: Number(process.env.GATEWAY_UPSTREAM_TIMEOUT_MS || 15000),
+  // Lookups and tool test runs refuse private addresses unless this is set, e.g. for the local mock upstream.
+  allowPrivateUpstreams: process.env.GATEWAY_ALLOW_PRIVATE_UPSTREAMS === 'true',
+  maxUpstreamBytes: Number(process.env.GATEWAY_MAX_UPSTREAM_BYTES || 5 * 1024 * 1024),
+  maxBodyBytes: 64 * 1024,
+  // /chat/stream carries the whole conversation, so it accepts larger bodies.
+  maxChatBodyBytes: 512 * 1024,
+  ai: {
+    defaultProvider: (process.env.AI_DEFAULT_PROVIDER || 'gemini') as AiProviderId,
+    geminiApiKey: process.env.GEMINI_API_KEY || '',
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS || 60000)
+  }
+};
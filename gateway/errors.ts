@@ -0,0 +1,6 @@
+export class GatewayError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
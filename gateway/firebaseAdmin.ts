@@ -0,0 +1,10 @@
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { config } from './config';
+
+// Uses application default credentials in production and needs none against the emulators.
+const app = getApps()[0] || initializeApp({ projectId: config.projectId });
+
+export const adminAuth = getAuth(app);
+export const adminDb = getFirestore(app);
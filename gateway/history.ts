@@ -0,0 +1,35 @@
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { Caller, requireAdmin } from './auth';
+import { LookupResult, OSINTTool, StoredLookupResponse } from '../types';
+import { canUseTool } from '../services/access';
+import { decodeResponse } from '../services/responseCodec';
+
+export interface LookupSource {
+  lookup: LookupResult;
+  tool: OSINTTool;
+  stored: StoredLookupResponse;
+  data: any;
+}
+
+// Loads a lookup and its stored response for AI prompts, so the model only sees data a lookup actually
+// recorded, under the same access rules as history: your own lookups, or any lookup for admins.
+export const loadLookupSource = async (lookupId: unknown, caller: Caller): Promise<LookupSource> => {
+  if (typeof lookupId !== 'string' || !lookupId) throw new GatewayError(400, 'invalid-lookup', 'A lookupId is required.');
+  const [lookupSnapshot, responseSnapshot] = await Promise.all([
+    adminDb.collection('lookups').doc(lookupId).get(),
+    adminDb.collection('lookupResponses').doc(lookupId).get()
+  ]);
+  const lookup = lookupSnapshot.data() as LookupResult | undefined;
+  if (!lookup) throw new GatewayError(404, 'lookup-not-found', 'This lookup no longer exists.');
+  if (lookup.uid !== caller.uid) requireAdmin(caller, 'You can only analyze your own lookups.');
+  const stored = responseSnapshot.data() as StoredLookupResponse | undefined;
+  if (!stored) throw new GatewayError(404, 'response-not-found', 'This lookup has no stored response.');
+
+  const toolSnapshot = await adminDb.collection('tools').doc(lookup.toolId).get();
+  if (!toolSnapshot.exists) throw new GatewayError(404, 'tool-not-found', 'This tool no longer exists.');
+  const tool = { id: toolSnapshot.id, ...toolSnapshot.data() } as OSINTTool;
+  // Re-checked so AI cannot be used to read data from tools the caller lost access to.
+  if (!canUseTool(caller.profile, tool)) throw new GatewayError(403, 'tool-forbidden', 'You do not have access to this tool.');
+  return { lookup, tool, stored, data: decodeResponse(stored.body, stored.truncated) };
+};
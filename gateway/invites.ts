@@ -0,0 +1,61 @@
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { Caller } from './auth';
+import { recordGatewayAudit } from './audit';
+import { Invite, InviteRedeemResponse, UserProfile } from '../types';
+import { InviteStatus, getInviteStatus, normalizeInviteCode } from '../services/invites';
+
+export interface InviteRedeemBody {
+  code?: unknown;
+}
+
+const INVITE_ERRORS: Record<Exclude<InviteStatus, 'active'>, string> = {
+  expired: 'This invite has expired.',
+  exhausted: 'This invite has already been used.',
+  revoked: 'This invite has been revoked.'
+};
+
+// Approves the caller's new account with the invite's role and groups. Runs as a transaction so two
+// sign-ups cannot both take the last use.
+export const redeemInvite = async (body: InviteRedeemBody, caller: Caller): Promise<InviteRedeemResponse> => {
+  const code = typeof body.code === 'string' ? normalizeInviteCode(body.code) : '';
+  if (!code) throw new GatewayError(400, 'invalid-invite', 'An invite code is required.');
+
+  const inviteRef = adminDb.collection('invites').doc(code);
+  const userRef = adminDb.collection('users').doc(caller.uid);
+  const now = Date.now();
+  return adminDb.runTransaction(async (tx) => {
+    const invite = (await tx.get(inviteRef)).data() as Invite | undefined;
+    const profile = (await tx.get(userRef)).data() as UserProfile;
+    if (!invite) throw new GatewayError(404, 'invalid-invite', 'This invite code does not exist.');
+    if (profile.isApproved) throw new GatewayError(409, 'already-approved', 'Your account is already approved.');
+    const status = getInviteStatus(invite, now);
+    if (status !== 'active') throw new GatewayError(410, 'invalid-invite', INVITE_ERRORS[status]);
+
+    // Groups deleted since the invite was made are dropped rather than recreated as dangling ids.
+    const groupDocs = await Promise.all(invite.groups.map(id => tx.get(adminDb.collection('groups').doc(id))));
+    const groups = groupDocs.filter(d => d.exists).map(d => d.id);
+
+    tx.update(inviteRef, {
+      uses: invite.uses + 1,
+      redemptions: [...invite.redemptions, { uid: caller.uid, email: profile.email, at: now }]
+    });
+    // Role and groups come from the invite alone, so nothing the account wrote for itself survives approval.
+    tx.update(userRef, {
+      isApproved: true,
+      isAdmin: invite.role === 'admin',
+      isOwner: false,
+      groups,
+      inviteCode: code
+    });
+    await recordGatewayAudit(caller, {
+      action: 'invite.redeem',
+      targetType: 'invite',
+      targetId: code,
+      targetLabel: profile.email,
+      before: { isApproved: false },
+      after: { isApproved: true, isAdmin: invite.role === 'admin', groups }
+    }, tx);
+    return { role: invite.role, groups };
+  });
+};
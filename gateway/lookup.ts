@@ -0,0 +1,153 @@
+import { adminDb } from './firebaseAdmin';
+import { config } from './config';
+import { GatewayError } from './errors';
+import { Caller, requireAdmin } from './auth';
+import { consumeQuota } from './quota';
+import { assertPublicUpstream } from './upstreamGuard';
+import { CachedResult, OSINTTool, ToolDraft, ToolSecrets, GatewayLookupResponse } from '../types';
+import { getToolParams, validateParams } from '../services/toolSchema';
+import { buildToolRequest } from '../services/requestBuilder';
+import { canUseTool } from '../services/access';
+import { buildCacheKey, createCacheEntry, isCacheEnabled, isCacheFresh, readCacheEntry, runsOnGateway } from '../services/resultCache';
+
+export interface LookupRequestBody {
+  toolId?: unknown;
+  params?: unknown;
+  refresh?: unknown; // Skip the result cache and overwrite it
+  draft?: unknown; // Run the unpublished draft from toolDrafts; admins only, never cached
+}
+
+const loadTool = async (toolId: string, draft: boolean): Promise<OSINTTool> => {
+  const snapshot = await adminDb.collection(draft ? 'toolDrafts' : 'tools').doc(toolId).get();
+  if (!snapshot.exists) {
+    throw draft
+      ? new GatewayError(404, 'draft-not-found', 'This tool has no draft.')
+      : new GatewayError(404, 'tool-not-found', 'This tool no longer exists.');
+  }
+  let tool: OSINTTool;
+  if (draft) {
+    const data = snapshot.data() as ToolDraft;
+    tool = { ...data.config, id: toolId, version: data.baseVersion };
+  } else {
+    tool = { id: snapshot.id, ...snapshot.data() } as OSINTTool;
+  }
+  // Cached and quota-limited direct tools land here too, so every path below runs the upstream guard.
+  if (!runsOnGateway(tool, draft)) throw new GatewayError(400, 'gateway-disabled', 'This tool is not configured to run through the gateway.');
+  return tool;
+};
+
+export const loadSecrets = async (toolId: string): Promise<Record<string, string>> => {
+  const snapshot = await adminDb.collection('toolSecrets').doc(toolId).get();
+  return (snapshot.data() as ToolSecrets | undefined)?.values || {};
+};
+
+export const parseParams = (params: unknown): Record<string, string> => {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    throw new GatewayError(400, 'invalid-params', 'Parameters must be an object.');
+  }
+  return Object.fromEntries(Object.entries(params).map(([k, v]) => [k, typeof v === 'string' ? v : String(v ?? '')]));
+};
+
+const tooLarge = () => new GatewayError(502, 'upstream-too-large', 'The provider response is too large.');
+
+// Reads the body in chunks and stops at maxUpstreamBytes, since a declared Content-Length can be missing or wrong.
+const readBodyText = async (response: Response) => {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > config.maxUpstreamBytes) throw tooLarge();
+  if (!response.body) return '';
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > config.maxUpstreamBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+export const readResponse = async (response: Response) => {
+  const contentType = response.headers.get('content-type') || '';
+  const text = await readBodyText(response);
+  const sizeBytes = Buffer.byteLength(text);
+  try {
+    return { contentType, sizeBytes, data: JSON.parse(text) };
+  } catch {
+    return { contentType, sizeBytes, data: text };
+  }
+};
+
+// Builds the provider request from the tool and resolved values and calls it with the upstream timeout.
+// beforeFetch sees the final URL, so callers can vet it once placeholders are filled.
+export const callUpstream = async (tool: OSINTTool, values: Record<string, string>, beforeFetch?: (url: string) => Promise<void>, init: RequestInit = {}) => {
+  let request;
+  try {
+    request = buildToolRequest(tool, values);
+  } catch (err: any) {
+    throw new GatewayError(500, 'tool-misconfigured', err.message);
+  }
+
+  await beforeFetch?.(request.url);
+  const started = Date.now();
+  try {
+    const response = await fetch(request.url, { ...request.init, ...init, signal: AbortSignal.timeout(config.upstreamTimeoutMs) });
+    return { response, durationMs: Date.now() - started };
+  } catch (err: any) {
+    const timedOut = err?.name === 'TimeoutError';
+    throw new GatewayError(502, timedOut ? 'upstream-timeout' : 'upstream-unreachable', timedOut ? 'The provider did not respond in time.' : 'Could not reach the provider.');
+  }
+};
+
+export const runLookup = async (body: LookupRequestBody, caller: Caller): Promise<GatewayLookupResponse> => {
+  if (typeof body.toolId !== 'string' || !body.toolId) {
+    throw new GatewayError(400, 'invalid-tool', 'A toolId is required.');
+  }
+  const draft = body.draft === true;
+  if (draft) requireAdmin(caller, 'Only admins can run tool drafts.');
+  const tool = await loadTool(body.toolId, draft);
+  if (!canUseTool(caller.profile, tool)) {
+    throw new GatewayError(403, 'tool-forbidden', 'You do not have access to this tool.');
+  }
+  const params = parseParams(body.params);
+
+  const errors = validateParams(getToolParams(tool), params);
+  if (Object.keys(errors).length > 0) {
+    throw new GatewayError(400, 'invalid-params', Object.values(errors).join(' '));
+  }
+
+  // Cache hits are served after the access check but before quota, since they cost the provider nothing.
+  const cacheRef = isCacheEnabled(tool) && !draft ? adminDb.collection('lookupCache').doc(await buildCacheKey(tool, params)) : null;
+  if (cacheRef && body.refresh !== true) {
+    const entry = (await cacheRef.get()).data() as CachedResult | undefined;
+    if (entry && isCacheFresh(entry, tool)) {
+      const { data, info } = readCacheEntry(entry);
+      return { status: 200, contentType: 'application/json', durationMs: 0, data, cache: info };
+    }
+  }
+
+  await consumeQuota(caller.profile, tool);
+
+  // Only declared parameters reach the templates, so callers cannot override secret placeholders.
+  const values: Record<string, string> = {};
+  getToolParams(tool).forEach(p => { values[p.name] = params[p.name] || ''; });
+  Object.assign(values, await loadSecrets(tool.id));
+
+  // Parameters can fill the host part of the URL, so the final address is vetted and redirects are not followed.
+  const { response, durationMs } = await callUpstream(tool, values, assertPublicUpstream, { redirect: 'manual' });
+  const { contentType, data } = await readResponse(response);
+  if (cacheRef && response.ok) {
+    await cacheRef.set(createCacheEntry(tool, params, data, 'gateway')).catch(err => console.error('Result cache write failed:', err));
+  }
+
+  return {
+    status: response.status,
+    contentType,
+    durationMs,
+    data
+  };
+};
@@ -0,0 +1,132 @@
+import { Transaction } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { Caller, requireAdmin } from './auth';
+import { recordGatewayAudit } from './audit';
+import { MfaEnrollResponse, MfaRecoveryCodesResponse, MfaSecrets, MfaVerifyResponse, UserProfile } from '../types';
+import { buildOtpauthUrl, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotp } from '../services/totp';
+import { addVerifiedSignIn, isLockedOut, recordFailedAttempt } from '../services/mfa';
+
+export interface MfaRequestBody {
+  code?: unknown; // A TOTP code, or a recovery code where accepted
+  uid?: unknown; // Account to reset, owner only
+}
+
+type CodeCheck<T> = { ok: true; value: T } | { ok: false; error: GatewayError };
+
+const secretsRef = (uid: string) => adminDb.collection('mfaSecrets').doc(uid);
+const userRef = (uid: string) => adminDb.collection('users').doc(uid);
+
+const readCode = (body: MfaRequestBody) => {
+  if (typeof body.code !== 'string' || !body.code.trim()) throw new GatewayError(400, 'invalid-code', 'A code is required.');
+  return body.code.trim();
+};
+
+// Checks a code against the stored secret (and the recovery codes, if allowed) and then runs apply in the
+// same transaction. Wrong codes are counted before the error is thrown, so failures still lock the account.
+const withVerifiedCode = async <T>(
+  uid: string,
+  code: string,
+  allowRecovery: boolean,
+  apply: (tx: Transaction, user: UserProfile, method: MfaVerifyResponse['method'], recoveryCodeHashes: string[]) => T | Promise<T>
+) => {
+  const now = Date.now();
+  const result = await adminDb.runTransaction(async (tx): Promise<CodeCheck<T>> => {
+    const secrets = (await tx.get(secretsRef(uid))).data() as MfaSecrets | undefined;
+    const user = (await tx.get(userRef(uid))).data() as UserProfile;
+    if (!secrets?.secret) return { ok: false, error: new GatewayError(409, 'mfa-not-enabled', 'Two-factor authentication is not set up.') };
+    if (isLockedOut(secrets, now)) return { ok: false, error: new GatewayError(429, 'mfa-locked', 'Too many wrong codes. Try again in a few minutes.') };
+
+    const step = await verifyTotp(secrets.secret, code, now, secrets.lastUsedStep);
+    let hashes = secrets.recoveryCodeHashes;
+    let method: MfaVerifyResponse['method'] = 'totp';
+    if (step === null) {
+      const hash = allowRecovery ? await hashRecoveryCode(code) : null;
+      if (!hash || !hashes.includes(hash)) {
+        tx.update(secretsRef(uid), recordFailedAttempt(secrets, now));
+        return { ok: false, error: new GatewayError(400, 'invalid-code', 'That code is not valid.') };
+      }
+      hashes = hashes.filter(h => h !== hash);
+      method = 'recovery';
+    }
+    tx.update(secretsRef(uid), { lastUsedStep: step ?? secrets.lastUsedStep, recoveryCodeHashes: hashes, failedAttempts: 0, lockedUntil: null });
+    return { ok: true, value: await apply(tx, user, method, hashes) };
+  });
+  if (!result.ok) throw result.error;
+  return result.value;
+};
+
+// Starts (or restarts) enrollment with a fresh secret; nothing changes for the account until a code confirms it.
+export const startMfaEnrollment = async (caller: Caller): Promise<MfaEnrollResponse> => {
+  if (caller.profile.mfa?.enabled) throw new GatewayError(409, 'mfa-enabled', 'Two-factor authentication is already on.');
+  const secret = generateTotpSecret();
+  const secrets: MfaSecrets = { secret: null, pendingSecret: secret, recoveryCodeHashes: [], lastUsedStep: -1, failedAttempts: 0, lockedUntil: null };
+  await secretsRef(caller.uid).set(secrets);
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, caller.profile.email) };
+};
+
+// Turns the second factor on and counts the current sign-in as verified.
+export const confirmMfaEnrollment = async (body: MfaRequestBody, caller: Caller): Promise<MfaRecoveryCodesResponse> => {
+  const code = readCode(body);
+  const now = Date.now();
+  const recoveryCodes = generateRecoveryCodes();
+  const recoveryCodeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+  await adminDb.runTransaction(async (tx) => {
+    const secrets = (await tx.get(secretsRef(caller.uid))).data() as MfaSecrets | undefined;
+    if (!secrets?.pendingSecret) throw new GatewayError(409, 'no-enrollment', 'Start enrollment first.');
+    const step = await verifyTotp(secrets.pendingSecret, code, now);
+    if (step === null) throw new GatewayError(400, 'invalid-code', 'That code is not valid. Check that the time on your device is correct.');
+    tx.set(secretsRef(caller.uid), { ...secrets, secret: secrets.pendingSecret, pendingSecret: null, recoveryCodeHashes, lastUsedStep: step });
+    tx.update(userRef(caller.uid), { mfa: { enabled: true, enrolledAt: now, recoveryCodesLeft: recoveryCodes.length, verifiedAuthTimes: [caller.authTime] } });
+    await recordGatewayAudit(caller, {
+      action: 'user.mfa',
+      targetType: 'user',
+      targetId: caller.uid,
+      targetLabel: caller.profile.email,
+      before: { enabled: false },
+      after: { enabled: true }
+    }, tx);
+  });
+  return { recoveryCodes };
+};
+
+export const verifyMfa = (body: MfaRequestBody, caller: Caller): Promise<MfaVerifyResponse> => {
+  return withVerifiedCode(caller.uid, readCode(body), true, (tx, user, method, hashes) => {
+    tx.update(userRef(caller.uid), { 'mfa.verifiedAuthTimes': addVerifiedSignIn(user.mfa, caller.authTime), 'mfa.recoveryCodesLeft': hashes.length });
+    return { method, recoveryCodesLeft: hashes.length };
+  });
+};
+
+// Replaces every recovery code. Needs a code from the authenticator, not a recovery code.
+export const regenerateRecoveryCodes = async (body: MfaRequestBody, caller: Caller): Promise<MfaRecoveryCodesResponse> => {
+  const recoveryCodes = generateRecoveryCodes();
+  const recoveryCodeHashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+  return withVerifiedCode(caller.uid, readCode(body), false, (tx) => {
+    tx.update(secretsRef(caller.uid), { recoveryCodeHashes });
+    tx.update(userRef(caller.uid), { 'mfa.recoveryCodesLeft': recoveryCodes.length });
+    return { recoveryCodes };
+  });
+};
+
+// Lets the owner recover an account whose authenticator and recovery codes are lost. It enrolls again on next sign-in.
+export const resetMfa = async (body: MfaRequestBody, caller: Caller) => {
+  requireAdmin(caller, 'Only the owner can reset two-factor authentication.');
+  if (!caller.profile.isOwner) throw new GatewayError(403, 'forbidden', 'Only the owner can reset two-factor authentication.');
+  if (typeof body.uid !== 'string' || !body.uid) throw new GatewayError(400, 'invalid-uid', 'A user id is required.');
+  if (body.uid === caller.uid) throw new GatewayError(400, 'invalid-uid', 'Use a recovery code to regain access to your own account.');
+  const target = (await userRef(body.uid).get()).data() as UserProfile | undefined;
+  if (!target) throw new GatewayError(404, 'user-not-found', 'This account no longer exists.');
+  const batch = adminDb.batch();
+  batch.delete(secretsRef(body.uid));
+  batch.update(userRef(body.uid), { mfa: null });
+  await recordGatewayAudit(caller, {
+    action: 'user.mfa',
+    targetType: 'user',
+    targetId: body.uid,
+    targetLabel: target.email,
+    before: { enabled: !!target.mfa?.enabled, recoveryCodesLeft: target.mfa?.recoveryCodesLeft ?? null },
+    after: { enabled: false }
+  }, batch);
+  await batch.commit();
+  return { ok: true };
+};
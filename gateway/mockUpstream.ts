@@ -0,0 +1,65 @@
+import { createServer } from 'node:http';
+
+// Stand-in for third-party OSINT providers so the gateway can be exercised without network access.
+//   /echo         returns the method, path, query, headers and body it received
+//   /breach       canned breach records for ?email=
+//   /status/:code responds with that HTTP status
+//   /slow?ms=     waits before answering, for timeout checks
+//   /sequence     a record list for ?key= that gains an entry and a new revision on every call, for watch diffs
+const port = Number(process.env.MOCK_UPSTREAM_PORT || 4010);
+const sequences = new Map<string, number>();
+
+createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/echo') {
+      return reply(200, {
+        method: req.method,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8')
+      });
+    }
+
+    if (url.pathname === '/breach') {
+      const email = url.searchParams.get('email') || '';
+      return reply(200, {
+        email,
+        breaches: email.endsWith('@example.com')
+          ? [{ name: 'ExampleLeak', date: '2021-03-04', fields: ['email', 'password'] }]
+          : []
+      });
+    }
+
+    if (url.pathname === '/sequence') {
+      const key = url.searchParams.get('key') || 'default';
+      const revision = (sequences.get(key) || 0) + 1;
+      sequences.set(key, revision);
+      return reply(200, {
+        key,
+        revision,
+        records: Array.from({ length: revision }, (_, i) => ({ id: i + 1, seen: `2024-01-${String(i + 1).padStart(2, '0')}` }))
+      });
+    }
+
+    const status = /^\/status\/(\d{3})$/.exec(url.pathname);
+    if (status) return reply(Number(status[1]), { status: Number(status[1]) });
+
+    if (url.pathname === '/slow') {
+      setTimeout(() => reply(200, { slow: true }), Number(url.searchParams.get('ms') || 30000));
+      return;
+    }
+
+    reply(404, { error: 'not found' });
+  });
+}).listen(port, () => {
+  console.log(`Mock upstream listening on :${port}`);
+});
@@ -0,0 +1,54 @@
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { OSINTTool, QuotaSettings, UsageCounter, UserProfile } from '../types';
+import { QuotaCheck, findExceededLimit, getUsagePeriods, resolveUserLimits, usageCounterId } from '../services/quota';
+
+type LabelledCheck = QuotaCheck & { label: string; unit?: string };
+
+const loadSettings = async () => ((await adminDb.collection('settings').doc('quotas').get()).data() as QuotaSettings | undefined) || { defaults: {} };
+
+const consumeCounters = async (checks: LabelledCheck[]) => {
+  const periods = getUsagePeriods();
+  await adminDb.runTransaction(async (tx) => {
+    const refs = checks.map(c => ({
+      check: c,
+      day: adminDb.collection('usage').doc(usageCounterId(c.scope, c.subjectId, periods.day)),
+      month: adminDb.collection('usage').doc(usageCounterId(c.scope, c.subjectId, periods.month))
+    }));
+    const snapshots = await tx.getAll(...refs.flatMap(r => [r.day, r.month]));
+    const counts = refs.map((r, i) => ({
+      ...r,
+      dayCount: (snapshots[i * 2].data() as UsageCounter | undefined)?.count || 0,
+      monthCount: (snapshots[i * 2 + 1].data() as UsageCounter | undefined)?.count || 0
+    }));
+
+    counts.forEach(c => {
+      const exceeded = findExceededLimit(c.check, c.dayCount, c.monthCount, c.check.label, c.check.unit);
+      if (exceeded) throw new GatewayError(429, 'quota-exceeded', exceeded);
+    });
+
+    counts.forEach(c => {
+      const base = { scope: c.check.scope, subjectId: c.check.subjectId };
+      tx.set(c.day, { ...base, period: periods.day, count: c.dayCount + 1 });
+      tx.set(c.month, { ...base, period: periods.month, count: c.monthCount + 1 });
+    });
+  });
+};
+
+// Mirrors consumeQuota in services/quotaService.ts with the Admin SDK so gateway tools cannot bypass it.
+export const consumeQuota = async (profile: UserProfile, tool: OSINTTool) => {
+  const settings = await loadSettings();
+  await consumeCounters([
+    { scope: 'user', subjectId: profile.uid, limits: resolveUserLimits(profile.quota, settings.defaults), label: 'your' },
+    { scope: 'tool', subjectId: tool.id, limits: tool.quota || {}, label: `the "${tool.name}" tool` }
+  ]);
+};
+
+// AI calls cost provider tokens, so each summary or chat answer is counted on its own counter, capped at the
+// caller's lookup limits. Only the gateway writes it.
+export const consumeAiQuota = async (profile: UserProfile) => {
+  const settings = await loadSettings();
+  await consumeCounters([
+    { scope: 'ai', subjectId: profile.uid, limits: resolveUserLimits(profile.quota, settings.defaults), label: 'your AI', unit: 'requests' }
+  ]);
+};
@@ -0,0 +1,63 @@
+import { adminAuth, adminDb } from './firebaseAdmin';
+
+// Seeds the local emulators with an approved analyst and a gateway tool that targets the mock upstream.
+if (!process.env.FIRESTORE_EMULATOR_HOST || !process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+  console.error('Refusing to seed: FIRESTORE_EMULATOR_HOST and FIREBASE_AUTH_EMULATOR_HOST must point at the emulators.');
+  process.exit(1);
+}
+
+const upstream = process.env.MOCK_UPSTREAM_URL || 'http://localhost:4010';
+
+const seed = async () => {
+  const email = 'analyst@example.com';
+  const user = await adminAuth.getUserByEmail(email).catch(() => adminAuth.createUser({ email, password: 'password123' }));
+  await adminDb.collection('users').doc(user.uid).set({
+    uid: user.uid,
+    email,
+    isAdmin: false,
+    isOwner: false,
+    isApproved: true,
+    lastSessionId: '',
+    authorizedSessions: [],
+    pendingSessionId: null
+  });
+
+  await adminDb.collection('tools').doc('mock-breach').set({
+    name: 'Mock Breach Check',
+    apiUrl: `${upstream}/breach?email={email}`,
+    description: 'Local mock provider.',
+    icon: 'fas fa-user-secret',
+    useProxy: true,
+    allowedGroups: [],
+    secretKeys: ['api_key'],
+    params: [{ name: 'email', label: 'Email', type: 'email', required: true }],
+    method: 'GET',
+    headers: [],
+    bodyType: 'none',
+    bodyTemplate: '',
+    auth: { type: 'apiKey', headerName: 'X-API-Key', apiKey: '{api_key}' }
+  });
+  await adminDb.collection('toolSecrets').doc('mock-breach').set({ values: { api_key: 'local-test-key' } });
+
+  await adminDb.collection('tools').doc('mock-sequence').set({
+    name: 'Mock Changing Feed',
+    apiUrl: `${upstream}/sequence?key={key}`,
+    description: 'Local mock provider whose answer changes on every call. Useful for trying watches.',
+    icon: 'fas fa-stream',
+    useProxy: true,
+    allowedGroups: [],
+    params: [{ name: 'key', label: 'Key', type: 'text', required: true }],
+    method: 'GET',
+    headers: [],
+    bodyType: 'none',
+    bodyTemplate: '',
+    auth: { type: 'none' }
+  });
+
+  console.log(`Seeded ${email} / password123 and tools "mock-breach" and "mock-sequence".`);
+};
+
+seed().then(() => process.exit(0), err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,154 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { config } from './config';
+import { GatewayError } from './errors';
+import { authenticate } from './auth';
+import { runLookup } from './lookup';
+import { runToolTest } from './toolTest';
+import { prepareAnalysis, generateAnalysis } from './analyze';
+import { prepareChat, generateChatAnswer } from './chat';
+import { confirmMfaEnrollment, regenerateRecoveryCodes, resetMfa, startMfaEnrollment, verifyMfa } from './mfa';
+import { redeemInvite } from './invites';
+import { GatewayStreamEvent } from '../types';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': config.allowedOrigin,
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+// Streams AI output events; the provider request is aborted when the client disconnects (e.g. presses Cancel).
+const streamEvents = async <T extends object>(
+  res: ServerResponse,
+  generate: (onChunk: (text: string) => void, signal: AbortSignal) => Promise<T>
+) => {
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', ...CORS_HEADERS });
+  const send = (event: GatewayStreamEvent<T>) => res.write(`${JSON.stringify(event)}\n`);
+  try {
+    const result = await generate(text => send({ type: 'chunk', text }), controller.signal);
+    send({ type: 'done', ...result });
+  } catch (err: any) {
+    if (controller.signal.aborted) return;
+    send(err instanceof GatewayError ? { type: 'error', code: err.code, message: err.message } : { type: 'error', code: 'internal', message: 'Gateway error.' });
+  }
+  res.end();
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes = config.maxBodyBytes): Promise<any> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new GatewayError(413, 'payload-too-large', 'Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(new GatewayError(400, 'invalid-json', 'Request body must be JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'OPTIONS') return sendJson(res, 204, null);
+  if (req.method === 'GET' && path === '/health') return sendJson(res, 200, { ok: true });
+
+  if (req.method === 'POST' && path === '/lookup') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await runLookup(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/test') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await runToolTest(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/analyze') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await generateAnalysis(await prepareAnalysis(body, caller)));
+  }
+
+  if (req.method === 'POST' && path === '/analyze/stream') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    const prepared = await prepareAnalysis(body, caller);
+    return streamEvents(res, (onChunk, signal) => generateAnalysis(prepared, onChunk, signal));
+  }
+
+  if (req.method === 'POST' && path === '/chat/stream') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req, config.maxChatBodyBytes);
+    const prepared = await prepareChat(body, caller);
+    return streamEvents(res, (onChunk, signal) => generateChatAnswer(prepared, onChunk, signal));
+  }
+
+  if (req.method === 'POST' && path === '/mfa/enroll') {
+    const caller = await authenticate(req.headers.authorization, { allowUnverified: true });
+    return sendJson(res, 200, await startMfaEnrollment(caller));
+  }
+
+  if (req.method === 'POST' && path === '/mfa/confirm') {
+    const caller = await authenticate(req.headers.authorization, { allowUnverified: true });
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await confirmMfaEnrollment(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/mfa/verify') {
+    const caller = await authenticate(req.headers.authorization, { allowUnverified: true });
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await verifyMfa(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/mfa/recovery-codes') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await regenerateRecoveryCodes(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/mfa/reset') {
+    const caller = await authenticate(req.headers.authorization);
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await resetMfa(body, caller));
+  }
+
+  if (req.method === 'POST' && path === '/invites/redeem') {
+    const caller = await authenticate(req.headers.authorization, { allowUnapproved: true });
+    const body = await readJsonBody(req);
+    return sendJson(res, 200, await redeemInvite(body, caller));
+  }
+
+  throw new GatewayError(404, 'not-found', 'Unknown route.');
+};
+
+export const server = createServer((req, res) => {
+  handle(req, res).catch(err => {
+    if (err instanceof GatewayError) {
+      sendJson(res, err.status, { error: { code: err.code, message: err.message } });
+      return;
+    }
+    console.error('Gateway failure:', err);
+    sendJson(res, 500, { error: { code: 'internal', message: 'Gateway error.' } });
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Lookup gateway listening on :${config.port}`);
+});
@@ -0,0 +1,76 @@
+import { adminDb } from './firebaseAdmin';
+import { GatewayError } from './errors';
+import { Caller, requireAdmin } from './auth';
+import { recordGatewayAudit } from './audit';
+import { callUpstream, loadSecrets, parseParams, readResponse } from './lookup';
+import { assertPublicUpstream } from './upstreamGuard';
+import { OSINTTool, ToolTestResponse } from '../types';
+import { getToolParams } from '../services/toolSchema';
+import { getToolTemplates } from '../services/requestBuilder';
+
+export interface ToolTestRequestBody {
+  toolId?: unknown; // Set when testing edits to a saved tool, so its stored secrets apply
+  tool?: unknown; // The configuration as currently shown in the editor
+  params?: unknown;
+  secrets?: unknown; // Values typed into the editor but not saved yet
+}
+
+const originOf = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// Stored secrets only go where the saved tool already sends them: the same origin, with the same headers,
+// auth and body. Otherwise a test could post them to any URL and read them back from the response.
+const matchesSavedTool = (tool: OSINTTool, saved: OSINTTool) => {
+  const origin = originOf(tool.apiUrl);
+  const sameTarget = origin ? origin === originOf(saved.apiUrl) : tool.apiUrl === saved.apiUrl;
+  return sameTarget
+    && (tool.bodyType || 'none') === (saved.bodyType || 'none')
+    && (tool.auth?.headerName || '') === (saved.auth?.headerName || '')
+    && JSON.stringify(getToolTemplates(tool).slice(1)) === JSON.stringify(getToolTemplates(saved).slice(1));
+};
+
+const loadStoredSecrets = async (toolId: unknown, tool: OSINTTool) => {
+  if (typeof toolId !== 'string' || !toolId) return null;
+  const snapshot = await adminDb.collection('tools').doc(toolId).get();
+  if (!snapshot.exists || !matchesSavedTool(tool, snapshot.data() as OSINTTool)) return null;
+  return loadSecrets(toolId);
+};
+
+// Runs a tool configuration once for the tool editor. Admins only; no quota, cache or history, but every run is audited.
+export const runToolTest = async (body: ToolTestRequestBody, caller: Caller): Promise<ToolTestResponse> => {
+  requireAdmin(caller, 'Only admins can test tools.');
+  if (!body.tool || typeof body.tool !== 'object' || typeof (body.tool as OSINTTool).apiUrl !== 'string') {
+    throw new GatewayError(400, 'invalid-tool', 'A tool configuration with an apiUrl is required.');
+  }
+  const tool = body.tool as OSINTTool;
+  const params = parseParams(body.params);
+  const typed = body.secrets && typeof body.secrets === 'object' ? parseParams(body.secrets) : {};
+
+  const values: Record<string, string> = {};
+  getToolParams(tool).forEach(p => { values[p.name] = params[p.name] || ''; });
+  const stored = await loadStoredSecrets(body.toolId, tool);
+  const missing = (tool.secretKeys || []).filter(k => !typed[k] && !stored?.[k]);
+  if (!stored && missing.length > 0) {
+    throw new GatewayError(400, 'secrets-required', `The endpoint, headers or body differ from the saved tool, so stored secrets are not used. Type values for: ${missing.join(', ')}.`);
+  }
+  (tool.secretKeys || []).forEach(k => { values[k] = typed[k] || stored?.[k] || ''; });
+
+  const { response, durationMs } = await callUpstream(tool, values, async (url) => {
+    await assertPublicUpstream(url);
+    await recordGatewayAudit(caller, {
+      action: 'tool.test',
+      targetType: 'tool',
+      targetId: typeof body.toolId === 'string' && body.toolId ? body.toolId : 'unsaved',
+      targetLabel: tool.name || 'Unsaved tool',
+      before: null,
+      after: { target: originOf(url), method: tool.method || 'GET', storedSecrets: (tool.secretKeys || []).filter(k => !typed[k] && stored?.[k]) }
+    });
+  }, { redirect: 'manual' });
+  const { contentType, sizeBytes, data } = await readResponse(response);
+  return { status: response.status, contentType, durationMs, sizeBytes, data };
+};
@@ -0,0 +1,53 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { config } from './config';
+import { GatewayError } from './errors';
+
+const isPrivateIpv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && (b === 168 || b === 0))
+    || (a === 198 && (b === 18 || b === 19));
+};
+
+const isPrivateIpv6 = (address: string) => {
+  const lower = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (mapped) return isPrivateIpv4(mapped[1]);
+  // new URL() rewrites [::ffff:127.0.0.1] as [::ffff:7f00:1].
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(lower);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith('ff');
+};
+
+export const isPrivateAddress = (address: string) => (isIP(address) === 6 ? isPrivateIpv6(address) : isPrivateIpv4(address));
+
+// Refuses URLs that resolve to loopback, private, link-local or metadata addresses, so neither an admin-supplied
+// URL nor a member's parameters can make the gateway read its own network. GATEWAY_ALLOW_PRIVATE_UPSTREAMS lifts
+// this for local mocks.
+export const assertPublicUpstream = async (url: string) => {
+  if (config.allowPrivateUpstreams) return;
+  let hostname: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+    hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    throw new GatewayError(400, 'invalid-url', 'The tool URL must be an http or https address.');
+  }
+  let addresses: { address: string }[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname }] : await lookup(hostname, { all: true });
+  } catch {
+    throw new GatewayError(502, 'upstream-unreachable', 'Could not resolve the provider host.');
+  }
+  if (addresses.some(a => isPrivateAddress(a.address))) {
+    throw new GatewayError(400, 'private-upstream', 'Tools cannot target private, loopback or link-local addresses.');
+  }
+};
@@ -0,0 +1,12 @@
+import { OSINTTool, UserProfile } from '../types';
+
+// Shared by the dashboard and the lookup gateway, so it must not import the Firebase client.
+
+export const isPrivileged = (profile: Pick<UserProfile, 'isAdmin' | 'isOwner'>) => !!(profile.isAdmin || profile.isOwner);
+
+// Tools without allowedGroups stay open to every approved user, which keeps pre-group tools working.
+export const canUseTool = (profile: UserProfile, tool: Pick<OSINTTool, 'allowedGroups'>) => {
+  if (isPrivileged(profile)) return true;
+  if (!tool.allowedGroups || tool.allowedGroups.length === 0) return true;
+  return tool.allowedGroups.some(g => profile.groups?.includes(g));
+};
@@ -0,0 +1,54 @@
+import { AiProviderId, OSINTTool } from '../types';
+import { fillTemplate } from './toolSchema';
+import { flattenJson, formatPathKey } from './jsonPath';
+
+export const AI_PROVIDERS: { id: AiProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview' },
+  { id: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini' },
+  { id: 'stub', label: 'Offline stub', defaultModel: 'stub-1' }
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = 'Analyze this OSINT lookup JSON data from the "{tool}" tool ({params}) and provide a professional summary of findings, security risks, and key insights: {data}';
+
+export const PROMPT_PLACEHOLDERS = ['tool', 'params', 'data'];
+
+// Large responses are cut so prompts stay inside provider context limits.
+const MAX_PROMPT_DATA_CHARS = 100_000;
+
+export const isAiEnabled = (tool: Pick<OSINTTool, 'ai'>) => tool.ai?.enabled !== false;
+
+export const getDefaultModel = (provider: AiProviderId) => AI_PROVIDERS.find(p => p.id === provider)?.defaultModel || '';
+
+export const renderPrompt = (template: string, tool: Pick<OSINTTool, 'name'>, params: Record<string, string>, data: any) => {
+  const encoded = typeof data === 'string' ? data : JSON.stringify(data) ?? 'null';
+  return fillTemplate(template, {
+    tool: tool.name,
+    params: Object.entries(params).map(([k, v]) => `${k}=${v}`).join(', ') || 'no parameters',
+    data: encoded.length > MAX_PROMPT_DATA_CHARS ? `${encoded.slice(0, MAX_PROMPT_DATA_CHARS)}… [truncated]` : encoded
+  }, v => v);
+};
+
+const STUB_PATTERNS: { type: string; pattern: RegExp }[] = [
+  { type: 'email', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  { type: 'ip', pattern: /^(\d{1,3}\.){3}\d{1,3}$/ },
+  { type: 'domain', pattern: /^([a-z0-9-]+\.)+[a-z]{2,}$/i }
+];
+
+// Deterministic structured output for tests and offline demos: the same data always yields the same analysis.
+export const stubAnalysis = (prompt: string, data: any) => {
+  const leaves = flattenJson(data);
+  const entities = leaves
+    .filter(leaf => typeof leaf.value === 'string')
+    .flatMap(leaf => STUB_PATTERNS.filter(p => p.pattern.test(leaf.value.trim())).slice(0, 1).map(p => ({ type: p.type, value: leaf.value.trim() })))
+    .filter((e, i, all) => all.findIndex(o => o.value === e.value) === i)
+    .slice(0, 20);
+  const topLevel = data && typeof data === 'object' && !Array.isArray(data) ? Object.keys(data).slice(0, 5) : [];
+  const level = leaves.length > 100 ? 'high' : leaves.length > 20 ? 'medium' : 'low';
+  return JSON.stringify({
+    summary: `Offline analysis (stub provider) of ${leaves.length} value(s) from a ${prompt.length}-character prompt.`,
+    entities,
+    risk: { level, justification: `Based only on response size (${leaves.length} values).` },
+    findings: topLevel.map(key => ({ title: `Field "${key}"`, detail: `The response contains "${key}".`, paths: [`$${formatPathKey(key)}`] })),
+    nextSteps: entities.length ? [`Pivot on ${entities[0].type} ${entities[0].value}.`] : ['Review the raw data.']
+  });
+};
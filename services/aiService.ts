@@ -0,0 +1,91 @@
+import { AnalysisStreamEvent, ChatMessage, ChatStreamEvent, OSINTTool, StructuredAnalysis } from '../types';
+import { streamFromGateway } from './gatewayClient';
+import { isAiEnabled } from './aiPrompt';
+
+export interface AnalysisResult {
+  text: string;
+  structured: StructuredAnalysis | null;
+  status: 'complete' | 'cancelled' | 'failed';
+  error?: string;
+}
+
+export interface AnalysisOptions {
+  focus?: string;
+  signal?: AbortSignal;
+  onChunk?: (textSoFar: string) => void;
+}
+
+// Provider keys live on the gateway, never in the client bundle. The gateway builds the prompt from the lookup's
+// stored response, so the lookup must have been saved. Returns null when the tool has AI turned off.
+// Text received before a cancel or failure is kept in the result.
+export const analyzeOSINTResult = async (
+  tool: OSINTTool,
+  lookupId: string,
+  { focus, signal, onChunk }: AnalysisOptions = {}
+): Promise<AnalysisResult | null> => {
+  if (!isAiEnabled(tool)) return null;
+  let text = '';
+  let done: Extract<AnalysisStreamEvent, { type: 'done' }> | null = null;
+
+  try {
+    await streamFromGateway<AnalysisStreamEvent>('/analyze/stream', { lookupId, focus }, event => {
+      if (event.type === 'chunk') {
+        text += event.text;
+        onChunk?.(text);
+      } else if (event.type === 'done') {
+        done = event;
+      } else {
+        throw Object.assign(new Error(event.message), { code: event.code });
+      }
+    }, signal);
+  } catch (error: any) {
+    if (signal?.aborted) return { text, structured: null, status: 'cancelled' };
+    console.error("AI analysis failure:", error);
+    const message = error?.code === 'ai-not-configured'
+      ? "Intelligence summary unavailable: AI provider not configured."
+      : error?.code === 'quota-exceeded' ? error.message : "Intelligence analysis interrupted. Raw data available.";
+    return { text, structured: null, status: 'failed', error: message };
+  }
+
+  const result = done as Extract<AnalysisStreamEvent, { type: 'done' }> | null;
+  if (!result) return { text, structured: null, status: 'failed', error: "The analysis stream ended unexpectedly." };
+  return {
+    text: result.text || "Lookup complete. No significant intelligence patterns detected by AI.",
+    structured: result.structured,
+    status: 'complete'
+  };
+};
+
+export interface ChatAnswer {
+  text: string;
+  status: 'complete' | 'cancelled' | 'failed';
+  error?: string;
+}
+
+// Asks a follow-up question; lookupIds[0] is the lookup the conversation belongs to. Partial answers are kept like analyses.
+export const askFollowUp = async (
+  lookupIds: string[],
+  messages: Pick<ChatMessage, 'role' | 'text'>[],
+  { signal, onChunk }: Omit<AnalysisOptions, 'focus'> = {}
+): Promise<ChatAnswer> => {
+  let text = '';
+  let finished = false;
+  try {
+    await streamFromGateway<ChatStreamEvent>('/chat/stream', { sources: lookupIds, messages }, event => {
+      if (event.type === 'chunk') {
+        text += event.text;
+        onChunk?.(text);
+      } else if (event.type === 'done') {
+        text = event.text;
+        finished = true;
+      } else {
+        throw Object.assign(new Error(event.message), { code: event.code });
+      }
+    }, signal);
+  } catch (error: any) {
+    if (signal?.aborted) return { text, status: 'cancelled' };
+    console.error("AI chat failure:", error);
+    return { text, status: 'failed', error: error?.message || "The answer was interrupted." };
+  }
+  return finished ? { text, status: 'complete' } : { text, status: 'failed', error: "The answer stream ended unexpectedly." };
+};
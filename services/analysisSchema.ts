@@ -0,0 +1,88 @@
+import { AnalysisEntity, AnalysisFinding, RiskLevel, StructuredAnalysis } from '../types';
+import { parseJsonPath } from './jsonPath';
+
+export const RISK_LEVELS: { id: RiskLevel; label: string }[] = [
+  { id: 'low', label: 'Low' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'high', label: 'High' },
+  { id: 'critical', label: 'Critical' }
+];
+
+// Appended to every rendered prompt so custom templates still produce parseable output.
+export const ANALYSIS_OUTPUT_INSTRUCTIONS = `
+
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "summary": "two or three sentence overview",
+  "entities": [{ "type": "email | domain | ip | username | phone | person | organization | other", "value": "..." }],
+  "risk": { "level": "low | medium | high | critical", "justification": "..." },
+  "findings": [{ "title": "...", "detail": "...", "paths": ["$.json.path.in.the.data"] }],
+  "nextSteps": ["..."]
+}
+Every finding must cite the JSONPath(s) of the data it is based on.`;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isValidPath = (path: string) => {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Models often wrap JSON in markdown fences or add a sentence around it; keep only the outermost object.
+const extractJson = (text: string) => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start === -1 || end <= start ? null : text.slice(start, end + 1);
+};
+
+// Returns null unless the text is an analysis object with the expected shape. Invalid JSONPaths are dropped.
+export const parseStructuredAnalysis = (text: string): StructuredAnalysis | null => {
+  const json = extractJson(text);
+  if (!json) return null;
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || !isString(raw.summary)) return null;
+  if (!raw.risk || !RISK_LEVELS.some(r => r.id === raw.risk.level) || !isString(raw.risk.justification)) return null;
+  if (![raw.entities, raw.findings, raw.nextSteps].every(Array.isArray)) return null;
+
+  const entities: AnalysisEntity[] = raw.entities
+    .filter((e: any) => e && isString(e.type) && isString(e.value) && e.value.trim())
+    .map((e: any) => ({ type: e.type.trim().toLowerCase(), value: e.value.trim() }));
+  const findings: AnalysisFinding[] = raw.findings
+    .filter((f: any) => f && isString(f.title) && isString(f.detail))
+    .map((f: any) => ({
+      title: f.title.trim(),
+      detail: f.detail.trim(),
+      paths: Array.isArray(f.paths) ? f.paths.filter(isString).filter(isValidPath) : []
+    }));
+
+  return {
+    summary: raw.summary.trim(),
+    entities,
+    risk: { level: raw.risk.level, justification: raw.risk.justification.trim() },
+    findings,
+    nextSteps: raw.nextSteps.filter(isString).map((s: string) => s.trim()).filter(Boolean)
+  };
+};
+
+export const analysisToText = (analysis: StructuredAnalysis) => {
+  const lines = [analysis.summary, '', `Risk: ${analysis.risk.level.toUpperCase()} — ${analysis.risk.justification}`];
+  if (analysis.entities.length) {
+    lines.push('', 'Entities:', ...analysis.entities.map(e => `- ${e.type}: ${e.value}`));
+  }
+  if (analysis.findings.length) {
+    lines.push('', 'Findings:', ...analysis.findings.map(f => `- ${f.title}: ${f.detail}${f.paths.length ? ` (${f.paths.join(', ')})` : ''}`));
+  }
+  if (analysis.nextSteps.length) {
+    lines.push('', 'Next steps:', ...analysis.nextSteps.map(s => `- ${s}`));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,110 @@
+import { collection, doc, serverTimestamp, DocumentData, DocumentReference, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from '../firebase';
+import { AuditAction, AuditEntry, OSINTTool, UserProfile } from '../types';
+import { csvCell } from './fileExport';
+
+export const AUDIT_ACTIONS: { id: AuditAction; label: string }[] = [
+  { id: 'user.approval', label: 'User approval' },
+  { id: 'user.admin', label: 'Admin role' },
+  { id: 'user.delete', label: 'User deleted' },
+  { id: 'tool.create', label: 'Tool created' },
+  { id: 'tool.update', label: 'Tool updated' },
+  { id: 'tool.delete', label: 'Tool deleted' },
+  { id: 'tool.draft', label: 'Tool draft' },
+  { id: 'tool.rollback', label: 'Tool rolled back' },
+  { id: 'tool.test', label: 'Tool tested' },
+  { id: 'session.authorize', label: 'Session authorized' },
+  { id: 'session.revoke', label: 'Session revoked' },
+  { id: 'user.quota', label: 'User quota' },
+  { id: 'settings.quota', label: 'Default quota' },
+  { id: 'user.deviceLimit', label: 'Device limit' },
+  { id: 'settings.sessions', label: 'Session settings' },
+  { id: 'user.mfa', label: 'Two-factor' },
+  { id: 'settings.security', label: 'Security settings' },
+  { id: 'user.groups', label: 'User groups' },
+  { id: 'group.create', label: 'Group created' },
+  { id: 'group.update', label: 'Group updated' },
+  { id: 'group.delete', label: 'Group deleted' },
+  { id: 'template.create', label: 'Prompt created' },
+  { id: 'template.update', label: 'Prompt updated' },
+  { id: 'template.delete', label: 'Prompt deleted' },
+  { id: 'invite.create', label: 'Invite created' },
+  { id: 'invite.revoke', label: 'Invite revoked' },
+  { id: 'invite.redeem', label: 'Invite redeemed' }
+];
+
+export interface AuditFilters {
+  actor: string;
+  target: string;
+  action: AuditAction | '';
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = { actor: '', target: '', action: '' };
+
+const REDACTED = '[redacted]';
+
+// Tool credentials must not leak into the audit trail; the fact that they changed is enough.
+export const redactTool = (tool: Partial<OSINTTool> | null | undefined) => {
+  if (!tool) return null;
+  const { auth, ...rest } = tool;
+  if (!auth) return rest;
+  return {
+    ...rest,
+    auth: {
+      ...auth,
+      ...(auth.token ? { token: REDACTED } : {}),
+      ...(auth.password ? { password: REDACTED } : {}),
+      ...(auth.apiKey ? { apiKey: REDACTED } : {})
+    }
+  };
+};
+
+// Firestore rejects undefined values, so snapshots are round-tripped through JSON.
+const toStorable = (value: any) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+export type AuditDraft = Omit<AuditEntry, 'id' | 'actorUid' | 'actorEmail' | 'timestamp'>;
+
+// A write batch or transaction; both can carry the entry.
+export interface AuditWriter {
+  set: (ref: DocumentReference<DocumentData>, data: DocumentData) => unknown;
+}
+
+// Lets a service add the audit entry to the batch or transaction it commits, once the result is known.
+export type AuditHook<T = void> = (writer: AuditWriter, result: T) => void;
+
+// Adds the entry to the batch or transaction that makes the audited change, so neither lands without the other.
+// The rules only accept entries written by the signed-in actor and stamped with the server's time.
+export const recordAudit = (actor: UserProfile, entry: AuditDraft, writer: AuditWriter) => {
+  const ref = doc(collection(db, 'auditLog'));
+  writer.set(ref, {
+    ...entry,
+    id: ref.id,
+    actorUid: actor.uid,
+    actorEmail: actor.email,
+    before: toStorable(entry.before),
+    after: toStorable(entry.after),
+    timestamp: serverTimestamp()
+  });
+};
+
+// Stored timestamps are Firestore timestamps; entries still being written read as the local estimate.
+export const readAuditEntry = (snapshot: QueryDocumentSnapshot): AuditEntry => {
+  const data = snapshot.data({ serverTimestamps: 'estimate' });
+  return { ...data, timestamp: data.timestamp?.toMillis?.() ?? data.timestamp } as AuditEntry;
+};
+
+export const filterAuditEntries = (entries: AuditEntry[], filters: AuditFilters) => {
+  const actor = filters.actor.trim().toLowerCase();
+  const target = filters.target.trim().toLowerCase();
+  return entries
+    .filter(e => !actor || e.actorEmail.toLowerCase().includes(actor) || e.actorUid === filters.actor.trim())
+    .filter(e => !target || e.targetLabel.toLowerCase().includes(target) || e.targetId === filters.target.trim())
+    .filter(e => !filters.action || e.action === filters.action)
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const auditToCsv = (entries: AuditEntry[]) => {
+  const columns: (keyof AuditEntry)[] = ['timestamp', 'actorEmail', 'actorUid', 'action', 'targetType', 'targetId', 'targetLabel', 'before', 'after'];
+  const rows = entries.map(e => columns.map(c => csvCell(c === 'timestamp' ? new Date(e.timestamp).toISOString() : e[c])).join(','));
+  return [columns.join(','), ...rows].join('\n');
+};
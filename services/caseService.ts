@@ -0,0 +1,104 @@
+import { collection, doc, onSnapshot, query, where, setDoc, updateDoc, deleteDoc, writeBatch, getDocs } from 'firebase/firestore';
+import { db } from '../firebase';
+import { CaseItem, CaseStatus, InvestigationCase, LookupResult, UserProfile } from '../types';
+import { encodeResponse } from './historyService';
+
+export const CASE_STATUSES: { id: CaseStatus; label: string }[] = [
+  { id: 'open', label: 'Open' },
+  { id: 'active', label: 'In progress' },
+  { id: 'closed', label: 'Closed' }
+];
+
+export type CaseDraft = Pick<InvestigationCase, 'title' | 'status' | 'assignees' | 'tags'> & { id?: string };
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Splits a comma or newline separated list, dropping blanks and duplicates.
+export const parseList = (text: string, normalize: (value: string) => string = v => v.trim()) => {
+  return Array.from(new Set(text.split(/[,\n]/).map(normalize).filter(Boolean)));
+};
+
+export const subscribeCases = (profile: UserProfile, onChange: (cases: InvestigationCase[]) => void) => {
+  return onSnapshot(query(collection(db, 'cases'), where('assignees', 'array-contains', normalizeEmail(profile.email))),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as InvestigationCase).sort((a, b) => b.updatedAt - a.updatedAt)),
+    (err) => console.error("Case sync failed:", err)
+  );
+};
+
+export const subscribeCaseItems = (caseId: string, onChange: (items: CaseItem[]) => void) => {
+  return onSnapshot(collection(db, 'cases', caseId, 'items'),
+    // A summary shares its lookup's timestamp; keep it right after the data it describes.
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as CaseItem).sort((a, b) => a.timestamp - b.timestamp || Number(a.kind === 'summary') - Number(b.kind === 'summary'))),
+    (err) => console.error("Case timeline sync failed:", err)
+  );
+};
+
+export const saveCase = async (profile: UserProfile, draft: CaseDraft, existing?: InvestigationCase) => {
+  const ownerEmail = existing?.ownerEmail || normalizeEmail(profile.email);
+  const data = {
+    title: draft.title.trim(),
+    status: draft.status,
+    assignees: Array.from(new Set([ownerEmail, ...draft.assignees.map(normalizeEmail)])),
+    tags: draft.tags,
+    updatedAt: Date.now()
+  };
+  if (existing) {
+    await updateDoc(doc(db, 'cases', existing.id), data);
+    return existing.id;
+  }
+  const ref = doc(collection(db, 'cases'));
+  const created: InvestigationCase = { ...data, id: ref.id, ownerUid: profile.uid, ownerEmail, createdAt: data.updatedAt };
+  await setDoc(ref, created);
+  return ref.id;
+};
+
+export const deleteCase = async (caseId: string) => {
+  const items = await getDocs(collection(db, 'cases', caseId, 'items'));
+  const batch = writeBatch(db);
+  items.docs.forEach(d => batch.delete(d.ref));
+  batch.delete(doc(db, 'cases', caseId));
+  await batch.commit();
+};
+
+const addItem = async (caseId: string, item: Omit<CaseItem, 'id'>) => {
+  const ref = doc(collection(db, 'cases', caseId, 'items'));
+  await setDoc(ref, { ...item, id: ref.id });
+  await updateDoc(doc(db, 'cases', caseId), { updatedAt: Date.now() });
+};
+
+export const addCaseNote = (profile: UserProfile, caseId: string, text: string) => {
+  return addItem(caseId, {
+    kind: 'note',
+    authorUid: profile.uid,
+    authorEmail: profile.email,
+    timestamp: Date.now(),
+    text: text.trim()
+  });
+};
+
+// Copies the lookup (and optionally its AI summary) into each case so members without access to the original can read it.
+export const attachLookup = async (
+  profile: UserProfile,
+  caseIds: string[],
+  lookup: LookupResult,
+  attach: { data?: any; summary?: string | null }
+) => {
+  const base = {
+    authorUid: profile.uid,
+    authorEmail: profile.email,
+    timestamp: lookup.timestamp,
+    lookupId: lookup.id,
+    toolId: lookup.toolId,
+    toolName: lookup.toolName,
+    params: lookup.params
+  };
+  const response = attach.data !== undefined ? encodeResponse(attach.data) : null;
+  for (const caseId of caseIds) {
+    if (response) await addItem(caseId, { ...base, kind: 'lookup', responseBody: response.body, truncated: response.truncated });
+    if (attach.summary) await addItem(caseId, { ...base, kind: 'summary', text: attach.summary });
+  }
+};
+
+export const removeCaseItem = async (caseId: string, itemId: string) => {
+  await deleteDoc(doc(db, 'cases', caseId, 'items', itemId));
+};
@@ -0,0 +1,81 @@
+import { ChatCitation, ChatMessage } from '../types';
+import { flattenJson, queryJsonPath } from './jsonPath';
+
+export interface ChatSource {
+  toolName: string;
+  params: Record<string, string>;
+  data: any;
+}
+
+export const MAX_CHAT_SOURCES = 5;
+
+// Older turns are dropped so long conversations stay inside provider context limits.
+const MAX_CHAT_TURNS = 20;
+const MAX_SOURCE_CHARS = 60_000;
+
+const CITATION_PATTERN = /\{\{S(\d+)\s+(\$[^}]*)\}\}/g;
+
+const encodeSource = (data: any) => {
+  const encoded = typeof data === 'string' ? data : JSON.stringify(data) ?? 'null';
+  return encoded.length > MAX_SOURCE_CHARS ? `${encoded.slice(0, MAX_SOURCE_CHARS)}… [truncated]` : encoded;
+};
+
+export const buildChatPrompt = (sources: ChatSource[], messages: Pick<ChatMessage, 'role' | 'text'>[]) => {
+  const sourceBlocks = sources.map((s, i) => {
+    const params = Object.entries(s.params).map(([k, v]) => `${k}=${v}`).join(', ') || 'no parameters';
+    return `Source S${i + 1}: "${s.toolName}" lookup (${params})\n${encodeSource(s.data)}`;
+  });
+  const transcript = messages.slice(-MAX_CHAT_TURNS).map(m => `${m.role === 'user' ? 'Analyst' : 'Assistant'}: ${m.text}`);
+  return [
+    'You are assisting an OSINT analyst with questions about lookup results.',
+    'Answer only from the data sources below. If the data does not contain the answer, say so.',
+    'Cite every fact with the source and JSONPath it came from, written exactly like {{S1 $.accounts[0].email}}.',
+    '',
+    ...sourceBlocks,
+    '',
+    ...transcript,
+    'Assistant:'
+  ].join('\n');
+};
+
+// Finds {{S<n> <path>}} markers and checks each path against the data of the source it names.
+export const extractCitations = (text: string, sources: { data: any }[]): ChatCitation[] => {
+  const seen = new Set<string>();
+  const citations: ChatCitation[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const source = Number(match[1]);
+    const path = match[2].trim();
+    const key = `${source} ${path}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    let valid = false;
+    try {
+      valid = source >= 1 && source <= sources.length && queryJsonPath(sources[source - 1].data, path).length > 0;
+    } catch {
+      valid = false;
+    }
+    citations.push({ source, path, valid });
+  }
+  return citations;
+};
+
+// Splits an answer into plain text and citation markers for rendering.
+export const splitCitations = (text: string): ({ text: string } | { source: number; path: string })[] => {
+  const parts: ({ text: string } | { source: number; path: string })[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index! > last) parts.push({ text: text.slice(last, match.index) });
+    parts.push({ source: Number(match[1]), path: match[2].trim() });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
+
+// Deterministic answer for the offline stub provider: quotes the first few values of the primary source.
+export const stubChatAnswer = (question: string, data: any) => {
+  const leaves = flattenJson(data).filter(leaf => leaf.value !== null && typeof leaf.value !== 'object').slice(0, 3);
+  if (!leaves.length) return `Offline answer (stub provider): the data does not contain anything to answer "${question}".`;
+  const facts = leaves.map(leaf => `${JSON.stringify(leaf.value)} {{S1 ${leaf.path}}}`).join(', ');
+  return `Offline answer (stub provider) to "${question}": the lookup contains ${facts}.`;
+};
@@ -0,0 +1,60 @@
+import { DevicePlatform, SessionMetadata } from '../types';
+
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  platform: DevicePlatform;
+}
+
+export const MAX_DEVICE_LABEL_LENGTH = 40;
+
+// Order matters: most browsers also claim to be Chrome or Safari, so the specific ones come first.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/(\d+)/, 'Edge'],
+  [/(?:OPR|Opera)\/(\d+)/, 'Opera'],
+  [/SamsungBrowser\/(\d+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/(\d+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/(\d+)/, 'Chrome'],
+  [/Version\/(\d+)[\d.]* (?:Mobile\/\w+ )?Safari\//, 'Safari']
+];
+
+const OPERATING_SYSTEMS: [RegExp, (m: RegExpMatchArray) => string][] = [
+  [/Windows NT 10/, () => 'Windows'],
+  [/Windows NT 6\.3/, () => 'Windows 8.1'],
+  [/Windows NT 6\.1/, () => 'Windows 7'],
+  [/Windows/, () => 'Windows'],
+  [/(?:iPhone|iPad|iPod).*? OS (\d+)/, m => `iOS ${m[1]}`],
+  [/Android (\d+(?:\.\d+)?)/, m => `Android ${m[1]}`],
+  [/CrOS/, () => 'ChromeOS'],
+  [/Mac OS X/, () => 'macOS'],
+  [/Linux/, () => 'Linux']
+];
+
+// iPadOS reports itself as a Mac, so the touch point count from the browser is needed to tell them apart.
+export const parseUserAgent = (userAgent: string, maxTouchPoints = 0): DeviceInfo => {
+  const browserMatch = BROWSERS.map(([pattern, name]) => ({ name, m: userAgent.match(pattern) })).find(b => b.m);
+  const osMatch = OPERATING_SYSTEMS.map(([pattern, name]) => ({ name, m: userAgent.match(pattern) })).find(o => o.m);
+  const isIpadOs = /Macintosh/.test(userAgent) && maxTouchPoints > 1;
+
+  let platform: DevicePlatform = 'desktop';
+  if (isIpadOs || /iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) platform = 'tablet';
+  else if (/Mobi|iPhone|iPod|Android/.test(userAgent)) platform = 'mobile';
+
+  return {
+    browser: browserMatch ? `${browserMatch.name} ${browserMatch.m![1]}` : 'Unknown browser',
+    os: isIpadOs ? 'iPadOS' : osMatch ? osMatch.name(osMatch.m!) : 'Unknown OS',
+    platform
+  };
+};
+
+export const summarizeDevice = (info: DeviceInfo) => `${info.browser} on ${info.os}`;
+
+// Sessions recorded before device details were kept only have deviceName.
+export const describeDevice = (session: SessionMetadata) => session.label || session.deviceName;
+
+export const deviceIcon = (session: SessionMetadata) => {
+  const platform = session.platform || (session.deviceName.toLowerCase().includes('mobile') ? 'mobile' : 'desktop');
+  return platform === 'mobile' ? 'fa-mobile-alt' : platform === 'tablet' ? 'fa-tablet-alt' : 'fa-laptop';
+};
+
+export const normalizeDeviceLabel = (label: string) => label.trim().slice(0, MAX_DEVICE_LABEL_LENGTH) || null;
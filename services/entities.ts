@@ -0,0 +1,122 @@
+import { EntityType, ExtractedEntity, OSINTTool, ToolParam } from '../types';
+import { flattenJson } from './jsonPath';
+import { getToolParams } from './toolSchema';
+
+export const ENTITY_TYPES: { id: EntityType; label: string; icon: string; className: string }[] = [
+  { id: 'email', label: 'Email', icon: 'fas fa-at', className: 'text-sky-300 bg-sky-500/10 border-sky-500/30' },
+  { id: 'phone', label: 'Phone', icon: 'fas fa-phone', className: 'text-green-300 bg-green-500/10 border-green-500/30' },
+  { id: 'domain', label: 'Domain', icon: 'fas fa-globe', className: 'text-purple-300 bg-purple-500/10 border-purple-500/30' },
+  { id: 'ip', label: 'IP Address', icon: 'fas fa-network-wired', className: 'text-orange-300 bg-orange-500/10 border-orange-500/30' },
+  { id: 'username', label: 'Username', icon: 'fas fa-user', className: 'text-pink-300 bg-pink-500/10 border-pink-500/30' }
+];
+
+export interface EntityMatch {
+  type: EntityType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Stricter than the input validators: result data is full of ids, dates and file names that would otherwise match.
+const EMAIL = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,63}$/;
+const IPV4 = /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/;
+const IPV6 = /^[0-9a-f:]{2,39}$/i;
+const DOMAIN = /^(?=.{4,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+const PHONE = /^\+[0-9\s\-().]{7,20}$/;
+const LOOSE_PHONE = /^[0-9\s\-().+]{7,20}$/;
+const USERNAME = /^@?[A-Za-z0-9._-]{2,64}$/;
+
+const PHONE_KEYS = /phone|tel|mobile|msisdn|cell/i;
+const USERNAME_KEYS = /^(user_?name|login|handle|screen_?name|nick(name)?|alias)$/i;
+const FILE_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp', 'js', 'css', 'json', 'html', 'htm', 'txt', 'pdf', 'xml', 'csv', 'zip', 'exe']);
+
+// Email, IPv4 and URL hosts are also found inside longer text such as descriptions and log lines.
+const EMBEDDED = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,63}|\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|https?:\/\/[A-Za-z0-9.-]+/g;
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+// The key a leaf value sits under, e.g. "email" for $.accounts[2].email.
+export const pathKey = (path: string) => {
+  const trimmed = path.replace(/(\[\d+\])+$/, '');
+  const match = trimmed.match(/\.([A-Za-z_$][A-Za-z0-9_$]*)$|\["((?:[^"\\]|\\.)*)"\]$/);
+  return match ? match[1] ?? match[2] : '';
+};
+
+export const classifyValue = (raw: string, key = ''): EntityType | null => {
+  const value = raw.trim();
+  if (!value || value.length > 254) return null;
+  if (EMAIL.test(value)) return 'email';
+  // IPv6 needs all eight groups or a :: so times like 12:30:45 are not mistaken for addresses.
+  if (IPV4.test(value) || IPV6.test(value) && (value.split(':').length === 8 || /::/.test(value) && value.split(':').length >= 3)) return 'ip';
+  if (DOMAIN.test(value) && !FILE_EXTENSIONS.has(value.split('.').pop()!.toLowerCase()) && !/^\d+(\.\d+)+$/.test(value)) return 'domain';
+  const digits = digitCount(value);
+  if ((PHONE.test(value) || PHONE_KEYS.test(key) && LOOSE_PHONE.test(value)) && digits >= 7 && digits <= 15) return 'phone';
+  if (USERNAME_KEYS.test(key) && USERNAME.test(value)) return 'username';
+  return null;
+};
+
+export const normalizeEntityValue = (type: EntityType, value: string) => {
+  const trimmed = value.trim();
+  if (type === 'email' || type === 'domain') return trimmed.toLowerCase().replace(/\.$/, '');
+  if (type === 'username') return trimmed.replace(/^@/, '');
+  return trimmed;
+};
+
+// Whole-value matches win; otherwise embedded emails, IPs and URL hosts are located inside the text.
+export const findEntityMatches = (text: string, key = ''): EntityMatch[] => {
+  const whole = classifyValue(text, key);
+  if (whole) {
+    const start = text.length - text.trimStart().length;
+    return [{ type: whole, value: normalizeEntityValue(whole, text), start, end: start + text.trim().length }];
+  }
+  if (text.length > 10_000) return [];
+  const matches: EntityMatch[] = [];
+  for (const match of text.matchAll(EMBEDDED)) {
+    const isUrl = /^https?:\/\//i.test(match[0]);
+    const start = match.index! + (isUrl ? match[0].indexOf('//') + 2 : 0);
+    const value = isUrl ? match[0].slice(match[0].indexOf('//') + 2) : match[0];
+    const type = isUrl ? (IPV4.test(value) ? 'ip' : DOMAIN.test(value) ? 'domain' : null) : (IPV4.test(value) ? 'ip' : 'email');
+    if (type) matches.push({ type, value: normalizeEntityValue(type, value), start, end: start + value.length });
+  }
+  return matches;
+};
+
+export const extractEntities = (data: any): ExtractedEntity[] => {
+  const found = new Map<string, ExtractedEntity>();
+  const add = (type: EntityType, value: string, path: string) => {
+    const id = `${type}:${value}`;
+    const entity = found.get(id) || { type, value, paths: [] };
+    if (!entity.paths.includes(path)) entity.paths.push(path);
+    found.set(id, entity);
+  };
+  // Raw text responses (non-JSON or truncated) are scanned as a single value.
+  if (typeof data === 'string') {
+    findEntityMatches(data).forEach(m => add(m.type, m.value, '$'));
+  } else {
+    flattenJson(data)
+      .filter(leaf => typeof leaf.value === 'string')
+      .forEach(leaf => findEntityMatches(leaf.value, pathKey(leaf.path)).forEach(m => add(m.type, m.value, leaf.path)));
+  }
+  const order = ENTITY_TYPES.map(t => t.id);
+  return Array.from(found.values()).sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type) || a.value.localeCompare(b.value));
+};
+
+export interface PivotTarget {
+  tool: OSINTTool;
+  param: ToolParam;
+  exact: boolean; // False when the tool only takes free text
+}
+
+// Tools with an input of the entity's type come first; free-text tools accept anything and are listed after them.
+export const getPivotTargets = (tools: OSINTTool[], type: EntityType): PivotTarget[] => {
+  const targets = tools.flatMap(tool => {
+    const params = getToolParams(tool);
+    const exact = params.find(p => p.type === type);
+    if (exact) return [{ tool, param: exact, exact: true }];
+    const text = params.find(p => p.type === 'text');
+    return text ? [{ tool, param: text, exact: false }] : [];
+  });
+  return [...targets.filter(t => t.exact), ...targets.filter(t => !t.exact)];
+};
+
+export type PivotHandler = (entity: { type: EntityType; value: string }, target: PivotTarget) => void;
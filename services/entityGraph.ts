@@ -0,0 +1,148 @@
+import { EntityGraph, EntityType, GraphEdge, GraphNode, LookupResult, OSINTTool } from '../types';
+import { classifyValue, extractEntities, normalizeEntityValue } from './entities';
+import { getToolParams } from './toolSchema';
+
+export interface GraphSource {
+  lookup: LookupResult;
+  data: any; // Undefined when the response was not stored
+}
+
+export interface GraphFilters {
+  entityTypes: EntityType[]; // Empty means every type
+  toolIds: string[]; // Empty means every tool
+}
+
+export const EMPTY_GRAPH_FILTERS: GraphFilters = { entityTypes: [], toolIds: [] };
+
+// Keeps big responses from burying the rest of the graph.
+const MAX_ENTITIES_PER_LOOKUP = 40;
+
+export const entityNodeId = (type: EntityType, value: string) => `entity:${type}:${value}`;
+
+const formatParams = (params: Record<string, string>) => Object.values(params).filter(Boolean).join(', ');
+
+export const buildEntityGraph = (sources: GraphSource[], tools: OSINTTool[]): EntityGraph => {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addEntity = (type: EntityType, value: string, lookupId: string) => {
+    const id = entityNodeId(type, value);
+    const node = nodes.get(id) || { id, kind: 'entity', label: value, entityType: type, value, lookupIds: [] };
+    if (!node.lookupIds.includes(lookupId)) node.lookupIds.push(lookupId);
+    nodes.set(id, node);
+    return id;
+  };
+  const addEdge = (edge: GraphEdge) => edges.set(`${edge.source}>${edge.target}`, edge);
+
+  sources.forEach(({ lookup, data }) => {
+    const lookupNode = `lookup:${lookup.id}`;
+    nodes.set(lookupNode, { id: lookupNode, kind: 'lookup', label: `${lookup.toolName}: ${formatParams(lookup.params) || '—'}`, lookupIds: [lookup.id], toolId: lookup.toolId });
+    const link = { toolId: lookup.toolId, toolName: lookup.toolName };
+
+    // Inputs use the declared parameter type when the tool still exists, and are classified like result values otherwise.
+    const params = getToolParams(tools.find(t => t.id === lookup.toolId) || {});
+    Object.entries(lookup.params).forEach(([name, raw]) => {
+      const declared = params.find(p => p.name === name)?.type;
+      const type = declared && declared !== 'text' && declared !== 'enum' ? declared : classifyValue(raw || '', name);
+      if (!type || !raw?.trim()) return;
+      addEdge({ source: addEntity(type, normalizeEntityValue(type, raw), lookup.id), target: lookupNode, kind: 'input', ...link });
+    });
+
+    if (data !== undefined && lookup.status === 'success') {
+      extractEntities(data).slice(0, MAX_ENTITIES_PER_LOOKUP).forEach(e => {
+        addEdge({ source: lookupNode, target: addEntity(e.type, e.value, lookup.id), kind: 'found', ...link });
+      });
+    }
+  });
+
+  // Pivots are only drawn when both ends are in the graph.
+  sources.forEach(({ lookup }) => {
+    if (lookup.pivot && nodes.has(`lookup:${lookup.pivot.fromLookupId}`)) {
+      addEdge({ source: `lookup:${lookup.pivot.fromLookupId}`, target: `lookup:${lookup.id}`, kind: 'pivot', toolId: lookup.toolId, toolName: lookup.toolName });
+    }
+  });
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+};
+
+// Entities left without any edge after filtering are dropped so the view stays about relationships.
+export const filterEntityGraph = (graph: EntityGraph, filters: GraphFilters): EntityGraph => {
+  const keep = new Set(graph.nodes.filter(n => n.kind === 'lookup'
+    ? !filters.toolIds.length || filters.toolIds.includes(n.toolId!)
+    : !filters.entityTypes.length || filters.entityTypes.includes(n.entityType!)).map(n => n.id));
+  const edges = graph.edges.filter(e => keep.has(e.source) && keep.has(e.target));
+  const linked = new Set(edges.flatMap(e => [e.source, e.target]));
+  return { nodes: graph.nodes.filter(n => keep.has(n.id) && (n.kind === 'lookup' || linked.has(n.id))), edges };
+};
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+// Deterministic Fruchterman-Reingold layout: the same graph always gets the same picture, which keeps exports stable.
+export const layoutEntityGraph = (graph: EntityGraph, width: number, height: number, iterations = graph.nodes.length > 200 ? 80 : 150): Record<string, NodePosition> => {
+  const count = graph.nodes.length;
+  const positions: Record<string, NodePosition> = {};
+  if (!count) return positions;
+  const k = Math.sqrt((width * height) / count) * 0.5;
+  graph.nodes.forEach((n, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    const radius = Math.min(width, height) * (0.2 + 0.25 * ((i * 7919) % count) / count);
+    positions[n.id] = { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) };
+  });
+
+  let temperature = width / 10;
+  for (let step = 0; step < iterations; step++) {
+    const shift: Record<string, NodePosition> = {};
+    graph.nodes.forEach(n => { shift[n.id] = { x: 0, y: 0 }; });
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = positions[graph.nodes[i].id];
+        const b = positions[graph.nodes[j].id];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / distance;
+        shift[graph.nodes[i].id].x += (dx / distance) * force;
+        shift[graph.nodes[i].id].y += (dy / distance) * force;
+        shift[graph.nodes[j].id].x -= (dx / distance) * force;
+        shift[graph.nodes[j].id].y -= (dy / distance) * force;
+      }
+    }
+    graph.edges.forEach(e => {
+      const a = positions[e.source];
+      const b = positions[e.target];
+      if (!a || !b) return;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (distance * distance) / k;
+      shift[e.source].x -= (dx / distance) * force;
+      shift[e.source].y -= (dy / distance) * force;
+      shift[e.target].x += (dx / distance) * force;
+      shift[e.target].y += (dy / distance) * force;
+    });
+    // A pull to the centre keeps disconnected clusters from piling up on the edges.
+    graph.nodes.forEach(n => {
+      const p = positions[n.id];
+      shift[n.id].x -= p.x - width / 2;
+      shift[n.id].y -= p.y - height / 2;
+    });
+    graph.nodes.forEach(n => {
+      const d = shift[n.id];
+      const length = Math.max(Math.hypot(d.x, d.y), 0.01);
+      const p = positions[n.id];
+      p.x = Math.min(width - 30, Math.max(30, p.x + (d.x / length) * Math.min(length, temperature)));
+      p.y = Math.min(height - 30, Math.max(30, p.y + (d.y / length) * Math.min(length, temperature)));
+    });
+    temperature *= 0.97;
+  }
+  return positions;
+};
+
+export const entityGraphToJson = (graph: EntityGraph, positions: Record<string, NodePosition>) => JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  nodes: graph.nodes.map(n => ({ ...n, position: positions[n.id] ? { x: Math.round(positions[n.id].x), y: Math.round(positions[n.id].y) } : null })),
+  edges: graph.edges
+}, null, 2);
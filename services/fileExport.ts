@@ -0,0 +1,24 @@
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const timestampForFilename = (date = new Date()) => date.toISOString().replace(/[:.]/g, '-');
+
+// Spreadsheets run text cells starting with these as formulas; a leading quote makes them plain text.
+// Numbers, and text that is just a number, are left alone so -5 still reads as a number.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const looksLikeFormula = (text: string) => FORMULA_PREFIX.test(text) && !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text);
+
+export const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const raw = typeof value === 'string' ? value : JSON.stringify(value);
+  const text = typeof value === 'string' && looksLikeFormula(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
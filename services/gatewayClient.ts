@@ -0,0 +1,53 @@
+import { auth } from '../firebase';
+import { GatewayErrorResponse } from '../types';
+import { QuotaExceededError } from './quota';
+
+export const GATEWAY_URL = import.meta.env.VITE_GATEWAY_URL || '/gateway';
+
+export class GatewayRequestError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'GatewayRequestError';
+  }
+}
+
+const sendToGateway = async (path: string, body: unknown, signal?: AbortSignal) => {
+  if (!auth.currentUser) throw new Error('Not signed in');
+  const idToken = await auth.currentUser.getIdToken();
+
+  const response = await fetch(`${GATEWAY_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const gatewayError = (payload as GatewayErrorResponse | null)?.error;
+    if (gatewayError?.code === 'quota-exceeded') throw new QuotaExceededError(gatewayError.message);
+    throw new GatewayRequestError(gatewayError?.code || 'gateway-error', gatewayError?.message || `Gateway status: ${response.status}`);
+  }
+  return response;
+};
+
+// POSTs to the gateway with the caller's ID token and turns error payloads into exceptions.
+export const postToGateway = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await sendToGateway(path, body);
+  return await response.json() as T;
+};
+
+// Like postToGateway, for endpoints that answer with newline-delimited JSON events.
+export const streamFromGateway = async <T>(path: string, body: unknown, onEvent: (event: T) => void, signal?: AbortSignal) => {
+  const response = await sendToGateway(path, body, signal);
+  if (!response.body) throw new Error('Streaming is not supported by this browser.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    buffer += decoder.decode(next.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line) as T));
+  }
+  if (buffer.trim()) onEvent(JSON.parse(buffer) as T);
+};
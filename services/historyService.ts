@@ -0,0 +1,63 @@
+import { collection, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { ChatMessage, ChatSourceRef, LookupResult, LookupStatus, StoredLookupResponse, StructuredAnalysis } from '../types';
+import { decodeResponse, encodeResponse } from './responseCodec';
+
+export { decodeResponse, encodeResponse };
+
+export interface HistoryFilters {
+  toolId: string;
+  status: LookupStatus | '';
+  from: string; // yyyy-mm-dd
+  to: string;
+  user: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { toolId: '', status: '', from: '', to: '', user: '' };
+
+export const recordLookup = async (entry: Omit<LookupResult, 'id' | 'responseRef'>, data?: any) => {
+  const lookupRef = doc(collection(db, 'lookups'));
+  let responseRef: string | null = null;
+
+  if (data !== undefined) {
+    const response: StoredLookupResponse = { uid: entry.uid, ...encodeResponse(data) };
+    await setDoc(doc(db, 'lookupResponses', lookupRef.id), response);
+    responseRef = `lookupResponses/${lookupRef.id}`;
+  }
+
+  const lookup: LookupResult = { ...entry, id: lookupRef.id, responseRef };
+  await setDoc(lookupRef, lookup);
+  return lookup;
+};
+
+export const updateLookupSummary = async (lookupId: string, aiSummary: string, aiAnalysis: StructuredAnalysis | null = null) => {
+  await updateDoc(doc(db, 'lookups', lookupId), { aiSummary, aiAnalysis });
+};
+
+export const updateLookupChat = async (lookupId: string, chat: ChatMessage[], chatSources: ChatSourceRef[]) => {
+  await updateDoc(doc(db, 'lookups', lookupId), { chat, chatSources });
+};
+
+export const loadStoredResponse = async (responseRef: string) => {
+  const snapshot = await getDoc(doc(db, responseRef));
+  if (!snapshot.exists()) return null;
+  const stored = snapshot.data() as StoredLookupResponse;
+  return decodeResponse(stored.body, stored.truncated);
+};
+
+export const loadLookupResponse = async (lookup: LookupResult) => {
+  if (!lookup.responseRef) return null;
+  return loadStoredResponse(lookup.responseRef);
+};
+
+export const filterLookups = (lookups: LookupResult[], filters: HistoryFilters) => {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+  const user = filters.user.trim().toLowerCase();
+  return lookups
+    .filter(l => !filters.toolId || l.toolId === filters.toolId)
+    .filter(l => !filters.status || l.status === filters.status)
+    .filter(l => l.timestamp >= from && l.timestamp <= to)
+    .filter(l => !user || l.userEmail.toLowerCase().includes(user))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,53 @@
+import { collection, doc, onSnapshot, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { Invite, InviteRedeemResponse, InviteRole, UserProfile } from '../types';
+import { postToGateway } from './gatewayClient';
+import { generateInviteCode } from './invites';
+import { AuditHook } from './auditService';
+
+export interface InviteDraft {
+  role: InviteRole;
+  groups: string[];
+  maxUses: number;
+  expiresInDays: number | null;
+}
+
+export const subscribeInvites = (onChange: (invites: Invite[]) => void) => {
+  return onSnapshot(collection(db, 'invites'),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as Invite).sort((a, b) => b.createdAt - a.createdAt)),
+    (err) => console.error("Invites sync failed:", err)
+  );
+};
+
+export const createInvite = async (actor: UserProfile, draft: InviteDraft, audit?: AuditHook<Invite>) => {
+  const now = Date.now();
+  const invite: Invite = {
+    code: generateInviteCode(),
+    role: draft.role,
+    groups: draft.groups,
+    maxUses: draft.maxUses,
+    uses: 0,
+    expiresAt: draft.expiresInDays === null ? null : now + draft.expiresInDays * 24 * 60 * 60 * 1000,
+    createdAt: now,
+    createdBy: actor.email,
+    revokedAt: null,
+    revokedBy: null,
+    redemptions: []
+  };
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'invites', invite.code), invite);
+  audit?.(batch, invite);
+  await batch.commit();
+  return invite;
+};
+
+// Revoked invites are kept so the list still shows who joined through them.
+export const revokeInvite = async (actor: UserProfile, code: string, audit?: AuditHook) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'invites', code), { revokedAt: Date.now(), revokedBy: actor.email });
+  audit?.(batch);
+  await batch.commit();
+};
+
+// Approval happens in the gateway, since accounts cannot approve themselves under the Firestore rules.
+export const redeemInvite = (code: string) => postToGateway<InviteRedeemResponse>('/invites/redeem', { code });
@@ -0,0 +1,44 @@
+import { Invite, InviteRole } from '../types';
+
+// Invite rules shared by the admin panel and the gateway, so it must not import the Firebase client.
+
+export const INVITE_CODE_LENGTH = 12;
+export const MAX_INVITE_USES = 100;
+export const INVITE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' }
+];
+
+// Where Register.tsx leaves the code for App.tsx to redeem once the new profile exists.
+export const PENDING_INVITE_STORAGE_KEY = 'flexer_invite';
+
+export type InviteStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Used up',
+  revoked: 'Revoked'
+};
+
+export const INVITE_ROLE_LABELS: Record<InviteRole, string> = { member: 'Member', admin: 'Admin' };
+
+// No 0/O or 1/I, so codes survive being read out or typed by hand. 32 symbols keep the random bytes unbiased.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateInviteCode = () => Array.from(crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH)), b => CODE_ALPHABET[b & 31]).join('');
+
+export const normalizeInviteCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const formatInviteCode = (code: string) => code.match(/.{1,4}/g)?.join('-') || code;
+
+export const buildInviteLink = (code: string, origin: string) => `${origin}/?invite=${formatInviteCode(code)}`;
+
+export const getInviteStatus = (invite: Invite, now: number): InviteStatus => {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.uses >= invite.maxUses) return 'exhausted';
+  if (invite.expiresAt !== null && invite.expiresAt <= now) return 'expired';
+  return 'active';
+};
@@ -0,0 +1,90 @@
+import { JsonDiffEntry, JsonDiffKind } from '../types';
+import { formatPathKey } from './jsonPath';
+
+export const MAX_DIFF_ENTRIES = 200;
+const MAX_PREVIEW_CHARS = 300;
+
+export interface JsonDiff {
+  entries: JsonDiffEntry[];
+  truncated: boolean; // More differences existed than MAX_DIFF_ENTRIES
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Key order never counts as a change.
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (isRecord(value)) return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonical(value[k])}`).join(',')}}`;
+  return JSON.stringify(value) ?? 'null';
+};
+
+const preview = (value: unknown) => {
+  const text = JSON.stringify(value) ?? 'null';
+  return text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS)}…` : text;
+};
+
+// Structural diff of two responses. Array items are matched by value, so a record appended to or dropped from a list
+// reads as one addition or removal instead of every later index changing; unmatched objects left at the same index are
+// compared field by field.
+export const diffJson = (before: unknown, after: unknown, limit = MAX_DIFF_ENTRIES): JsonDiff => {
+  const entries: JsonDiffEntry[] = [];
+  let truncated = false;
+
+  const push = (kind: JsonDiffKind, path: string, from: unknown, to: unknown) => {
+    if (entries.length >= limit) {
+      truncated = true;
+      return;
+    }
+    entries.push({ path, kind, ...(kind !== 'added' ? { before: preview(from) } : {}), ...(kind !== 'removed' ? { after: preview(to) } : {}) });
+  };
+
+  const walkArrays = (a: unknown[], b: unknown[], path: string) => {
+    const pool = new Map<string, number[]>();
+    a.forEach((item, i) => {
+      const key = canonical(item);
+      pool.set(key, [...(pool.get(key) || []), i]);
+    });
+    const added: number[] = [];
+    b.forEach((item, j) => {
+      const match = pool.get(canonical(item));
+      if (match?.length) match.shift();
+      else added.push(j);
+    });
+    const removed = new Set(Array.from(pool.values()).flat());
+
+    added.forEach(j => {
+      const paired = removed.has(j) && (isRecord(a[j]) || Array.isArray(a[j])) && (isRecord(b[j]) || Array.isArray(b[j]));
+      if (paired) {
+        removed.delete(j);
+        walk(a[j], b[j], `${path}[${j}]`);
+      } else {
+        push('added', `${path}[${j}]`, undefined, b[j]);
+      }
+    });
+    Array.from(removed).sort((x, y) => x - y).forEach(i => push('removed', `${path}[${i}]`, a[i], undefined));
+  };
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (truncated) return;
+    if (Array.isArray(a) && Array.isArray(b)) return walkArrays(a, b, path);
+    if (isRecord(a) && isRecord(b)) {
+      Object.keys(a).forEach(key => {
+        const keyPath = `${path}${formatPathKey(key)}`;
+        if (!(key in b)) push('removed', keyPath, a[key], undefined);
+        else walk(a[key], b[key], keyPath);
+      });
+      Object.keys(b).filter(key => !(key in a)).forEach(key => push('added', `${path}${formatPathKey(key)}`, undefined, b[key]));
+      return;
+    }
+    if (canonical(a) !== canonical(b)) push('changed', path, a, b);
+  };
+
+  walk(before, after, '$');
+  return { entries, truncated };
+};
+
+export const countDiff = (entries: JsonDiffEntry[]) => ({
+  added: entries.filter(e => e.kind === 'added').length,
+  removed: entries.filter(e => e.kind === 'removed').length,
+  changed: entries.filter(e => e.kind === 'changed').length
+});
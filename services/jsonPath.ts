@@ -0,0 +1,121 @@
+// A small JSONPath subset: $, .key, ['key'], [0], [-1], [*], .* and ..key (recursive descent).
+
+export interface JsonPathMatch {
+  path: string; // Concrete path to the match, e.g. $.accounts[2].email
+  value: any;
+}
+
+type Segment =
+  | { type: 'key'; key: string; recursive: boolean }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard'; recursive: boolean };
+
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$-]*/;
+
+export const parseJsonPath = (expression: string): Segment[] => {
+  let rest = expression.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  const segments: Segment[] = [];
+
+  while (rest.length > 0) {
+    const recursive = rest.startsWith('..');
+    if (recursive || rest.startsWith('.')) {
+      rest = rest.slice(recursive ? 2 : 1);
+      if (rest.startsWith('*')) {
+        segments.push({ type: 'wildcard', recursive });
+        rest = rest.slice(1);
+        continue;
+      }
+      if (recursive && rest.startsWith('[')) {
+        throw new JsonPathError(`Recursive descent must be followed by a name in "${expression}"`);
+      }
+      const match = IDENTIFIER.exec(rest);
+      if (!match) throw new JsonPathError(`Expected a property name in "${expression}"`);
+      segments.push({ type: 'key', key: match[0], recursive });
+      rest = rest.slice(match[0].length);
+      continue;
+    }
+
+    if (rest.startsWith('[')) {
+      const close = rest.indexOf(']');
+      if (close === -1) throw new JsonPathError(`Unclosed bracket in "${expression}"`);
+      const inner = rest.slice(1, close).trim();
+      rest = rest.slice(close + 1);
+      if (inner === '*') {
+        segments.push({ type: 'wildcard', recursive: false });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ type: 'index', index: Number(inner) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ type: 'key', key: inner.slice(1, -1), recursive: false });
+      } else {
+        throw new JsonPathError(`Unsupported selector [${inner}] in "${expression}"`);
+      }
+      continue;
+    }
+
+    // Allow paths written without the leading "$." such as "data.email".
+    if (segments.length === 0 && IDENTIFIER.test(rest)) {
+      rest = `.${rest}`;
+      continue;
+    }
+    throw new JsonPathError(`Unexpected "${rest[0]}" in "${expression}"`);
+  }
+  return segments;
+};
+
+export const formatPathKey = (key: string) => (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`);
+
+const children = (match: JsonPathMatch): JsonPathMatch[] => {
+  const { value, path } = match;
+  if (Array.isArray(value)) return value.map((v, i) => ({ path: `${path}[${i}]`, value: v }));
+  if (value && typeof value === 'object') return Object.keys(value).map(k => ({ path: `${path}${formatPathKey(k)}`, value: value[k] }));
+  return [];
+};
+
+const descendants = (match: JsonPathMatch): JsonPathMatch[] => {
+  return [match, ...children(match).flatMap(descendants)];
+};
+
+const applySegment = (matches: JsonPathMatch[], segment: Segment): JsonPathMatch[] => {
+  if (segment.type === 'wildcard') {
+    return (segment.recursive ? matches.flatMap(descendants) : matches).flatMap(children);
+  }
+  if (segment.type === 'index') {
+    return matches.flatMap(m => {
+      if (!Array.isArray(m.value)) return [];
+      const idx = segment.index < 0 ? m.value.length + segment.index : segment.index;
+      return idx >= 0 && idx < m.value.length ? [{ path: `${m.path}[${idx}]`, value: m.value[idx] }] : [];
+    });
+  }
+  const pool = segment.recursive ? matches.flatMap(descendants) : matches;
+  return pool.flatMap(m => (
+    m.value && typeof m.value === 'object' && !Array.isArray(m.value) && segment.key in m.value
+      ? [{ path: `${m.path}${formatPathKey(segment.key)}`, value: m.value[segment.key] }]
+      : []
+  ));
+};
+
+export const queryJsonPath = (data: any, expression: string, rootPath = '$'): JsonPathMatch[] => {
+  return parseJsonPath(expression).reduce(applySegment, [{ path: rootPath, value: data }]);
+};
+
+// Turns nested JSON into one row per leaf value, keyed by its JSONPath.
+export const flattenJson = (value: any, path = '$'): JsonPathMatch[] => {
+  if (Array.isArray(value)) {
+    return value.length ? value.flatMap((v, i) => flattenJson(v, `${path}[${i}]`)) : [{ path, value: [] }];
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    return keys.length
+      ? keys.flatMap(k => flattenJson(value[k], `${path}${formatPathKey(k)}`))
+      : [{ path, value: {} }];
+  }
+  return [{ path, value }];
+};
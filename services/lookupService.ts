@@ -0,0 +1,122 @@
+import { OSINTTool, GatewayLookupResponse, CachedResultInfo, LookupPivot, LookupResult, QuotaSettings, ToolTestResponse, UserProfile } from '../types';
+import { buildToolRequest } from './requestBuilder';
+import { postToGateway } from './gatewayClient';
+import { recordLookup } from './historyService';
+import { consumeQuota } from './quotaService';
+import { QuotaExceededError } from './quota';
+import { canUseTool } from './access';
+import { getToolParams, validateParams } from './toolSchema';
+import { runsOnGateway } from './resultCache';
+
+export interface LookupOutcome {
+  data: any;
+  cache: CachedResultInfo | null; // Set when the result came from the cache
+  durationMs?: number; // Provider round trip, measured by the gateway for gateway tools
+}
+
+export interface LookupOptions {
+  refresh?: boolean; // Skip the cache and overwrite it with a fresh result
+  draft?: boolean; // Run the tool's unpublished draft, which never reads or writes the cache
+  beforeUpstream?: () => Promise<void>; // Runs only when the provider is actually called, e.g. to count quota
+}
+
+const parseBody = (text: string) => {
+  try { return JSON.parse(text); }
+  catch { return text; }
+};
+
+const runGatewayLookup = async (tool: OSINTTool, values: Record<string, string>, refresh: boolean, draft: boolean): Promise<LookupOutcome> => {
+  const result = await postToGateway<GatewayLookupResponse>('/lookup', { toolId: tool.id, params: values, refresh, ...(draft ? { draft } : {}) });
+  if (result.status >= 400) throw new Error(`Status: ${result.status}`);
+  return { data: result.data, cache: result.cache || null, ...(result.cache ? {} : { durationMs: result.durationMs }) };
+};
+
+export const executeLookup = async (tool: OSINTTool, values: Record<string, string>, { refresh = false, draft = false, beforeUpstream }: LookupOptions = {}): Promise<LookupOutcome> => {
+  if (runsOnGateway(tool, draft)) return runGatewayLookup(tool, values, refresh, draft);
+
+  await beforeUpstream?.();
+  const { url, init } = buildToolRequest(tool, values);
+  const started = Date.now();
+  const response = await fetch(url, init);
+  if (!response.ok) throw new Error(`Status: ${response.status}`);
+  const data = parseBody(await response.text());
+  return { data, cache: null, durationMs: Date.now() - started };
+};
+
+// Runs an unsaved tool configuration once. Gateway tools are tested on the gateway so stored secrets apply;
+// secrets typed into the editor but not yet saved override them for this run only.
+export const testTool = async (tool: OSINTTool, values: Record<string, string>, secrets: Record<string, string>): Promise<ToolTestResponse> => {
+  if (tool.useProxy) return postToGateway<ToolTestResponse>('/test', { toolId: tool.id || null, tool, params: values, secrets });
+  const { url, init } = buildToolRequest(tool, values);
+  const started = Date.now();
+  const response = await fetch(url, init);
+  const text = await response.text();
+  return {
+    status: response.status,
+    contentType: response.headers.get('content-type') || '',
+    durationMs: Date.now() - started,
+    sizeBytes: new TextEncoder().encode(text).length,
+    data: parseBody(text)
+  };
+};
+
+export interface RunLookupOptions {
+  quotaSettings: QuotaSettings;
+  pivot?: LookupPivot | null;
+  refresh?: boolean;
+  draft?: boolean; // The tool passed in is an admin's draft, see draftToTool
+}
+
+export interface RunLookupOutcome extends LookupOutcome {
+  lookup: LookupResult | null; // Null when the history entry could not be saved
+}
+
+// History is best-effort: a failed write must never hide the lookup result.
+const saveHistory = (entry: Omit<LookupResult, 'id' | 'responseRef'>, data?: any) => {
+  return recordLookup(entry, data).catch(err => {
+    console.error("Could not save lookup history:", err);
+    return null;
+  });
+};
+
+// The one path every lookup takes, whether started from the search form or by a watch:
+// access and input checks, quota, cache, the provider call and the history entry.
+export const runToolLookup = async (
+  profile: UserProfile,
+  tool: OSINTTool,
+  values: Record<string, string>,
+  { quotaSettings, pivot = null, refresh = false, draft = false }: RunLookupOptions
+): Promise<RunLookupOutcome> => {
+  if (!canUseTool(profile, tool)) throw new Error("You do not have access to this tool.");
+  const errors = Object.values(validateParams(getToolParams(tool), values));
+  if (errors.length > 0) throw new Error(errors[0]);
+
+  const entry = {
+    uid: profile.uid,
+    userEmail: profile.email,
+    toolId: tool.id,
+    toolName: tool.name,
+    params: values,
+    timestamp: Date.now(),
+    aiSummary: null,
+    ...(pivot ? { pivot } : {}),
+    ...(tool.version ? { toolVersion: tool.version } : {}),
+    ...(draft ? { toolDraft: true } : {})
+  };
+
+  const started = Date.now();
+  try {
+    // Lookups that run on the gateway count quota there, and a cache hit costs nothing.
+    const outcome = await executeLookup(tool, values, {
+      refresh,
+      draft,
+      beforeUpstream: runsOnGateway(tool, draft) ? undefined : () => consumeQuota(profile, quotaSettings)
+    });
+    const timing = outcome.cache ? { cachedAt: outcome.cache.createdAt } : { durationMs: outcome.durationMs ?? Date.now() - started };
+    const lookup = await saveHistory({ ...entry, ...timing, status: 'success', error: null }, outcome.data);
+    return { ...outcome, lookup };
+  } catch (err: any) {
+    if (!(err instanceof QuotaExceededError)) await saveHistory({ ...entry, durationMs: Date.now() - started, status: 'error', error: err.message });
+    throw err;
+  }
+};
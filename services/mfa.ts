@@ -0,0 +1,32 @@
+import { MfaSecrets, MfaStatus, SecuritySettings, UserProfile } from '../types';
+
+// Second-factor rules shared by the app gate and the gateway, so it must not import the Firebase client.
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = { requireMfaForStandard: false };
+
+export const MAX_VERIFIED_SIGN_INS = 20;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_MS = 5 * 60_000;
+
+// Admins and the owner always need a second factor. Standard users need one once the owner requires it,
+// and anyone who turned it on keeps being asked for it.
+export const needsSecondFactor = (profile: UserProfile, settings: SecuritySettings) => {
+  return !!(profile.isAdmin || profile.isOwner || profile.mfa?.enabled || (settings.requireMfaForStandard && profile.isApproved));
+};
+
+// Verification is tied to the Firebase sign-in (its auth_time), so each new sign-in must pass again.
+export const isSignInVerified = (profile: UserProfile, authTime: number | null) => {
+  return authTime !== null && !!profile.mfa?.enabled && profile.mfa.verifiedAuthTimes.includes(authTime);
+};
+
+export const addVerifiedSignIn = (status: MfaStatus | null | undefined, authTime: number) => {
+  return [authTime, ...(status?.verifiedAuthTimes || []).filter(t => t !== authTime)].slice(0, MAX_VERIFIED_SIGN_INS);
+};
+
+export const isLockedOut = (secrets: MfaSecrets, now: number) => !!secrets.lockedUntil && secrets.lockedUntil > now;
+
+// Counts a wrong code; reaching the limit locks verification for LOCKOUT_MS and starts a new count.
+export const recordFailedAttempt = (secrets: MfaSecrets, now: number): Pick<MfaSecrets, 'failedAttempts' | 'lockedUntil'> => {
+  const failedAttempts = (secrets.failedAttempts || 0) + 1;
+  return failedAttempts >= MAX_FAILED_ATTEMPTS ? { failedAttempts: 0, lockedUntil: now + LOCKOUT_MS } : { failedAttempts, lockedUntil: secrets.lockedUntil };
+};
@@ -0,0 +1,33 @@
+import { doc, onSnapshot, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { MfaEnrollResponse, MfaRecoveryCodesResponse, MfaVerifyResponse, SecuritySettings } from '../types';
+import { postToGateway } from './gatewayClient';
+import { DEFAULT_SECURITY_SETTINGS } from './mfa';
+import { AuditHook } from './auditService';
+
+export const SECURITY_SETTINGS_PATH = ['settings', 'security'] as const;
+
+export const subscribeSecuritySettings = (onChange: (settings: SecuritySettings) => void) => {
+  return onSnapshot(doc(db, ...SECURITY_SETTINGS_PATH),
+    (snapshot) => onChange({ ...DEFAULT_SECURITY_SETTINGS, ...(snapshot.data() as Partial<SecuritySettings> | undefined) }),
+    (err) => console.error("Security settings sync failed:", err)
+  );
+};
+
+export const saveSecuritySettings = async (settings: SecuritySettings, audit?: AuditHook) => {
+  const batch = writeBatch(db);
+  batch.set(doc(db, ...SECURITY_SETTINGS_PATH), settings);
+  audit?.(batch);
+  await batch.commit();
+};
+
+// Secrets and recovery codes never touch Firestore from the client; every step goes through the gateway.
+export const startMfaEnrollment = () => postToGateway<MfaEnrollResponse>('/mfa/enroll', {});
+
+export const confirmMfaEnrollment = (code: string) => postToGateway<MfaRecoveryCodesResponse>('/mfa/confirm', { code });
+
+export const verifyMfa = (code: string) => postToGateway<MfaVerifyResponse>('/mfa/verify', { code });
+
+export const regenerateRecoveryCodes = (code: string) => postToGateway<MfaRecoveryCodesResponse>('/mfa/recovery-codes', { code });
+
+export const resetMfa = (uid: string) => postToGateway<{ ok: boolean }>('/mfa/reset', { uid });
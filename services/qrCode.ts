@@ -0,0 +1,235 @@
+// Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level M, versions 1 to 10.
+// Enough for otpauth:// enrollment links, which must be drawn locally rather than by a remote QR service.
+
+// Per version: error correction codewords per block, and [block count, data codewords per block] groups.
+const VERSIONS: { ec: number; blocks: [number, number][] }[] = [
+  { ec: 10, blocks: [[1, 16]] },
+  { ec: 16, blocks: [[1, 28]] },
+  { ec: 26, blocks: [[1, 44]] },
+  { ec: 18, blocks: [[2, 32]] },
+  { ec: 24, blocks: [[2, 43]] },
+  { ec: 16, blocks: [[4, 27]] },
+  { ec: 18, blocks: [[4, 31]] },
+  { ec: 22, blocks: [[2, 38], [2, 39]] },
+  { ec: 22, blocks: [[3, 36], [2, 37]] },
+  { ec: 26, blocks: [[4, 43], [1, 44]] }
+];
+
+const ALIGNMENT_POSITIONS = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]];
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const dataCapacity = (version: number) => VERSIONS[version - 1].blocks.reduce((sum, [count, size]) => sum + count * size, 0);
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1.
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  });
+  return result;
+};
+
+// Mode indicator, length, data, terminator and padding, split into blocks and interleaved with their error correction.
+const encodeCodewords = (bytes: Uint8Array, version: number) => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => { for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+  const capacityBits = dataCapacity(version) * 8;
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+
+  const { ec, blocks } = VERSIONS[version - 1];
+  const divisor = reedSolomonDivisor(ec);
+  const dataBlocks: number[][] = [];
+  let offset = 0;
+  blocks.forEach(([count, size]) => {
+    for (let i = 0; i < count; i++, offset += size) dataBlocks.push(data.slice(offset, offset + size));
+  });
+  const ecBlocks = dataBlocks.map(block => reedSolomonRemainder(block, divisor));
+
+  const result: number[] = [];
+  const longest = Math.max(...dataBlocks.map(b => b.length));
+  for (let i = 0; i < longest; i++) dataBlocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+  for (let i = 0; i < ec; i++) ecBlocks.forEach(block => result.push(block[i]));
+  return result;
+};
+
+// Standard penalty rules, used to pick the mask that is easiest for scanners to read.
+const penaltyScore = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x]))
+  ];
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) run++;
+      else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map(m => (m ? '1' : '0')).join('');
+    score += 40 * ((text.match(/(?=10111010000)/g) || []).length + (text.match(/(?=00001011101)/g) || []).length);
+  });
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  score += 10 * Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5);
+  return score;
+};
+
+// Returns the module grid, true for dark, without the quiet zone.
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text);
+  const version = VERSIONS.findIndex((_, i) => 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8 <= dataCapacity(i + 1) * 8) + 1;
+  if (version === 0) throw new Error('Text is too long for a QR code.');
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const positions = ALIGNMENT_POSITIONS[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => positions.forEach((cy, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormat = (mask: number) => {
+    // Level M is encoded as 00, so the format data is just the mask number.
+    let remainder = mask;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((mask << 10) | remainder) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(bits, i));
+    setFunction(8, 7, bit(bits, 6));
+    setFunction(8, 8, bit(bits, 7));
+    setFunction(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(bits, i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormat(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, bit(bits, i));
+      setFunction(b, a, bit(bits, i));
+    }
+  }
+
+  // Codewords fill two-module columns in a zigzag from the bottom right, skipping the vertical timing pattern.
+  const codewords = encodeCodewords(bytes, version);
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && index < codewords.length * 8) {
+          modules[y][x] = bit(codewords[index >>> 3], 7 - (index & 7));
+          index++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+  let best = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormat(mask);
+    const score = penaltyScore(modules);
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+    applyMask(mask); // Masks are their own inverse
+  }
+  applyMask(best);
+  drawFormat(best);
+  return modules;
+};
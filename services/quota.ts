@@ -0,0 +1,61 @@
+import { QuotaLimits, UsageCounter } from '../types';
+
+// Shared by the dashboard and the lookup gateway, so it must not import the Firebase client.
+
+export interface UsagePeriods {
+  day: string;
+  month: string;
+}
+
+export interface QuotaCheck {
+  scope: UsageCounter['scope'];
+  subjectId: string;
+  limits: QuotaLimits;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export const getUsagePeriods = (now = new Date()): UsagePeriods => {
+  const iso = now.toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+};
+
+// Periods are UTC dates, so both roll over at the next UTC midnight.
+export const msUntilNextPeriod = (now = new Date()) => {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+};
+
+export const usageCounterId = (scope: UsageCounter['scope'], subjectId: string, period: string) => `${scope}_${subjectId}_${period}`;
+
+export const hasLimit = (value: number | null | undefined): value is number => typeof value === 'number' && value >= 0;
+
+export const hasAnyLimit = (limits: QuotaLimits | null | undefined) => hasLimit(limits?.daily) || hasLimit(limits?.monthly);
+
+export const resolveUserLimits = (userQuota: QuotaLimits | null | undefined, defaults: QuotaLimits | null | undefined): QuotaLimits => ({
+  daily: hasLimit(userQuota?.daily) ? userQuota!.daily : defaults?.daily ?? null,
+  monthly: hasLimit(userQuota?.monthly) ? userQuota!.monthly : defaults?.monthly ?? null
+});
+
+export const remaining = (limit: number | null | undefined, used: number) => (hasLimit(limit) ? Math.max(0, limit - used) : null);
+
+// Returns a user-facing message for the first limit the next call would exceed, or null if it may proceed.
+export const findExceededLimit = (check: QuotaCheck, dayCount: number, monthCount: number, label: string, unit = 'lookups') => {
+  if (hasLimit(check.limits.daily) && dayCount >= check.limits.daily) {
+    return `Quota exceeded: ${label} daily limit of ${check.limits.daily} ${unit} reached.`;
+  }
+  if (hasLimit(check.limits.monthly) && monthCount >= check.limits.monthly) {
+    return `Quota exceeded: ${label} monthly limit of ${check.limits.monthly} ${unit} reached.`;
+  }
+  return null;
+};
+
+export const normalizeQuota = (quota: QuotaLimits | null | undefined): QuotaLimits | null => {
+  const daily = hasLimit(quota?.daily) ? Math.floor(quota!.daily) : null;
+  const monthly = hasLimit(quota?.monthly) ? Math.floor(quota!.monthly) : null;
+  return daily === null && monthly === null ? null : { daily, monthly };
+};
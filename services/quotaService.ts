@@ -0,0 +1,76 @@
+import { doc, onSnapshot, runTransaction } from 'firebase/firestore';
+import { db } from '../firebase';
+import { QuotaSettings, UsageCounter, UserProfile } from '../types';
+import { QuotaCheck, QuotaExceededError, findExceededLimit, getUsagePeriods, msUntilNextPeriod, resolveUserLimits, usageCounterId } from './quota';
+
+export const QUOTA_SETTINGS_PATH = ['settings', 'quotas'] as const;
+
+export const subscribeQuotaSettings = (onChange: (settings: QuotaSettings) => void) => {
+  return onSnapshot(doc(db, ...QUOTA_SETTINGS_PATH),
+    (snapshot) => onChange((snapshot.data() as QuotaSettings | undefined) || { defaults: {} }),
+    (err) => console.error("Quota settings sync failed:", err)
+  );
+};
+
+// Streams today's and this month's count for one counter subject, moving to the new counters when the day rolls over.
+export const subscribeUsage = (scope: UsageCounter['scope'], subjectId: string, onChange: (usage: { day: number; month: number }) => void) => {
+  let unsubscribe = () => {};
+  let timer: ReturnType<typeof setTimeout>;
+  const subscribe = () => {
+    const periods = getUsagePeriods();
+    const usage = { day: 0, month: 0 };
+    const watch = (key: 'day' | 'month') => onSnapshot(doc(db, 'usage', usageCounterId(scope, subjectId, periods[key])),
+      (snapshot) => {
+        usage[key] = (snapshot.data() as UsageCounter | undefined)?.count || 0;
+        onChange({ ...usage });
+      },
+      (err) => console.error("Usage sync failed:", err)
+    );
+    const unsubDay = watch('day');
+    const unsubMonth = watch('month');
+    unsubscribe = () => { unsubDay(); unsubMonth(); };
+    // A second of slack so the new period has started by the time the keys are recomputed.
+    timer = setTimeout(() => {
+      unsubscribe();
+      subscribe();
+    }, msUntilNextPeriod() + 1000);
+  };
+  subscribe();
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+};
+
+// Checks and increments the caller's own counters atomically. Tools with a quota and other gateway tools are
+// counted server-side instead, since the rules only let a client write its own user counters.
+export const consumeQuota = async (profile: UserProfile, settings: QuotaSettings) => {
+  const periods = getUsagePeriods();
+  const checks: (QuotaCheck & { label: string })[] = [
+    { scope: 'user', subjectId: profile.uid, limits: resolveUserLimits(profile.quota, settings.defaults), label: 'your' }
+  ];
+
+  await runTransaction(db, async (tx) => {
+    const refs = checks.map(c => ({
+      check: c,
+      day: doc(db, 'usage', usageCounterId(c.scope, c.subjectId, periods.day)),
+      month: doc(db, 'usage', usageCounterId(c.scope, c.subjectId, periods.month))
+    }));
+    const counts = await Promise.all(refs.map(async r => ({
+      ...r,
+      dayCount: ((await tx.get(r.day)).data() as UsageCounter | undefined)?.count || 0,
+      monthCount: ((await tx.get(r.month)).data() as UsageCounter | undefined)?.count || 0
+    })));
+
+    counts.forEach(c => {
+      const exceeded = findExceededLimit(c.check, c.dayCount, c.monthCount, c.check.label);
+      if (exceeded) throw new QuotaExceededError(exceeded);
+    });
+
+    counts.forEach(c => {
+      const base = { scope: c.check.scope, subjectId: c.check.subjectId };
+      tx.set(c.day, { ...base, period: periods.day, count: c.dayCount + 1 });
+      tx.set(c.month, { ...base, period: periods.month, count: c.monthCount + 1 });
+    });
+  });
+};
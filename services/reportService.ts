@@ -0,0 +1,174 @@
+import { LookupResult, OSINTTool, ResultMappingItem } from '../types';
+import { loadLookupResponse } from './historyService';
+import { applyResultMapping, formatCellValue, StructuredSection } from './resultMapping';
+import { csvCell, downloadFile, timestampForFilename } from './fileExport';
+import { flattenJson } from './jsonPath';
+
+export type ReportFormat = 'html' | 'markdown' | 'pdf' | 'csv';
+
+export const REPORT_FORMATS: { id: ReportFormat; label: string; icon: string }[] = [
+  { id: 'html', label: 'HTML', icon: 'fas fa-file-code' },
+  { id: 'markdown', label: 'Markdown', icon: 'fab fa-markdown' },
+  { id: 'pdf', label: 'PDF', icon: 'fas fa-file-pdf' },
+  { id: 'csv', label: 'CSV', icon: 'fas fa-file-csv' }
+];
+
+export interface ReportEntry {
+  lookup: LookupResult;
+  data: any; // Raw response; undefined when the lookup failed or nothing was stored
+  mapping?: ResultMappingItem[];
+}
+
+export const loadReportEntries = (lookups: LookupResult[], tools: OSINTTool[]): Promise<ReportEntry[]> => {
+  return Promise.all(lookups.map(async lookup => ({
+    lookup,
+    data: (await loadLookupResponse(lookup)) ?? undefined,
+    mapping: tools.find(t => t.id === lookup.toolId)?.resultMapping
+  })));
+};
+
+const formatParams = (params: Record<string, string>) => Object.entries(params).map(([k, v]) => `${k}=${v}`).join(', ') || '—';
+
+const formatRaw = (data: any) => (typeof data === 'string' ? data : JSON.stringify(data, null, 2));
+
+const structuredSections = (entry: ReportEntry): StructuredSection[] => {
+  return entry.mapping?.length && entry.data !== undefined ? applyResultMapping(entry.data, entry.mapping) : [];
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const reportTitle = (entries: ReportEntry[]) => (entries.length === 1 ? `${entries[0].lookup.toolName} lookup report` : `Lookup report (${entries.length} lookups)`);
+
+const sectionToMarkdown = (section: StructuredSection) => {
+  const heading = `#### ${section.label}\n\n`;
+  if (section.status !== 'ok') return `${heading}_${section.message}_\n`;
+  if (section.kind === 'field') return `${heading}${formatCellValue(section.value)}\n`;
+  if (section.kind === 'list') return `${heading}${section.items.map(i => `- ${formatCellValue(i.value)}`).join('\n')}\n`;
+  const header = `| ${section.columns.map(escapeMarkdownCell).join(' | ')} |\n| ${section.columns.map(() => '---').join(' | ')} |`;
+  const rows = section.rows.map(row => `| ${row.map(c => escapeMarkdownCell(formatCellValue(c.value))).join(' | ')} |`);
+  return `${heading}${[header, ...rows].join('\n')}\n`;
+};
+
+export const buildMarkdownReport = (entries: ReportEntry[], generatedBy: string) => {
+  const parts = [`# ${reportTitle(entries)}`, `Generated ${new Date().toISOString()} by ${generatedBy}`];
+  entries.forEach(({ lookup, data, mapping }, i) => {
+    parts.push(`## ${i + 1}. ${lookup.toolName}`);
+    parts.push([
+      `- **Parameters:** ${formatParams(lookup.params)}`,
+      `- **Run at:** ${new Date(lookup.timestamp).toISOString()}`,
+      `- **Requested by:** ${lookup.userEmail}`,
+      `- **Status:** ${lookup.status}${lookup.error ? ` (${lookup.error})` : ''}`
+    ].join('\n'));
+    const sections = structuredSections({ lookup, data, mapping });
+    if (sections.length) parts.push(`### Structured fields\n\n${sections.map(sectionToMarkdown).join('\n')}`);
+    if (lookup.aiSummary) parts.push(`### AI analysis\n\n${lookup.aiSummary}`);
+    if (data !== undefined) parts.push(`### Raw data\n\n\`\`\`json\n${formatRaw(data)}\n\`\`\``);
+  });
+  return `${parts.join('\n\n')}\n`;
+};
+
+const sectionToHtml = (section: StructuredSection) => {
+  const heading = `<h4>${escapeHtml(section.label)}</h4>`;
+  if (section.status !== 'ok') return `${heading}<p class="muted">${escapeHtml(section.message)}</p>`;
+  if (section.kind === 'field') return `${heading}<p>${escapeHtml(formatCellValue(section.value))}</p>`;
+  if (section.kind === 'list') return `${heading}<ul>${section.items.map(i => `<li>${escapeHtml(formatCellValue(i.value))}</li>`).join('')}</ul>`;
+  const head = section.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('');
+  const rows = section.rows.map(row => `<tr>${row.map(c => `<td>${escapeHtml(formatCellValue(c.value))}</td>`).join('')}</tr>`).join('');
+  return `${heading}<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0; }
+  h2 { border-bottom: 2px solid #2563eb; padding-bottom: .3rem; margin-top: 2.5rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+  dt { font-weight: 600; color: #555; }
+  dd { margin: 0; word-break: break-all; }
+  table { border-collapse: collapse; width: 100%; font-size: .85rem; }
+  th, td { border: 1px solid #ddd; padding: .35rem .5rem; text-align: left; vertical-align: top; word-break: break-all; }
+  th { background: #f3f4f6; }
+  pre { background: #f6f8fa; border: 1px solid #e5e7eb; padding: 1rem; font-size: .75rem; white-space: pre-wrap; word-break: break-all; }
+  .muted { color: #777; font-style: italic; }
+  .summary { white-space: pre-wrap; }
+  @media print { body { margin: 0; max-width: none; } section { page-break-before: always; } section:first-of-type { page-break-before: auto; } }
+`;
+
+export const buildHtmlReport = (entries: ReportEntry[], generatedBy: string) => {
+  const body = entries.map(({ lookup, data, mapping }, i) => {
+    const sections = structuredSections({ lookup, data, mapping });
+    return `<section>
+<h2>${i + 1}. ${escapeHtml(lookup.toolName)}</h2>
+<dl>
+<dt>Parameters</dt><dd>${escapeHtml(formatParams(lookup.params))}</dd>
+<dt>Run at</dt><dd>${escapeHtml(new Date(lookup.timestamp).toLocaleString())}</dd>
+<dt>Requested by</dt><dd>${escapeHtml(lookup.userEmail)}</dd>
+<dt>Status</dt><dd>${escapeHtml(lookup.status)}${lookup.error ? ` (${escapeHtml(lookup.error)})` : ''}</dd>
+</dl>
+${sections.length ? `<h3>Structured fields</h3>${sections.map(sectionToHtml).join('\n')}` : ''}
+${lookup.aiSummary ? `<h3>AI analysis</h3><p class="summary">${escapeHtml(lookup.aiSummary)}</p>` : ''}
+${data !== undefined ? `<h3>Raw data</h3><pre>${escapeHtml(formatRaw(data))}</pre>` : ''}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(reportTitle(entries))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(reportTitle(entries))}</h1>
+<p class="muted">Generated ${escapeHtml(new Date().toLocaleString())} by ${escapeHtml(generatedBy)}</p>
+${body}
+</body>
+</html>`;
+};
+
+// One row per leaf value of the raw data, so several lookups fit in a single sheet.
+export const buildCsvReport = (entries: ReportEntry[]) => {
+  const columns = ['lookupId', 'tool', 'parameters', 'timestamp', 'user', 'status', 'field', 'path', 'value', 'aiSummary'];
+  const rows: unknown[][] = [];
+  entries.forEach(({ lookup, data, mapping }) => {
+    const base = [lookup.id, lookup.toolName, formatParams(lookup.params), new Date(lookup.timestamp).toISOString(), lookup.userEmail, lookup.status];
+    rows.push([...base, 'lookup', '', lookup.error || '', lookup.aiSummary || '']);
+    structuredSections({ lookup, data, mapping }).forEach(section => {
+      if (section.status !== 'ok') rows.push([...base, section.label, '', section.message, '']);
+      else if (section.kind === 'field') rows.push([...base, section.label, section.path, section.value, '']);
+      else if (section.kind === 'list') section.items.forEach(item => rows.push([...base, section.label, item.path, item.value, '']));
+      else section.rows.forEach(row => row.forEach((cell, c) => rows.push([...base, `${section.label} / ${section.columns[c]}`, cell.path, cell.value, ''])));
+    });
+    if (data !== undefined) flattenJson(data).forEach(leaf => rows.push([...base, 'raw', leaf.path, leaf.value, '']));
+  });
+  return [columns.join(','), ...rows.map(r => r.map(csvCell).join(','))].join('\n');
+};
+
+// Prints through a hidden frame so the browser's "Save as PDF" produces the file without a popup.
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 60_000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+export const exportReport = (format: ReportFormat, entries: ReportEntry[], generatedBy: string) => {
+  const name = `report-${timestampForFilename()}`;
+  if (format === 'html') downloadFile(`${name}.html`, buildHtmlReport(entries, generatedBy), 'text/html');
+  else if (format === 'markdown') downloadFile(`${name}.md`, buildMarkdownReport(entries, generatedBy), 'text/markdown');
+  else if (format === 'csv') downloadFile(`${name}.csv`, buildCsvReport(entries), 'text/csv');
+  else printHtml(buildHtmlReport(entries, generatedBy));
+};
@@ -0,0 +1,85 @@
+import { OSINTTool, ToolAuth } from '../types';
+import { fillTemplate } from './toolSchema';
+
+export interface ToolRequest {
+  url: string;
+  init: RequestInit;
+}
+
+const raw = (v: string) => v;
+const jsonEscape = (v: string) => JSON.stringify(v).slice(1, -1);
+
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+};
+
+// Every string a tool may put placeholders in, used to check they are all declared.
+export const getToolTemplates = (tool: Partial<OSINTTool>): string[] => {
+  const auth = tool.auth;
+  return [
+    tool.apiUrl || '',
+    ...(tool.headers || []).flatMap(h => [h.key, h.value]),
+    tool.bodyType && tool.bodyType !== 'none' ? tool.bodyTemplate || '' : '',
+    auth?.token || '', auth?.username || '', auth?.password || '', auth?.apiKey || ''
+  ];
+};
+
+const buildAuthHeaders = (auth: ToolAuth | undefined, values: Record<string, string>): Record<string, string> => {
+  if (!auth || auth.type === 'none') return {};
+  if (auth.type === 'bearer') {
+    return { Authorization: `Bearer ${fillTemplate(auth.token || '', values, raw)}` };
+  }
+  if (auth.type === 'basic') {
+    const credentials = `${fillTemplate(auth.username || '', values, raw)}:${fillTemplate(auth.password || '', values, raw)}`;
+    return { Authorization: `Basic ${toBase64(credentials)}` };
+  }
+  if (!auth.headerName) throw new Error('API key header name is not configured');
+  return { [auth.headerName]: fillTemplate(auth.apiKey || '', values, raw) };
+};
+
+// Header names are case-insensitive, so a configured "content-type" must keep the default from being added.
+const setDefaultContentType = (headers: Record<string, string>, value: string) => {
+  if (!Object.keys(headers).some(k => k.toLowerCase() === 'content-type')) headers['Content-Type'] = value;
+};
+
+const buildBody = (tool: OSINTTool, values: Record<string, string>, headers: Record<string, string>) => {
+  const template = tool.bodyTemplate || '';
+  if (tool.bodyType === 'json') {
+    const body = fillTemplate(template, values, jsonEscape);
+    try {
+      JSON.parse(body);
+    } catch {
+      throw new Error('Request body template is not valid JSON');
+    }
+    setDefaultContentType(headers, 'application/json');
+    return body;
+  }
+  if (tool.bodyType === 'form') {
+    const form = new URLSearchParams();
+    template.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+      const idx = line.indexOf('=');
+      const key = idx === -1 ? line : line.slice(0, idx);
+      const value = idx === -1 ? '' : line.slice(idx + 1);
+      form.append(fillTemplate(key.trim(), values, raw), fillTemplate(value.trim(), values, raw));
+    });
+    setDefaultContentType(headers, 'application/x-www-form-urlencoded');
+    return form.toString();
+  }
+  return undefined;
+};
+
+export const buildToolRequest = (tool: OSINTTool, values: Record<string, string>): ToolRequest => {
+  const method = tool.method || 'GET';
+  const headers: Record<string, string> = {};
+  (tool.headers || []).filter(h => h.key).forEach(h => {
+    headers[fillTemplate(h.key, values, raw)] = fillTemplate(h.value, values, raw);
+  });
+  Object.assign(headers, buildAuthHeaders(tool.auth, values));
+
+  const body = method === 'GET' ? undefined : buildBody(tool, values, headers);
+  return {
+    url: fillTemplate(tool.apiUrl, values),
+    init: { method, headers, body }
+  };
+};
@@ -0,0 +1,20 @@
+// Shared by history, cases and the result cache (client and gateway), so it must not import the Firebase client.
+
+// Firestore documents are capped at 1 MiB of UTF-8; leave headroom for the other fields.
+const MAX_RESPONSE_BYTES = 900_000;
+
+export const encodeResponse = (data: any) => {
+  const encoded = JSON.stringify(data) ?? 'null';
+  const bytes = new TextEncoder().encode(encoded);
+  if (bytes.length <= MAX_RESPONSE_BYTES) return { body: encoded, truncated: false };
+  // Backs off to the start of a character so the cut never splits a multi-byte sequence.
+  let end = MAX_RESPONSE_BYTES;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return { body: new TextDecoder().decode(bytes.subarray(0, end)), truncated: true };
+};
+
+export const decodeResponse = (body: string, truncated: boolean) => {
+  if (truncated) return body;
+  try { return JSON.parse(body); }
+  catch { return body; }
+};
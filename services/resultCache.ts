@@ -0,0 +1,77 @@
+import { CachedResult, CachedResultInfo, OSINTTool } from '../types';
+import { getToolParams } from './toolSchema';
+import { decodeResponse, encodeResponse } from './responseCodec';
+import { hasAnyLimit } from './quota';
+
+// Shared by the dashboard and the lookup gateway, so it must not import the Firebase client.
+
+export const MAX_CACHE_TTL_HOURS = 24 * 30;
+
+// Only declared parameters count, and values are trimmed so "a@b.com " and "A@b.com" hit the same entry.
+export const normalizeCacheParams = (tool: Pick<OSINTTool, 'params'>, values: Record<string, string>) => {
+  return Object.fromEntries(getToolParams(tool)
+    .map(p => {
+      const value = (values[p.name] || '').trim();
+      return [p.name, p.type === 'email' || p.type === 'domain' ? value.toLowerCase() : value] as const;
+    })
+    .sort(([a], [b]) => a.localeCompare(b)));
+};
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildCacheKey = async (tool: Pick<OSINTTool, 'id' | 'version' | 'params'>, values: Record<string, string>) => {
+  return `${tool.id}_${await sha256(JSON.stringify([tool.version || 0, normalizeCacheParams(tool, values)]))}`;
+};
+
+export const isCacheEnabled = (tool: Pick<OSINTTool, 'cacheTtlHours'>) => (tool.cacheTtlHours || 0) > 0;
+
+// The shared cache and tool quota counters are written by the gateway alone, so a client can never plant results
+// other analysts are served or use up a tool's quota for everyone. Cached or quota-limited direct tools therefore
+// run there too; drafts never touch the cache, so caching alone keeps them on their usual path.
+export const runsOnGateway = (tool: Pick<OSINTTool, 'useProxy' | 'cacheTtlHours' | 'quota'>, draft = false) => {
+  return !!tool.useProxy || hasAnyLimit(tool.quota) || (!draft && isCacheEnabled(tool));
+};
+
+export const normalizeCacheTtl = (hours: unknown): number | null => {
+  const value = Number(hours);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_CACHE_TTL_HOURS) : null;
+};
+
+// Entries from an older tool version never match, but the check guards against a tool edited mid-request.
+export const isCacheFresh = (entry: CachedResult, tool: Pick<OSINTTool, 'version'>, now = Date.now()) => {
+  return entry.toolVersion === (tool.version || 0) && entry.expiresAt > now;
+};
+
+export const createCacheEntry = (
+  tool: Pick<OSINTTool, 'id' | 'version' | 'params' | 'cacheTtlHours'>,
+  values: Record<string, string>,
+  data: any,
+  createdBy: string,
+  now = Date.now()
+): CachedResult => ({
+  toolId: tool.id,
+  toolVersion: tool.version || 0,
+  params: normalizeCacheParams(tool, values),
+  ...encodeResponse(data),
+  createdAt: now,
+  expiresAt: now + (tool.cacheTtlHours || 0) * 3_600_000,
+  createdBy,
+  aiSummary: null,
+  aiAnalysis: null
+});
+
+export const readCacheEntry = (entry: CachedResult): { data: any; info: CachedResultInfo } => ({
+  data: decodeResponse(entry.body, entry.truncated),
+  info: { createdAt: entry.createdAt, aiSummary: entry.aiSummary || null, aiAnalysis: entry.aiAnalysis || null }
+});
+
+export const formatCacheAge = (createdAt: number, now = Date.now()) => {
+  const minutes = Math.max(0, Math.floor((now - createdAt) / 60_000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m old`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h old`;
+  return `${Math.floor(minutes / 1440)}d old`;
+};
@@ -0,0 +1,96 @@
+import { ResultMappingItem } from '../types';
+import { parseJsonPath, queryJsonPath } from './jsonPath';
+
+export interface StructuredCell {
+  path: string | null;
+  value: any;
+}
+
+export type StructuredSection =
+  | { label: string; kind: 'field'; status: 'ok'; path: string; value: any }
+  | { label: string; kind: 'list'; status: 'ok'; items: StructuredCell[] }
+  | { label: string; kind: 'table'; status: 'ok'; columns: string[]; rows: StructuredCell[][] }
+  | { label: string; kind: ResultMappingItem['kind']; status: 'missing' | 'invalid'; message: string };
+
+export const MAPPING_KINDS: { id: ResultMappingItem['kind']; label: string }[] = [
+  { id: 'field', label: 'Field' },
+  { id: 'list', label: 'List' },
+  { id: 'table', label: 'Table' }
+];
+
+export const formatCellValue = (value: any) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Flattens a match that is itself an array so "$.emails" and "$.emails[*]" behave the same in lists and tables.
+const expandRows = (matches: { path: string; value: any }[]) => {
+  if (matches.length === 1 && Array.isArray(matches[0].value)) {
+    return matches[0].value.map((v, i) => ({ path: `${matches[0].path}[${i}]`, value: v }));
+  }
+  return matches;
+};
+
+const buildSection = (data: any, item: ResultMappingItem): StructuredSection => {
+  const matches = queryJsonPath(data, item.path);
+  if (matches.length === 0) {
+    return { label: item.label, kind: item.kind, status: 'missing', message: `Not present in this response (${item.path}).` };
+  }
+
+  if (item.kind === 'field') {
+    return { label: item.label, kind: 'field', status: 'ok', path: matches[0].path, value: matches[0].value };
+  }
+
+  const rows = expandRows(matches);
+  if (item.kind === 'list') {
+    return { label: item.label, kind: 'list', status: 'ok', items: rows };
+  }
+
+  const columns = item.columns?.length ? item.columns : [{ label: 'Value', path: '$' }];
+  return {
+    label: item.label,
+    kind: 'table',
+    status: 'ok',
+    columns: columns.map(c => c.label),
+    rows: rows.map(row => columns.map(col => {
+      const cell = queryJsonPath(row.value, col.path, row.path)[0];
+      return cell ? { path: cell.path, value: cell.value } : { path: null, value: undefined };
+    }))
+  };
+};
+
+// Never throws: a bad selector or a missing field becomes a section that explains itself.
+export const applyResultMapping = (data: any, mapping: ResultMappingItem[]): StructuredSection[] => {
+  return mapping.map(item => {
+    try {
+      return buildSection(data, item);
+    } catch (err: any) {
+      return { label: item.label, kind: item.kind, status: 'invalid', message: err.message };
+    }
+  });
+};
+
+export const validateResultMapping = (mapping: ResultMappingItem[]): string | null => {
+  for (const item of mapping) {
+    if (!item.label.trim() || !item.path.trim()) return 'Every mapping needs a label and a path.';
+    try {
+      parseJsonPath(item.path);
+      (item.kind === 'table' ? item.columns || [] : []).forEach(c => parseJsonPath(c.path || '$'));
+    } catch (err: any) {
+      return `Mapping "${item.label}": ${err.message}`;
+    }
+  }
+  return null;
+};
+
+export const normalizeResultMapping = (mapping: ResultMappingItem[]): ResultMappingItem[] => {
+  return mapping.map(item => ({
+    label: item.label.trim(),
+    kind: item.kind,
+    path: item.path.trim(),
+    ...(item.kind === 'table'
+      ? { columns: (item.columns || []).filter(c => c.label.trim()).map(c => ({ label: c.label.trim(), path: c.path.trim() || '$' })) }
+      : {})
+  }));
+};
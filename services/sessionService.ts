@@ -0,0 +1,113 @@
+import { doc, getDoc, onSnapshot, runTransaction, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { EndedSession, SessionEndReason, SessionMetadata, SessionSettings, UserProfile } from '../types';
+import { normalizeDeviceLabel } from './deviceInfo';
+import { AuditHook } from './auditService';
+import { appendEndedSessions, endedSession, getSessionExpiry, getSessions, normalizeSessionSettings, planPendingApproval, planSessionStart } from './sessions';
+
+export const SESSION_SETTINGS_PATH = ['settings', 'sessions'] as const;
+
+export const subscribeSessionSettings = (onChange: (settings: SessionSettings) => void) => {
+  return onSnapshot(doc(db, ...SESSION_SETTINGS_PATH),
+    (snapshot) => onChange(normalizeSessionSettings(snapshot.data() as Partial<SessionSettings> | undefined)),
+    (err) => console.error("Session settings sync failed:", err)
+  );
+};
+
+export const loadSessionSettings = async () => {
+  const snapshot = await getDoc(doc(db, ...SESSION_SETTINGS_PATH));
+  return normalizeSessionSettings(snapshot.data() as Partial<SessionSettings> | undefined);
+};
+
+// Every write of the session list also retires the legacy lastSessionId field.
+const sessionFields = (profile: UserProfile, sessions: SessionMetadata[], ended: EndedSession[]) => ({
+  authorizedSessions: sessions,
+  endedSessions: appendEndedSessions(profile.endedSessions, ended),
+  lastSessionId: ''
+});
+
+// Session changes are read-modify-write on the profile, so they run in transactions to keep
+// concurrent sign-ins, revocations and activity updates from undoing each other.
+export const startSession = (uid: string, settings: SessionSettings, device: SessionMetadata) => {
+  const ref = doc(db, 'users', uid);
+  return runTransaction(db, async (tx) => {
+    const profile = (await tx.get(ref)).data() as UserProfile;
+    const plan = planSessionStart(profile, settings, device, Date.now());
+    const changed = plan.status === 'pending' || plan.ended.length > 0 || !!profile.lastSessionId
+      || plan.sessions.length !== getSessions(profile).length;
+    if (changed) {
+      tx.update(ref, {
+        ...sessionFields(profile, plan.sessions, plan.ended),
+        // A device that reloads while waiting keeps the time it first asked.
+        ...(plan.status === 'pending' && {
+          pendingSessionId: device.sid,
+          pendingSessionMetadata: profile.pendingSessionId === device.sid ? { ...device, firstSeenAt: profile.pendingSessionMetadata?.firstSeenAt ?? device.firstSeenAt } : device
+        })
+      });
+    }
+    return plan.status;
+  });
+};
+
+// Returns the authorized device and the sessions it displaced, or null if nothing was waiting.
+export const approvePendingSession = (uid: string, settings: SessionSettings, audit?: AuditHook<{ device: SessionMetadata; replaced: SessionMetadata[] }>) => {
+  const ref = doc(db, 'users', uid);
+  return runTransaction(db, async (tx) => {
+    const profile = (await tx.get(ref)).data() as UserProfile;
+    const plan = planPendingApproval(profile, settings, Date.now());
+    if (!plan) return null;
+    tx.update(ref, { ...sessionFields(profile, plan.sessions, plan.ended), pendingSessionId: null, pendingSessionMetadata: null });
+    const result = { device: plan.device, replaced: plan.replaced };
+    audit?.(tx, result);
+    return result;
+  });
+};
+
+export const denyPendingSession = (uid: string) => {
+  return updateDoc(doc(db, 'users', uid), { pendingSessionId: null, pendingSessionMetadata: null });
+};
+
+// Returns the sessions that were ended; ids that are no longer authorized are ignored.
+export const endSessions = (uid: string, sids: string[], reason: SessionEndReason, byEmail: string | null = null, audit?: AuditHook<SessionMetadata[]>) => {
+  const ref = doc(db, 'users', uid);
+  return runTransaction(db, async (tx) => {
+    const profile = (await tx.get(ref)).data() as UserProfile;
+    const sessions = getSessions(profile);
+    const ending = sessions.filter(s => sids.includes(s.sid));
+    if (ending.length === 0) return [];
+    const now = Date.now();
+    tx.update(ref, sessionFields(profile, sessions.filter(s => !sids.includes(s.sid)), ending.map(s => endedSession(s, reason, now, byEmail))));
+    audit?.(tx, ending);
+    return ending;
+  });
+};
+
+// An expired session is left alone rather than revived by a late activity update.
+export const touchSession = (uid: string, sid: string, settings: SessionSettings) => {
+  const ref = doc(db, 'users', uid);
+  return runTransaction(db, async (tx) => {
+    const profile = (await tx.get(ref)).data() as UserProfile;
+    const sessions = getSessions(profile);
+    const session = sessions.find(s => s.sid === sid);
+    const now = Date.now();
+    const expiry = session && getSessionExpiry(session, settings);
+    if (!session || (expiry && expiry.at <= now)) return;
+    tx.update(ref, {
+      authorizedSessions: sessions.map(s => (s.sid === sid ? { ...s, lastActiveAt: now } : s)),
+      lastSessionId: ''
+    });
+  });
+};
+
+export const renameSession = (uid: string, sid: string, label: string) => {
+  const ref = doc(db, 'users', uid);
+  return runTransaction(db, async (tx) => {
+    const profile = (await tx.get(ref)).data() as UserProfile;
+    const sessions = getSessions(profile);
+    if (!sessions.some(s => s.sid === sid)) return;
+    tx.update(ref, {
+      authorizedSessions: sessions.map(s => (s.sid === sid ? { ...s, label: normalizeDeviceLabel(label) } : s)),
+      lastSessionId: ''
+    });
+  });
+};
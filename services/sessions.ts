@@ -0,0 +1,138 @@
+import { EndedSession, SessionEndReason, SessionMetadata, SessionSettings, UserProfile } from '../types';
+import { describeDevice } from './deviceInfo';
+
+// Pure session rules shared by sign-in, the running app and the admin Devices tab.
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  deviceLimits: { standard: 1, admin: null },
+  idleTimeoutMinutes: null,
+  absoluteTimeoutHours: null
+};
+
+export const MAX_ENDED_SESSIONS = 20;
+
+// Heartbeat interval. Activity is written at most this often, so idle timeouts are accurate to about a minute.
+export const ACTIVITY_WRITE_INTERVAL_MS = 60_000;
+
+export type SessionState =
+  | { status: 'active'; session: SessionMetadata }
+  | { status: 'pending' }
+  | { status: 'ended'; reason: SessionEndReason; byEmail: string | null };
+
+export interface SessionStartPlan {
+  status: SessionState['status'];
+  sessions: SessionMetadata[];
+  ended: EndedSession[];
+}
+
+const positiveOrNull = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null);
+
+// Only fields missing from the document take the default; a stored null stays unlimited.
+export const normalizeSessionSettings = (data: Partial<SessionSettings> | undefined): SessionSettings => {
+  const pick = (value: unknown, fallback: number | null) => (value === undefined ? fallback : positiveOrNull(value));
+  return {
+    deviceLimits: {
+      standard: pick(data?.deviceLimits?.standard, DEFAULT_SESSION_SETTINGS.deviceLimits.standard),
+      admin: pick(data?.deviceLimits?.admin, DEFAULT_SESSION_SETTINGS.deviceLimits.admin)
+    },
+    idleTimeoutMinutes: pick(data?.idleTimeoutMinutes, DEFAULT_SESSION_SETTINGS.idleTimeoutMinutes),
+    absoluteTimeoutHours: pick(data?.absoluteTimeoutHours, DEFAULT_SESSION_SETTINGS.absoluteTimeoutHours)
+  };
+};
+
+// The owner is never limited, so the account that manages limits cannot lock itself out.
+export const resolveDeviceLimit = (profile: UserProfile, settings: SessionSettings) => {
+  if (profile.isOwner) return null;
+  const override = positiveOrNull(profile.deviceLimit);
+  if (override !== null) return override;
+  return profile.isAdmin ? settings.deviceLimits.admin : settings.deviceLimits.standard;
+};
+
+// Standard accounts from before multi-device sessions only have lastSessionId.
+export const getSessions = (profile: UserProfile): SessionMetadata[] => {
+  const sessions = profile.authorizedSessions || [];
+  if (profile.isAdmin || profile.isOwner || !profile.lastSessionId || sessions.some(s => s.sid === profile.lastSessionId)) return sessions;
+  return [...sessions, { sid: profile.lastSessionId, deviceName: 'Unknown Device', timestamp: 0 }];
+};
+
+export const lastActivity = (session: SessionMetadata) => session.lastActiveAt || session.timestamp;
+
+// Sessions carried over from lastSessionId have no start time and only idle out once they record activity.
+export const getSessionExpiry = (session: SessionMetadata, settings: SessionSettings): { at: number; reason: 'idle' | 'expired' } | null => {
+  const deadlines: { at: number; reason: 'idle' | 'expired' }[] = [];
+  if (settings.absoluteTimeoutHours && session.timestamp) {
+    deadlines.push({ at: session.timestamp + settings.absoluteTimeoutHours * 3_600_000, reason: 'expired' });
+  }
+  if (settings.idleTimeoutMinutes && lastActivity(session)) {
+    deadlines.push({ at: lastActivity(session) + settings.idleTimeoutMinutes * 60_000, reason: 'idle' });
+  }
+  return deadlines.sort((a, b) => a.at - b.at)[0] || null;
+};
+
+export const endedSession = (session: SessionMetadata, reason: SessionEndReason, at: number, byEmail: string | null = null): EndedSession => ({
+  sid: session.sid,
+  deviceName: describeDevice(session),
+  reason,
+  at,
+  byEmail
+});
+
+export const appendEndedSessions = (existing: EndedSession[] | undefined, ended: EndedSession[]) => {
+  return [...ended, ...(existing || []).filter(e => !ended.some(n => n.sid === e.sid))].slice(0, MAX_ENDED_SESSIONS);
+};
+
+// Splits sessions into those still valid and records for those that have run out.
+export const partitionSessions = (sessions: SessionMetadata[], settings: SessionSettings, now: number) => {
+  const active: SessionMetadata[] = [];
+  const ended: EndedSession[] = [];
+  sessions.forEach(session => {
+    const expiry = getSessionExpiry(session, settings);
+    if (expiry && expiry.at <= now) ended.push(endedSession(session, expiry.reason, expiry.at));
+    else active.push(session);
+  });
+  return { active, ended };
+};
+
+// Decides what a device gets at sign-in: its existing session, a free slot, or a place in the approval queue.
+// A device whose session already ended stays signed out until the user signs in again with a new session id.
+export const planSessionStart = (profile: UserProfile, settings: SessionSettings, device: SessionMetadata, now: number): SessionStartPlan => {
+  const { active, ended } = partitionSessions(getSessions(profile), settings, now);
+  if (active.some(s => s.sid === device.sid)) return { status: 'active', sessions: active, ended };
+  if (ended.some(e => e.sid === device.sid) || profile.endedSessions?.some(e => e.sid === device.sid)) {
+    return { status: 'ended', sessions: active, ended };
+  }
+  const limit = resolveDeviceLimit(profile, settings);
+  if (limit === null || active.length < limit) return { status: 'active', sessions: [...active, device], ended };
+  return { status: 'pending', sessions: active, ended };
+};
+
+// Authorizes the waiting device and ends the least recently active sessions needed to stay within the limit.
+export const planPendingApproval = (profile: UserProfile, settings: SessionSettings, now: number) => {
+  if (!profile.pendingSessionId) return null;
+  const device: SessionMetadata = {
+    ...(profile.pendingSessionMetadata || { deviceName: 'Unknown Device' }),
+    sid: profile.pendingSessionId,
+    timestamp: now
+  };
+  const { active, ended } = partitionSessions(getSessions(profile), settings, now);
+  const limit = resolveDeviceLimit(profile, settings);
+  const replaced = limit === null ? [] : [...active].sort((a, b) => lastActivity(b) - lastActivity(a)).slice(Math.max(0, limit - 1));
+  return {
+    device,
+    replaced,
+    sessions: [...active.filter(s => !replaced.includes(s)), device],
+    ended: [...ended, ...replaced.map(s => endedSession(s, 'replaced', now))]
+  };
+};
+
+export const getSessionState = (profile: UserProfile, sid: string, settings: SessionSettings, now: number): SessionState => {
+  const session = getSessions(profile).find(s => s.sid === sid);
+  if (session) {
+    const expiry = getSessionExpiry(session, settings);
+    return expiry && expiry.at <= now ? { status: 'ended', reason: expiry.reason, byEmail: null } : { status: 'active', session };
+  }
+  if (profile.pendingSessionId === sid) return { status: 'pending' };
+  const ended = profile.endedSessions?.find(e => e.sid === sid);
+  // Without a record the session was displaced by an approval made before reasons were kept.
+  return { status: 'ended', reason: ended?.reason || 'replaced', byEmail: ended?.byEmail || null };
+};
@@ -0,0 +1,251 @@
+import { BundledTool, JsonDiffEntry, OSINTTool, ToolBundle } from '../types';
+import { ToolConfig, normalizeToolConfig, validateToolConfig } from './toolConfig';
+import { PARAM_TYPES } from './toolSchema';
+import { MAPPING_KINDS } from './resultMapping';
+import { AI_PROVIDERS } from './aiPrompt';
+import { diffJson } from './jsonDiff';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+export const TOOL_BUNDLE_FORMAT = 'flexer-tool-bundle';
+export const TOOL_BUNDLE_VERSION = 1;
+
+export type BundleFileFormat = 'json' | 'yaml';
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const BODY_TYPES = ['none', 'json', 'form'];
+const AUTH_TYPES = ['none', 'bearer', 'basic', 'apiKey'];
+const AUTH_SECRET_FIELDS = ['token', 'password', 'apiKey'] as const;
+const CREDENTIAL_NAME = /auth|key|token|secret|cookie|password|session|signature/i;
+
+// "Bearer {api_key}" only points at a gateway secret or parameter, so it is safe to export as is.
+const isPlaceholderOnly = (value: string) => value.replace(/\{[A-Za-z0-9_]+\}/g, '').replace(/\b(bearer|basic|token|key)\b/gi, '').trim() === '';
+
+// Visits the URL's user name and password, and every credential-looking URL query parameter and body field (JSON
+// string or form line), with an id such as url.password, query.api_key or body.token; visit returns the value to keep
+// in its place. A blanked user name or password keeps its "@" so an import can put the stored value back.
+const mapInlineCredentials = (tool: Pick<OSINTTool, 'apiUrl' | 'bodyType' | 'bodyTemplate'>, visit: (id: string, value: string) => string) => {
+  const apiUrl = (tool.apiUrl || '')
+    .replace(/^([a-z][a-z\d+.-]*:\/\/)([^/?#@]*)@/i, (match, scheme, userinfo: string) => {
+      const colon = userinfo.indexOf(':');
+      const username = visit('url.username', colon === -1 ? userinfo : userinfo.slice(0, colon));
+      return colon === -1 ? `${scheme}${username}@` : `${scheme}${username}:${visit('url.password', userinfo.slice(colon + 1))}@`;
+    })
+    .replace(/([?&])([^=&#]+)=([^&#]*)/g, (match, sep, key, value) =>
+      CREDENTIAL_NAME.test(key) ? `${sep}${key}=${visit(`query.${key}`, value)}` : match);
+  let bodyTemplate = tool.bodyTemplate || '';
+  if (tool.bodyType === 'json') {
+    bodyTemplate = bodyTemplate.replace(/"((?:[^"\\]|\\.)*)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g, (match, key, colon, value) =>
+      CREDENTIAL_NAME.test(key) ? `"${key}"${colon}"${visit(`body.${key}`, value)}"` : match);
+  }
+  if (tool.bodyType === 'form') {
+    bodyTemplate = bodyTemplate.replace(/^([ \t]*)([^=\n]+?)([ \t]*=[ \t]*)(.*)$/gm, (match, indent, key, eq, value) =>
+      CREDENTIAL_NAME.test(key) ? `${indent}${key}${eq}${visit(`body.${key.trim()}`, value)}` : match);
+  }
+  return { apiUrl, bodyTemplate };
+};
+
+// Inline credentials are blanked; gateway secrets live in toolSecrets, which clients cannot read, so they are never in a bundle.
+export const bundleTool = (tool: OSINTTool): BundledTool => {
+  const { version, ...config } = tool;
+  const requiresSecrets: string[] = [];
+  const strip = (id: string, value: string) => {
+    if (!value || isPlaceholderOnly(value)) return value;
+    requiresSecrets.push(id);
+    return '';
+  };
+  const auth = tool.auth ? { ...tool.auth } : undefined;
+  if (auth) AUTH_SECRET_FIELDS.forEach(field => { if (typeof auth[field] === 'string') auth[field] = strip(`auth.${field}`, auth[field]!); });
+  const headers = tool.headers?.map(h => (CREDENTIAL_NAME.test(h.key) ? { key: h.key, value: strip(`headers.${h.key}`, h.value) } : h));
+  const { apiUrl, bodyTemplate } = mapInlineCredentials(tool, strip);
+  (tool.secretKeys || []).forEach(k => requiresSecrets.push(`secrets.${k}`));
+  return {
+    ...config,
+    apiUrl,
+    ...(tool.bodyTemplate !== undefined ? { bodyTemplate } : {}),
+    ...(auth ? { auth } : {}),
+    ...(headers ? { headers } : {}),
+    requiresSecrets
+  };
+};
+
+export const buildToolBundle = (tools: OSINTTool[], exportedBy: string, now = Date.now()): ToolBundle => ({
+  format: TOOL_BUNDLE_FORMAT,
+  version: TOOL_BUNDLE_VERSION,
+  exportedAt: now,
+  exportedBy,
+  tools: tools.map(bundleTool)
+});
+
+export const serializeToolBundle = (bundle: ToolBundle, format: BundleFileFormat) =>
+  format === 'json' ? JSON.stringify(bundle, null, 2) : stringifyYaml(bundle);
+
+// Tools stay unchecked here so one bad entry does not reject the whole file; planToolImport reports them individually.
+export interface ParsedToolBundle extends Omit<ToolBundle, 'tools'> {
+  tools: unknown[];
+}
+
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseToolBundle = (text: string): ParsedToolBundle => {
+  let data: unknown;
+  if (/^\s*[{[]/.test(text)) {
+    try {
+      data = JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(`The file is not valid JSON: ${err.message}`);
+    }
+  } else {
+    try {
+      data = parseYaml(text);
+    } catch (err: any) {
+      throw new Error(`The file is not valid YAML. ${err.message}`);
+    }
+  }
+  if (!isRecord(data) || data.format !== TOOL_BUNDLE_FORMAT) throw new Error("This file is not a tool bundle.");
+  if (typeof data.version !== 'number' || data.version > TOOL_BUNDLE_VERSION) {
+    throw new Error(`Bundle format ${data.version} is newer than this app supports (${TOOL_BUNDLE_VERSION}).`);
+  }
+  if (!Array.isArray(data.tools)) throw new Error("The bundle has no tools list.");
+  return {
+    format: TOOL_BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    exportedBy: typeof data.exportedBy === 'string' ? data.exportedBy : '',
+    tools: data.tools
+  };
+};
+
+const isString = (value: unknown) => typeof value === 'string';
+const isOptional = (value: unknown, test: (v: any) => boolean) => value === undefined || value === null || test(value);
+const isListOf = (value: unknown, test: (v: any) => boolean) => Array.isArray(value) && value.every(test);
+const isStringList = (value: unknown) => isListOf(value, isString);
+
+const isParam = (p: any) =>
+  isRecord(p) && isString(p.name) && PARAM_TYPES.some(t => t.id === p.type) &&
+  ['label', 'pattern', 'defaultValue', 'helpText'].every(k => isOptional(p[k], isString)) &&
+  isOptional(p.required, v => typeof v === 'boolean') && isOptional(p.options, isStringList);
+
+const isMapping = (m: any) =>
+  isRecord(m) && isString(m.label) && isString(m.path) && MAPPING_KINDS.some(k => k.id === m.kind) &&
+  isOptional(m.columns, v => isListOf(v, c => isRecord(c) && isString(c.label) && isString(c.path)));
+
+// Matches the OSINTTool type closely enough that normalizeToolConfig and validateToolConfig can run safely.
+export const checkToolShape = (raw: unknown): string | null => {
+  if (!isRecord(raw)) return "Each tool must be an object.";
+  if (!isString(raw.name) || !isString(raw.apiUrl)) return '"name" and "apiUrl" must be text.';
+  const text = ['id', 'description', 'icon', 'bodyTemplate'].find(k => !isOptional(raw[k], isString));
+  if (text) return `"${text}" must be text.`;
+  if (!isOptional(raw.useProxy, v => typeof v === 'boolean')) return '"useProxy" must be true or false.';
+  if (!isOptional(raw.cacheTtlHours, v => typeof v === 'number')) return '"cacheTtlHours" must be a number.';
+  if (!isOptional(raw.method, v => HTTP_METHODS.includes(v))) return `"method" must be one of ${HTTP_METHODS.join(', ')}.`;
+  if (!isOptional(raw.bodyType, v => BODY_TYPES.includes(v))) return `"bodyType" must be one of ${BODY_TYPES.join(', ')}.`;
+  const list = ['secretKeys', 'allowedGroups', 'requiresSecrets'].find(k => !isOptional(raw[k], isStringList));
+  if (list) return `"${list}" must be a list of text values.`;
+  if (!isOptional(raw.params, v => isListOf(v, isParam))) return '"params" must be a list of parameters, each with a name and a known type.';
+  if (!isOptional(raw.headers, v => isListOf(v, h => isRecord(h) && isString(h.key) && isString(h.value)))) return '"headers" must be a list of key/value pairs.';
+  if (!isOptional(raw.auth, a => isRecord(a) && AUTH_TYPES.includes(a.type) && ['token', 'username', 'password', 'headerName', 'apiKey'].every(k => isOptional(a[k], isString)))) {
+    return `"auth" must have a type of ${AUTH_TYPES.join(', ')}.`;
+  }
+  if (!isOptional(raw.quota, q => isRecord(q) && ['daily', 'monthly'].every(k => isOptional(q[k], v => typeof v === 'number')))) return '"quota" must have numeric daily and monthly limits.';
+  if (!isOptional(raw.resultMapping, v => isListOf(v, isMapping))) return '"resultMapping" must be a list of sections, each with a label, a known kind and a path.';
+  if (!isOptional(raw.ai, a => isRecord(a) && typeof a.enabled === 'boolean' && isOptional(a.provider, p => AI_PROVIDERS.some(x => x.id === p)) && isOptional(a.model, isString) && isOptional(a.templateId, isString))) {
+    return '"ai" must have an enabled flag and a known provider.';
+  }
+  return null;
+};
+
+// Blanked credentials keep the value already stored on the tool being updated, as long as it uses the same auth type.
+export const mergeCredentials = (config: ToolConfig, existing: OSINTTool): ToolConfig => {
+  const auth = config.auth && existing.auth?.type === config.auth.type ? { ...config.auth } : config.auth;
+  if (auth && auth !== config.auth) AUTH_SECRET_FIELDS.forEach(field => { if (!auth[field] && existing.auth?.[field]) auth[field] = existing.auth[field]; });
+  const headers = config.headers?.map(h => {
+    if (h.value || !CREDENTIAL_NAME.test(h.key)) return h;
+    const current = existing.headers?.find(e => e.key.toLowerCase() === h.key.toLowerCase());
+    return current ? { key: h.key, value: current.value } : h;
+  });
+  const stored: Record<string, string> = {};
+  mapInlineCredentials(existing, (id, value) => { stored[id] = value; return value; });
+  const inline = mapInlineCredentials(config, (id, value) => value || stored[id] || value);
+  return { ...config, auth, headers, apiUrl: inline.apiUrl, bodyTemplate: inline.bodyTemplate };
+};
+
+// Identifiers such as auth.token or secrets.api_key, for values an admin still has to enter after the import.
+export const findMissingSecrets = (config: ToolConfig, existing?: OSINTTool): string[] => {
+  const missing: string[] = [];
+  const auth = config.auth;
+  if (auth?.type === 'bearer' && !auth.token) missing.push('auth.token');
+  if (auth?.type === 'basic' && !auth.password) missing.push('auth.password');
+  if (auth?.type === 'apiKey' && !auth.apiKey) missing.push('auth.apiKey');
+  (config.headers || []).filter(h => !h.value && CREDENTIAL_NAME.test(h.key)).forEach(h => missing.push(`headers.${h.key}`));
+  mapInlineCredentials(config, (id, value) => { if (!value) missing.push(id); return value; });
+  (config.secretKeys || []).filter(k => !existing?.secretKeys?.includes(k)).forEach(k => missing.push(`secrets.${k}`));
+  return missing;
+};
+
+export const describeSecret = (id: string) => {
+  if (id === 'auth.token') return 'Bearer token';
+  if (id === 'auth.password') return 'Basic auth password';
+  if (id === 'auth.apiKey') return 'API key';
+  if (id.startsWith('headers.')) return `Header ${id.slice('headers.'.length)}`;
+  if (id === 'url.username') return 'URL user name';
+  if (id === 'url.password') return 'URL password';
+  if (id.startsWith('query.')) return `URL parameter ${id.slice('query.'.length)}`;
+  if (id.startsWith('body.')) return `Body field ${id.slice('body.'.length)}`;
+  if (id.startsWith('secrets.')) return `Gateway secret {${id.slice('secrets.'.length)}}`;
+  return id;
+};
+
+export type ToolImportStatus = 'new' | 'identical' | 'conflict' | 'invalid';
+export type ToolImportChoice = 'create' | 'update' | 'skip';
+
+export interface ToolImportItem {
+  index: number; // Position in the bundle
+  name: string;
+  status: ToolImportStatus;
+  error?: string; // Only for 'invalid'
+  config?: ToolConfig; // Normalized as it would be created
+  merged?: ToolConfig; // The update for 'conflict' and 'identical', with stored credentials carried over
+  existing?: OSINTTool;
+  diff: JsonDiffEntry[]; // From the existing tool to merged
+  warnings: string[];
+  defaultChoice: ToolImportChoice;
+}
+
+// Existing tools are matched by id first, so re-importing into the same project updates in place, then by name.
+export const planToolImport = (bundle: ParsedToolBundle, tools: OSINTTool[], known: { groupIds: string[]; templateIds: string[] }): ToolImportItem[] => {
+  return bundle.tools.map((raw, index) => {
+    const label = isRecord(raw) && isString(raw.name) && raw.name ? raw.name : `Tool ${index + 1}`;
+    const shapeError = checkToolShape(raw);
+    const error = shapeError || validateToolConfig(raw as Partial<OSINTTool>);
+    if (error) return { index, name: label, status: 'invalid', error, diff: [], warnings: [], defaultChoice: 'skip' };
+
+    const tool = raw as BundledTool;
+    const unknownGroups = (tool.allowedGroups || []).filter(id => !known.groupIds.includes(id));
+    // Dropping every group would leave an empty list, which opens the tool to all users, so such tools are refused instead.
+    if (unknownGroups.length && unknownGroups.length === tool.allowedGroups!.length) {
+      const error = `Limited to groups that are not in this project (${unknownGroups.join(', ')}). Replace them in "allowedGroups" with ids of groups from this project.`;
+      return { index, name: label, status: 'invalid', error, diff: [], warnings: [], defaultChoice: 'skip' };
+    }
+    const config = normalizeToolConfig(tool, known);
+    const warnings: string[] = [];
+    if (unknownGroups.length) warnings.push(`Groups not in this project were dropped: ${unknownGroups.join(', ')}`);
+    if (tool.ai?.templateId && !known.templateIds.includes(tool.ai.templateId)) warnings.push(`Prompt template ${tool.ai.templateId} is not in this project; the default prompt is used.`);
+
+    const existing = tools.find(t => t.id === tool.id) || tools.find(t => t.name.trim().toLowerCase() === tool.name.trim().toLowerCase());
+    if (!existing) return { index, name: tool.name, status: 'new', config, diff: [], warnings, defaultChoice: 'create' };
+
+    const merged = mergeCredentials(config, existing);
+    const { entries } = diffJson(normalizeToolConfig(existing, known), merged);
+    return {
+      index,
+      name: tool.name,
+      status: entries.length ? 'conflict' : 'identical',
+      config,
+      merged,
+      existing,
+      diff: entries,
+      warnings,
+      defaultChoice: 'skip'
+    };
+  });
+};
@@ -0,0 +1,75 @@
+import { OSINTTool, ToolAuth } from '../types';
+import { extractPlaceholders, normalizeParams } from './toolSchema';
+import { getToolTemplates } from './requestBuilder';
+import { normalizeQuota } from './quota';
+import { normalizeCacheTtl } from './resultCache';
+import { normalizeResultMapping, validateResultMapping } from './resultMapping';
+
+// Everything an admin configures on a tool; id and version are managed by the app.
+export type ToolConfig = Omit<OSINTTool, 'id' | 'version'>;
+
+export const toToolConfig = (tool: OSINTTool): ToolConfig => {
+  const { id, version, ...config } = tool;
+  return config;
+};
+
+const NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// Shared by the tool editor and bundle import so both accept exactly the same configurations.
+export const validateToolConfig = (tool: Partial<OSINTTool>): string | null => {
+  if (!tool.name || !tool.apiUrl) return "Please fill in the tool name and URL.";
+  const params = tool.params || [];
+  const paramNames = params.map(p => p.name);
+  if (params.some(p => !NAME_PATTERN.test(p.name))) return "Parameter names may only contain letters, numbers and underscores.";
+  if (new Set(paramNames).size !== paramNames.length) return "Parameter names must be unique.";
+  if (params.some(p => p.type === 'enum' && !p.options?.length)) return "Choice parameters need at least one option.";
+  const secretKeys = (tool.secretKeys || []).filter(Boolean);
+  if (secretKeys.length > 0 && !tool.useProxy) return "Secrets are only available to tools that run through the lookup gateway.";
+  if (secretKeys.some(k => paramNames.includes(k) || !NAME_PATTERN.test(k))) {
+    return "Secret names must be valid placeholder names and differ from parameter names.";
+  }
+  const declared = [...(params.length ? paramNames : ['query']), ...secretKeys];
+  const undeclared = extractPlaceholders(getToolTemplates(tool).join(' ')).filter(name => !declared.includes(name));
+  if (undeclared.length > 0) return `The request uses undeclared placeholders: ${undeclared.map(n => `{${n}}`).join(', ')}`;
+  const mappingError = validateResultMapping(tool.resultMapping || []);
+  if (mappingError) return mappingError;
+  if (tool.auth?.type === 'apiKey' && !tool.auth.headerName) return "Please set the header name for the API key.";
+  return null;
+};
+
+export const normalizeAuth = (auth: ToolAuth): ToolAuth => {
+  if (auth.type === 'bearer') return { type: 'bearer', token: auth.token || '' };
+  if (auth.type === 'basic') return { type: 'basic', username: auth.username || '', password: auth.password || '' };
+  if (auth.type === 'apiKey') return { type: 'apiKey', headerName: auth.headerName || '', apiKey: auth.apiKey || '' };
+  return { type: 'none' };
+};
+
+// Group and prompt template ids that do not exist in this project are dropped.
+export const normalizeToolConfig = (tool: Partial<OSINTTool>, known: { groupIds: string[]; templateIds: string[] }) => {
+  const method = tool.method || 'GET';
+  const bodyType = method === 'GET' ? 'none' : tool.bodyType || 'none';
+  return {
+    name: tool.name || '',
+    apiUrl: tool.apiUrl || '',
+    description: tool.description || "",
+    icon: tool.icon || "fas fa-search",
+    useProxy: !!tool.useProxy,
+    cacheTtlHours: normalizeCacheTtl(tool.cacheTtlHours),
+    secretKeys: (tool.secretKeys || []).filter(Boolean),
+    params: normalizeParams(tool.params || []),
+    method,
+    headers: (tool.headers || []).filter(h => h.key.trim()).map(h => ({ key: h.key.trim(), value: h.value })),
+    bodyType,
+    bodyTemplate: bodyType === 'none' ? '' : tool.bodyTemplate || '',
+    auth: normalizeAuth(tool.auth || { type: 'none' }),
+    quota: normalizeQuota(tool.quota),
+    allowedGroups: (tool.allowedGroups || []).filter(id => known.groupIds.includes(id)),
+    resultMapping: normalizeResultMapping(tool.resultMapping || []),
+    ai: {
+      enabled: tool.ai?.enabled !== false,
+      provider: tool.ai?.provider || null,
+      model: tool.ai?.model?.trim() || null,
+      templateId: tool.ai?.templateId && known.templateIds.includes(tool.ai.templateId) ? tool.ai.templateId : null
+    }
+  };
+};
@@ -0,0 +1,147 @@
+import { LookupResult, OSINTTool, ResultMappingItem, ToolParam, ToolParamType, ToolTestResponse } from '../types';
+import { applyResultMapping } from './resultMapping';
+import { getDefaultValues } from './toolSchema';
+
+// Values a test run can use when the admin has not typed any; they pass the built-in type checks.
+const SAMPLE_VALUES: Record<ToolParamType, string> = {
+  text: 'test',
+  email: 'test@example.com',
+  phone: '+15551234567',
+  domain: 'example.com',
+  ip: '8.8.8.8',
+  username: 'johndoe',
+  enum: ''
+};
+
+export const getSampleValues = (params: ToolParam[]): Record<string, string> => {
+  const defaults = getDefaultValues(params);
+  return Object.fromEntries(params.map(p => [p.name, defaults[p.name] || SAMPLE_VALUES[p.type]]));
+};
+
+export interface MappingCheck {
+  label: string;
+  path: string;
+  status: 'ok' | 'missing' | 'invalid';
+  message?: string;
+}
+
+export interface ToolTestReport {
+  ok: boolean; // 2xx and every mapped section found
+  status: number;
+  durationMs: number;
+  contentType: string;
+  sizeBytes: number;
+  isJson: boolean;
+  mapping: MappingCheck[];
+  data: any;
+}
+
+export const buildTestReport = (response: ToolTestResponse, mapping: ResultMappingItem[]): ToolTestReport => {
+  const checks: MappingCheck[] = applyResultMapping(response.data, mapping).map((section, i) => ({
+    label: section.label,
+    path: mapping[i].path,
+    status: section.status === 'ok' ? 'ok' : section.status,
+    ...(section.status !== 'ok' ? { message: section.message } : {})
+  }));
+  return {
+    ok: response.status >= 200 && response.status < 300 && checks.every(c => c.status === 'ok'),
+    status: response.status,
+    durationMs: response.durationMs,
+    contentType: response.contentType,
+    sizeBytes: response.sizeBytes,
+    isJson: typeof response.data !== 'string',
+    mapping: checks,
+    data: response.data
+  };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+// A tool is degraded when, over the last day, enough lookups failed or ran slow, or when its latest lookups all failed.
+export const HEALTH_WINDOW_MS = 24 * 3_600_000;
+export const MIN_HEALTH_SAMPLE = 5;
+export const DEGRADED_SUCCESS_RATE = 0.8;
+export const SLOW_P95_MS = 10_000;
+export const FAILURE_STREAK = 3;
+
+export type ToolHealthStatus = 'healthy' | 'degraded' | 'idle';
+
+export interface ToolHealthDay {
+  day: string; // YYYY-MM-DD, local time
+  total: number;
+  failures: number;
+  medianMs: number | null;
+}
+
+export interface ToolHealth {
+  toolId: string;
+  status: ToolHealthStatus;
+  reasons: string[];
+  total: number; // Lookups in the health window
+  successRate: number | null;
+  medianMs: number | null;
+  p95Ms: number | null;
+  days: ToolHealthDay[]; // Oldest first
+  lastError: { message: string; timestamp: number } | null;
+}
+
+const percentile = (values: number[], p: number) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+};
+
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const durations = (lookups: LookupResult[]) => lookups.map(l => l.durationMs).filter((ms): ms is number => typeof ms === 'number');
+
+// Cache hits never reach the provider, so they say nothing about its health.
+export const computeToolHealth = (tool: Pick<OSINTTool, 'id'>, lookups: LookupResult[], now = Date.now(), dayCount = 14): ToolHealth => {
+  const runs = lookups.filter(l => l.toolId === tool.id && !l.cachedAt).sort((a, b) => b.timestamp - a.timestamp);
+  const recent = runs.filter(l => now - l.timestamp <= HEALTH_WINDOW_MS);
+  const successes = recent.filter(l => l.status === 'success').length;
+  const successRate = recent.length ? successes / recent.length : null;
+  const p95Ms = percentile(durations(recent), 0.95);
+
+  const reasons: string[] = [];
+  if (recent.length >= MIN_HEALTH_SAMPLE && successRate! < DEGRADED_SUCCESS_RATE) {
+    reasons.push(`${Math.round(successRate! * 100)}% of lookups succeeded in the last 24h`);
+  }
+  if (recent.length >= MIN_HEALTH_SAMPLE && p95Ms !== null && p95Ms > SLOW_P95_MS) {
+    reasons.push(`95th percentile latency is ${formatDuration(p95Ms)}`);
+  }
+  if (runs.length >= FAILURE_STREAK && runs.slice(0, FAILURE_STREAK).every(l => l.status === 'error')) {
+    reasons.push(`The last ${FAILURE_STREAK} lookups failed`);
+  }
+
+  const days: ToolHealthDay[] = Array.from({ length: dayCount }, (_, i) => {
+    const key = dayKey(now - (dayCount - 1 - i) * 86_400_000);
+    const dayRuns = runs.filter(l => dayKey(l.timestamp) === key);
+    return { day: key, total: dayRuns.length, failures: dayRuns.filter(l => l.status === 'error').length, medianMs: percentile(durations(dayRuns), 0.5) };
+  });
+
+  const failed = runs.find(l => l.status === 'error');
+  return {
+    toolId: tool.id,
+    status: reasons.length ? 'degraded' : recent.length ? 'healthy' : 'idle',
+    reasons,
+    total: recent.length,
+    successRate,
+    medianMs: percentile(durations(recent), 0.5),
+    p95Ms,
+    days,
+    lastError: failed ? { message: failed.error || 'Unknown error', timestamp: failed.timestamp } : null
+  };
+};
@@ -0,0 +1,98 @@
+import { OSINTTool, ToolParam, ToolParamType } from '../types';
+
+export const PARAM_TYPES: { id: ToolParamType; label: string; placeholder: string }[] = [
+  { id: 'text', label: 'Free Text', placeholder: 'Enter search text...' },
+  { id: 'email', label: 'Email', placeholder: 'name@domain.com' },
+  { id: 'phone', label: 'Phone', placeholder: '+15551234567' },
+  { id: 'domain', label: 'Domain', placeholder: 'example.com' },
+  { id: 'ip', label: 'IP Address', placeholder: '8.8.8.8' },
+  { id: 'username', label: 'Username', placeholder: 'johndoe' },
+  { id: 'enum', label: 'Choice', placeholder: '' }
+];
+
+const TYPE_PATTERNS: Partial<Record<ToolParamType, RegExp>> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  phone: /^\+?[0-9\s\-().]{6,20}$/,
+  domain: /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i,
+  ip: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$|^[0-9a-f:]*:[0-9a-f:]+$/i,
+  username: /^[A-Za-z0-9._-]{1,64}$/
+};
+
+const LEGACY_QUERY_PARAM: ToolParam = {
+  name: 'query',
+  label: 'Search',
+  type: 'text',
+  required: true
+};
+
+// Tools created before schemas existed only have a {query} placeholder in apiUrl.
+export const getToolParams = (tool: Partial<OSINTTool>): ToolParam[] => {
+  return tool.params && tool.params.length > 0 ? tool.params : [LEGACY_QUERY_PARAM];
+};
+
+export const getParamPlaceholder = (param: ToolParam) => {
+  return PARAM_TYPES.find(t => t.id === param.type)?.placeholder || '';
+};
+
+export const getDefaultValues = (params: ToolParam[]): Record<string, string> => {
+  return params.reduce<Record<string, string>>((acc, p) => {
+    acc[p.name] = p.defaultValue ?? (p.type === 'enum' && p.options?.length ? p.options[0] : '');
+    return acc;
+  }, {});
+};
+
+export const validateParam = (param: ToolParam, rawValue: string | undefined): string | null => {
+  const value = (rawValue || '').trim();
+  if (!value) return param.required ? `${param.label} is required.` : null;
+
+  if (param.type === 'enum') {
+    return param.options?.includes(value) ? null : `${param.label} must be one of: ${(param.options || []).join(', ')}.`;
+  }
+
+  let pattern = TYPE_PATTERNS[param.type];
+  if (param.pattern) {
+    try {
+      pattern = new RegExp(param.pattern);
+    } catch {
+      return `${param.label} has an invalid validation pattern. Contact an admin.`;
+    }
+  }
+  if (pattern && !pattern.test(value)) {
+    const typeLabel = PARAM_TYPES.find(t => t.id === param.type)?.label.toLowerCase() || 'value';
+    return `${param.label} is not a valid ${typeLabel}.`;
+  }
+  return null;
+};
+
+export const validateParams = (params: ToolParam[], values: Record<string, string>) => {
+  const errors: Record<string, string> = {};
+  params.forEach(p => {
+    const err = validateParam(p, values[p.name]);
+    if (err) errors[p.name] = err;
+  });
+  return errors;
+};
+
+// Firestore rejects undefined fields, so optional keys are only written when set.
+export const normalizeParams = (params: ToolParam[]): ToolParam[] => {
+  return params.map(p => {
+    const clean: ToolParam = { name: p.name, label: p.label || p.name, type: p.type, required: !!p.required };
+    if (p.pattern) clean.pattern = p.pattern;
+    if (p.defaultValue) clean.defaultValue = p.defaultValue;
+    if (p.helpText) clean.helpText = p.helpText;
+    if (p.type === 'enum') clean.options = p.options || [];
+    return clean;
+  });
+};
+
+export const extractPlaceholders = (template: string): string[] => {
+  const names = Array.from(template.matchAll(/\{([A-Za-z0-9_]+)\}/g), m => m[1]);
+  return Array.from(new Set(names));
+};
+
+// Unknown placeholders are left untouched so misconfigured tools are easy to spot in the request.
+export const fillTemplate = (template: string, values: Record<string, string>, encode: (v: string) => string = encodeURIComponent) => {
+  return template.replace(/\{([A-Za-z0-9_]+)\}/g, (match, key) => (
+    Object.hasOwn(values, key) ? encode((values[key] || '').trim()) : match
+  ));
+};
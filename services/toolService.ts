@@ -0,0 +1,43 @@
+import { collection, doc, onSnapshot, query, where, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OSINTTool, UserProfile } from '../types';
+import { isPrivileged } from './access';
+import { AuditHook } from './auditService';
+
+// array-contains-any accepts at most this many values per query.
+const MAX_GROUPS_PER_QUERY = 30;
+
+const toTools = (docs: { id: string; data: () => unknown }[]) => docs.map(d => ({ id: d.id, ...(d.data() as object) } as OSINTTool));
+
+// Members may only read public tools and their groups' tools (see firestore.rules), so they query exactly
+// those instead of the whole collection, which the rules would reject.
+export const subscribeUsableTools = (profile: UserProfile, onChange: (tools: OSINTTool[]) => void, onError: () => void) => {
+  if (isPrivileged(profile)) {
+    return onSnapshot(collection(db, 'tools'), (snapshot) => onChange(toTools(snapshot.docs)), onError);
+  }
+
+  const groups = profile.groups || [];
+  const queries = [query(collection(db, 'tools'), where('allowedGroups', '==', []))];
+  for (let i = 0; i < groups.length; i += MAX_GROUPS_PER_QUERY) {
+    queries.push(query(collection(db, 'tools'), where('allowedGroups', 'array-contains-any', groups.slice(i, i + MAX_GROUPS_PER_QUERY))));
+  }
+  const results: OSINTTool[][] = queries.map(() => []);
+  const loaded = queries.map(() => false);
+  const unsubscribes = queries.map((q, i) => onSnapshot(q, (snapshot) => {
+    results[i] = toTools(snapshot.docs);
+    loaded[i] = true;
+    // Waiting for every query keeps a partial list from looking like tools were removed.
+    if (loaded.every(Boolean)) onChange(Array.from(new Map(results.flat().map(t => [t.id, t])).values()));
+  }, onError));
+  return () => unsubscribes.forEach(u => u());
+};
+
+// Tools saved before groups existed have no allowedGroups field, which the members' public query cannot match.
+export const backfillToolGroups = async (tools: OSINTTool[], audit?: AuditHook<OSINTTool[]>) => {
+  const legacy = tools.filter(t => !Array.isArray(t.allowedGroups));
+  if (legacy.length === 0) return;
+  const batch = writeBatch(db);
+  legacy.forEach(t => batch.update(doc(db, 'tools', t.id), { allowedGroups: [] }));
+  audit?.(batch, legacy);
+  await batch.commit();
+};
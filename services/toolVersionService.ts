@@ -0,0 +1,121 @@
+import { collection, doc, getDoc, getDocs, onSnapshot, query, where, writeBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { OSINTTool, ToolDraft, ToolVersion, UserProfile } from '../types';
+import { ToolConfig, toToolConfig } from './toolConfig';
+import { diffJson } from './jsonDiff';
+import { AuditHook, redactTool } from './auditService';
+
+const versionId = (toolId: string, version: number) => `${toolId}_${version}`;
+
+// Credentials never show up in a diff, only the fact that they changed.
+export const diffToolConfigs = (before: ToolConfig | null, after: ToolConfig) => diffJson(redactTool(before) || {}, redactTool(after)).entries;
+
+export const subscribeToolVersions = (toolId: string, onChange: (versions: ToolVersion[]) => void) => {
+  return onSnapshot(query(collection(db, 'toolVersions'), where('toolId', '==', toolId)),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as ToolVersion).sort((a, b) => b.version - a.version)),
+    (err) => console.error("Tool history sync failed:", err)
+  );
+};
+
+export const subscribeToolDrafts = (onChange: (drafts: ToolDraft[]) => void) => {
+  return onSnapshot(collection(db, 'toolDrafts'),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as ToolDraft)),
+    (err) => console.error("Tool drafts sync failed:", err)
+  );
+};
+
+export const draftToTool = (draft: ToolDraft): OSINTTool => ({ ...draft.config, id: draft.toolId, version: draft.baseVersion });
+
+export interface PublishOptions {
+  note?: string | null;
+  discardDraft?: boolean; // Set when the published config came from the tool's draft
+  secrets?: Record<string, any>; // Merged into toolSecrets; deleteField() removes a key
+  audit?: AuditHook<{ toolId: string; version: number }>;
+}
+
+// Writes the tool and its history entry together. Tools saved before history was kept get their
+// current config recorded first, so the first edit can still be rolled back.
+export const publishTool = async (profile: UserProfile, config: ToolConfig, existing: OSINTTool | null, { note = null, discardDraft = false, secrets, audit }: PublishOptions = {}) => {
+  const ref = existing ? doc(db, 'tools', existing.id) : doc(collection(db, 'tools'));
+  const previousVersion = existing?.version || 0;
+  const version = previousVersion + 1;
+  const batch = writeBatch(db);
+
+  if (existing && !(await getDoc(doc(db, 'toolVersions', versionId(existing.id, previousVersion)))).exists()) {
+    const baseline: ToolVersion = {
+      id: versionId(existing.id, previousVersion),
+      toolId: existing.id,
+      version: previousVersion,
+      config: toToolConfig(existing),
+      authorUid: null,
+      authorEmail: null,
+      timestamp: Date.now(),
+      diff: [],
+      note: 'Recorded before version history'
+    };
+    batch.set(doc(db, 'toolVersions', baseline.id), baseline);
+  }
+
+  // The document is replaced so a rollback drops fields added after the target version.
+  // Any new version invalidates cached results, since they may no longer match what the tool would return.
+  batch.set(ref, { ...config, version });
+
+  const entry: ToolVersion = {
+    id: versionId(ref.id, version),
+    toolId: ref.id,
+    version,
+    config,
+    authorUid: profile.uid,
+    authorEmail: profile.email,
+    timestamp: Date.now(),
+    diff: diffToolConfigs(existing ? toToolConfig(existing) : null, config),
+    note
+  };
+  batch.set(doc(db, 'toolVersions', entry.id), entry);
+  if (discardDraft) batch.delete(doc(db, 'toolDrafts', ref.id));
+  if (secrets && Object.keys(secrets).length > 0) batch.set(doc(db, 'toolSecrets', ref.id), { values: secrets }, { merge: true });
+  audit?.(batch, { toolId: ref.id, version });
+  await batch.commit();
+  return { toolId: ref.id, version };
+};
+
+// Republishes an earlier config as a new version rather than moving the version number back,
+// so results cached for later versions can never be served for it.
+export const rollbackTool = (profile: UserProfile, tool: OSINTTool, target: ToolVersion, audit?: PublishOptions['audit']) => {
+  return publishTool(profile, target.config, tool, { note: `Rolled back to v${target.version}`, audit });
+};
+
+export const saveToolDraft = async (profile: UserProfile, tool: OSINTTool, config: ToolConfig, audit?: AuditHook<ToolDraft>) => {
+  const draft: ToolDraft = {
+    toolId: tool.id,
+    baseVersion: tool.version || 0,
+    config,
+    authorUid: profile.uid,
+    authorEmail: profile.email,
+    updatedAt: Date.now()
+  };
+  const batch = writeBatch(db);
+  batch.set(doc(db, 'toolDrafts', tool.id), draft);
+  audit?.(batch, draft);
+  await batch.commit();
+  return draft;
+};
+
+export const discardToolDraft = async (toolId: string, audit?: AuditHook) => {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, 'toolDrafts', toolId));
+  audit?.(batch);
+  await batch.commit();
+};
+
+// Removes the tool with its secrets, history and draft.
+export const deleteTool = async (toolId: string, audit?: AuditHook) => {
+  const versions = await getDocs(query(collection(db, 'toolVersions'), where('toolId', '==', toolId)));
+  const batch = writeBatch(db);
+  batch.delete(doc(db, 'tools', toolId));
+  batch.delete(doc(db, 'toolSecrets', toolId));
+  versions.docs.forEach(d => batch.delete(d.ref));
+  batch.delete(doc(db, 'toolDrafts', toolId));
+  audit?.(batch);
+  await batch.commit();
+};
@@ -0,0 +1,94 @@
+// RFC 6238 time-based one-time passwords. Shared by the dashboard and the lookup gateway, so it must
+// not import the Firebase client; every check takes the current time so it can run against a fixed clock.
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const TOTP_ISSUER = 'Flexer OSINT';
+export const RECOVERY_CODE_COUNT = 10;
+
+// Codes from one period either side are accepted to allow for clock drift between phone and server.
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const encodeBase32 = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const decodeBase32 = (input: string) => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}".`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+export const generateTotpSecret = (byteLength = 20) => encodeBase32(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const totpStep = (now: number, period = TOTP_PERIOD_SECONDS) => Math.floor(now / 1000 / period);
+
+export const generateHotp = async (secret: string, counter: number, digits = TOTP_DIGITS) => {
+  const key = await crypto.subtle.importKey('raw', decodeBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const generateTotp = (secret: string, now: number, digits = TOTP_DIGITS) => generateHotp(secret, totpStep(now), digits);
+
+// Returns the time step the code belongs to, or null. Steps at or before lastUsedStep are refused so a
+// code cannot be replayed once it has been accepted.
+export const verifyTotp = async (secret: string, code: string, now: number, lastUsedStep = -1) => {
+  const clean = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(clean)) return null;
+  const current = totpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && await generateHotp(secret, step) === clean) return step;
+  }
+  return null;
+};
+
+export const buildOtpauthUrl = (secret: string, account: string, issuer = TOTP_ISSUER) => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+};
+
+// Recovery codes look like "k7fq-2mxa"; they are compared case-insensitively and without the dash.
+export const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z2-7]/g, '');
+
+export const generateRecoveryCodes = (count = RECOVERY_CODE_COUNT) => Array.from({ length: count }, () => {
+  const code = encodeBase32(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+});
+
+// Only hashes are stored, so a leaked document does not reveal usable codes.
+export const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,109 @@
+import { Watch } from '../types';
+
+// Pure timing logic: the clock and the run function are injected. It runs in the browser, so watches only
+// re-run while a dashboard tab is open; due watches catch up on the next visit.
+
+export const WATCH_INTERVALS: { minutes: number; label: string }[] = [
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Daily' },
+  { minutes: 10080, label: 'Weekly' }
+];
+
+export const formatWatchInterval = (minutes: number) => {
+  return WATCH_INTERVALS.find(i => i.minutes === minutes)?.label || `Every ${minutes} min`;
+};
+
+export interface SchedulerClock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+export const isWatchDue = (watch: Watch, now: number) => !watch.paused && watch.nextRunAt <= now;
+
+export const nextRunAfter = (watch: Pick<Watch, 'intervalMinutes'>, now: number) => now + watch.intervalMinutes * 60_000;
+
+export interface WatchSchedulerOptions {
+  clock?: SchedulerClock;
+  getWatches: () => Watch[];
+  runWatch: (watch: Watch, now: number) => Promise<void>;
+  maxSleepMs?: number; // Upper bound between checks, so watches created elsewhere are picked up
+  retryMs?: number; // How long a watch whose run did not move nextRunAt waits before it is tried again
+}
+
+export interface WatchScheduler {
+  start: () => void;
+  stop: () => void;
+  refresh: () => void; // Call when the watch list changes
+  tick: () => Promise<void>; // Runs every due watch; resolves with the run already in progress, if any
+}
+
+export const createWatchScheduler = ({ clock = systemClock, getWatches, runWatch, maxSleepMs = 60_000, retryMs = 5 * 60_000 }: WatchSchedulerOptions): WatchScheduler => {
+  let timer: unknown = null;
+  let stopped = true;
+  let inFlight: Promise<void> | null = null;
+  // The watch list may lag behind a run that just finished, so a watch is not retried for the same nextRunAt too soon.
+  const attempts = new Map<string, { nextRunAt: number; at: number }>();
+
+  const readyAt = (watch: Watch) => {
+    const attempt = attempts.get(watch.id);
+    return attempt && attempt.nextRunAt === watch.nextRunAt ? Math.max(watch.nextRunAt, attempt.at + retryMs) : watch.nextRunAt;
+  };
+
+  const schedule = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+    if (stopped) return;
+    const now = clock.now();
+    const next = Math.min(now + maxSleepMs, ...getWatches().filter(w => !w.paused).map(readyAt));
+    timer = clock.setTimeout(() => { timer = null; tick(); }, Math.max(0, next - now));
+  };
+
+  // Due watches run one at a time, oldest first, so waking up to a backlog does not burst the provider.
+  const runDue = async () => {
+    const due = getWatches()
+      .filter(w => isWatchDue(w, clock.now()) && readyAt(w) <= clock.now())
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+    for (const watch of due) {
+      if (stopped) break;
+      attempts.set(watch.id, { nextRunAt: watch.nextRunAt, at: clock.now() });
+      try {
+        await runWatch(watch, clock.now());
+      } catch (err) {
+        console.error(`Watch ${watch.id} failed:`, err);
+      }
+    }
+  };
+
+  const tick = () => {
+    if (!inFlight) {
+      inFlight = runDue().finally(() => {
+        inFlight = null;
+        schedule();
+      });
+    }
+    return inFlight;
+  };
+
+  return {
+    start: () => {
+      stopped = false;
+      tick();
+    },
+    stop: () => {
+      stopped = true;
+      schedule();
+    },
+    refresh: () => {
+      if (!inFlight) schedule();
+    },
+    tick
+  };
+};
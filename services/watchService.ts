@@ -0,0 +1,117 @@
+import { collection, doc, onSnapshot, query, where, setDoc, updateDoc, writeBatch, getDocs, runTransaction } from 'firebase/firestore';
+import { db } from '../firebase';
+import { LookupResult, OSINTTool, UserProfile, Watch, WatchChange } from '../types';
+import { loadStoredResponse } from './historyService';
+import { diffJson } from './jsonDiff';
+import { nextRunAfter } from './watchScheduler';
+
+export const subscribeWatches = (uid: string, onChange: (watches: Watch[]) => void) => {
+  return onSnapshot(query(collection(db, 'watches'), where('uid', '==', uid)),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as Watch).sort((a, b) => b.createdAt - a.createdAt)),
+    (err) => console.error("Watch sync failed:", err)
+  );
+};
+
+export const subscribeWatchChanges = (uid: string, onChange: (changes: WatchChange[]) => void) => {
+  return onSnapshot(query(collection(db, 'watchChanges'), where('uid', '==', uid)),
+    (snapshot) => onChange(snapshot.docs.map(d => d.data() as WatchChange).sort((a, b) => b.timestamp - a.timestamp)),
+    (err) => console.error("Watch inbox sync failed:", err)
+  );
+};
+
+// The lookup the watch was created from is its first baseline.
+export const createWatch = async (profile: UserProfile, tool: OSINTTool, lookup: LookupResult, intervalMinutes: number, now = Date.now()) => {
+  const ref = doc(collection(db, 'watches'));
+  const watch: Watch = {
+    id: ref.id,
+    uid: profile.uid,
+    userEmail: profile.email,
+    toolId: tool.id,
+    toolName: tool.name,
+    params: lookup.params,
+    intervalMinutes,
+    paused: false,
+    createdAt: now,
+    nextRunAt: nextRunAfter({ intervalMinutes }, now),
+    lastRunAt: null,
+    lastStatus: null,
+    lastError: null,
+    baselineLookupId: lookup.id,
+    baselineRef: lookup.responseRef || null
+  };
+  await setDoc(ref, watch);
+  return watch;
+};
+
+export const updateWatch = async (watchId: string, changes: Partial<Pick<Watch, 'intervalMinutes' | 'paused' | 'nextRunAt'>>) => {
+  await updateDoc(doc(db, 'watches', watchId), changes);
+};
+
+// The inbox entries go with the watch; the lookups it ran stay in history.
+export const deleteWatch = async (watch: Watch) => {
+  const changes = await getDocs(query(collection(db, 'watchChanges'), where('uid', '==', watch.uid), where('watchId', '==', watch.id)));
+  const batch = writeBatch(db);
+  changes.docs.forEach(d => batch.delete(d.ref));
+  batch.delete(doc(db, 'watches', watch.id));
+  await batch.commit();
+};
+
+// Moves nextRunAt forward before running, so two open tabs never run the same watch twice. False means another tab won.
+export const claimWatch = async (watch: Watch, now: number) => {
+  return runTransaction(db, async (tx) => {
+    const ref = doc(db, 'watches', watch.id);
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists()) return false;
+    const current = snapshot.data() as Watch;
+    if (current.paused || current.nextRunAt > now) return false;
+    tx.update(ref, { nextRunAt: nextRunAfter(current, now), lastRunAt: now });
+    return true;
+  });
+};
+
+export const recordWatchFailure = async (watch: Watch, message: string) => {
+  await updateDoc(doc(db, 'watches', watch.id), { lastStatus: 'error', lastError: message });
+};
+
+// Diffs the new response against the baseline and files an inbox entry when anything moved.
+// A run whose history entry could not be saved keeps the old baseline, so the next run still sees the change.
+export const recordWatchResult = async (watch: Watch, lookup: LookupResult | null, data: any, now = Date.now()) => {
+  const previous = watch.baselineRef ? await loadStoredResponse(watch.baselineRef) : null;
+  let changed = false;
+
+  if (previous !== null && watch.baselineLookupId) {
+    const diff = diffJson(previous, data);
+    if (diff.entries.length > 0) {
+      changed = true;
+      const ref = doc(collection(db, 'watchChanges'));
+      const change: WatchChange = {
+        id: ref.id,
+        uid: watch.uid,
+        watchId: watch.id,
+        toolId: watch.toolId,
+        toolName: watch.toolName,
+        params: watch.params,
+        fromLookupId: watch.baselineLookupId,
+        toLookupId: lookup?.id || null,
+        timestamp: now,
+        diff: diff.entries,
+        diffTruncated: diff.truncated,
+        read: false
+      };
+      await setDoc(ref, change);
+    }
+  }
+
+  await updateDoc(doc(db, 'watches', watch.id), {
+    lastStatus: changed ? 'changed' : 'unchanged',
+    lastError: null,
+    ...(lookup?.responseRef ? { baselineLookupId: lookup.id, baselineRef: lookup.responseRef } : {})
+  });
+  return changed;
+};
+
+export const markWatchChangesRead = async (changes: WatchChange[]) => {
+  const batch = writeBatch(db);
+  changes.filter(c => !c.read).forEach(c => batch.update(doc(db, 'watchChanges', c.id), { read: true }));
+  await batch.commit();
+};
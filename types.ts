@@ -1,7 +1,52 @@
+export type DevicePlatform = 'desktop' | 'mobile' | 'tablet';
+
 export interface SessionMetadata {
+  sid: string;
+  deviceName: string; // Summary such as "Chrome 126 on Windows"; older sessions hold the raw user agent fragment
+  browser?: string;
+  os?: string;
+  platform?: DevicePlatform;
+  label?: string | null; // Name given by the user, shown instead of deviceName
+  firstSeenAt?: number; // When the device first asked to sign in, which may be before its approval
+  timestamp: number; // When the device was authorized; the absolute timeout counts from here
+  lastActiveAt?: number; // Last heartbeat after an interaction; the idle timeout counts from here
+}
+
+export type SessionEndReason = 'revoked' | 'replaced' | 'idle' | 'expired' | 'signedOut';
+
+// Kept on the profile so the affected device can tell the user why it was signed out.
+export interface EndedSession {
   sid: string;
   deviceName: string;
-  timestamp: number;
+  reason: SessionEndReason;
+  at: number;
+  byEmail?: string | null; // Set when someone else revoked it
+}
+
+// Stored in settings/sessions. Null means unlimited or never.
+export interface SessionSettings {
+  deviceLimits: { standard: number | null; admin: number | null }; // Concurrent devices per role
+  idleTimeoutMinutes: number | null;
+  absoluteTimeoutHours: number | null;
+}
+
+// Unset or null means unlimited.
+export interface QuotaLimits {
+  daily?: number | null;
+  monthly?: number | null;
+}
+
+// Second-factor state kept on the profile so the app can gate itself; secrets live in mfaSecrets.
+export interface MfaStatus {
+  enabled: boolean;
+  enrolledAt: number | null;
+  recoveryCodesLeft: number;
+  verifiedAuthTimes: number[]; // auth_time (seconds) of sign-ins that passed the second factor, newest first
+}
+
+// Stored in settings/security; only the owner may change it.
+export interface SecuritySettings {
+  requireMfaForStandard: boolean; // Admins and the owner always need a second factor
 }
 
 export interface UserProfile {
@@ -10,10 +55,69 @@ export interface UserProfile {
   isAdmin: boolean;
   isOwner?: boolean;
   isApproved: boolean;
-  lastSessionId: string; // Used for standard users (1-device limit)
-  authorizedSessions?: SessionMetadata[]; // Used for Admin/Owner (Multi-device management)
-  pendingSessionId?: string | null;
+  lastSessionId: string; // Legacy single-device field; moved into authorizedSessions on the next session change
+  authorizedSessions?: SessionMetadata[];
+  endedSessions?: EndedSession[]; // Most recent first, see MAX_ENDED_SESSIONS
+  pendingSessionId?: string | null; // A device waiting for a free slot
   pendingSessionMetadata?: SessionMetadata | null;
+  deviceLimit?: number | null; // Overrides SessionSettings.deviceLimits for this user
+  mfa?: MfaStatus | null; // Written only by the gateway
+  quota?: QuotaLimits | null; // Overrides QuotaSettings.defaults for this user
+  groups?: string[]; // ToolGroup ids
+  inviteCode?: string | null; // Invite that approved the account, written only by the gateway
+}
+
+// Stored in groups/{id}.
+export interface ToolGroup {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export type ToolParamType = 'text' | 'email' | 'phone' | 'domain' | 'ip' | 'username' | 'enum';
+
+export interface ToolParam {
+  name: string; // Placeholder key used as {name} in apiUrl
+  label: string;
+  type: ToolParamType;
+  required?: boolean;
+  pattern?: string; // Optional regex that overrides the built-in check for the type
+  defaultValue?: string;
+  helpText?: string;
+  options?: string[]; // Only used by 'enum'
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type ToolBodyType = 'none' | 'json' | 'form';
+export type ToolAuthType = 'none' | 'bearer' | 'basic' | 'apiKey';
+
+export interface ToolHeader {
+  key: string;
+  value: string; // Supports the same {placeholders} as apiUrl
+}
+
+export interface ToolAuth {
+  type: ToolAuthType;
+  token?: string; // bearer
+  username?: string; // basic
+  password?: string; // basic
+  headerName?: string; // apiKey, e.g. X-API-Key
+  apiKey?: string; // apiKey
+}
+
+export type ResultMappingKind = 'field' | 'list' | 'table';
+
+export interface ResultMappingColumn {
+  label: string;
+  path: string; // Relative to each row, e.g. $.name
+}
+
+// One labeled section of the Structured view. Paths use the JSONPath subset in services/jsonPath.ts.
+export interface ResultMappingItem {
+  label: string;
+  kind: ResultMappingKind;
+  path: string;
+  columns?: ResultMappingColumn[]; // Only used by 'table'
 }
 
 export interface OSINTTool {
@@ -22,15 +126,452 @@ export interface OSINTTool {
   apiUrl: string;
   description: string;
   icon: string;
-  useProxy?: boolean;
+  useProxy?: boolean; // Run through the self-hosted lookup gateway instead of calling the API from the browser
+  version?: number; // Bumped on every save; part of the result cache key
+  cacheTtlHours?: number | null; // Unset or 0 disables result caching
+  secretKeys?: string[]; // Placeholder names resolved server-side from toolSecrets/{id}; gateway tools only
+  params?: ToolParam[]; // Tools saved before schemas existed fall back to a single {query} field
+  method?: HttpMethod; // Defaults to GET
+  headers?: ToolHeader[];
+  bodyType?: ToolBodyType;
+  bodyTemplate?: string; // JSON text or key=value lines for 'form'
+  auth?: ToolAuth;
+  quota?: QuotaLimits | null; // Team-wide cap on calls to this tool's provider
+  allowedGroups?: string[]; // Empty means every approved user. Always stored, since members query on it
+  resultMapping?: ResultMappingItem[];
+  ai?: ToolAiConfig;
 }
 
-export interface LookupResult {
+export type AiProviderId = 'gemini' | 'openai' | 'stub';
+
+// Unset fields fall back to the gateway's default provider, that provider's default model and the built-in prompt.
+export interface ToolAiConfig {
+  enabled: boolean;
+  provider?: AiProviderId | null;
+  model?: string | null;
+  templateId?: string | null;
+}
+
+// Stored in promptTemplates/{id}. Supports the {tool}, {params} and {data} placeholders.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  template: string;
+}
+
+// Stored in toolSecrets/{toolId}. Never readable by clients; only the gateway loads it.
+export interface ToolSecrets {
+  values: Record<string, string>;
+}
+
+// Stored in mfaSecrets/{uid}. Never readable by clients; only the gateway loads it.
+export interface MfaSecrets {
+  secret: string | null; // Base32 TOTP secret once enrollment is confirmed
+  pendingSecret: string | null; // Shown during enrollment until a code confirms it
+  recoveryCodeHashes: string[]; // SHA-256 of unused recovery codes
+  lastUsedStep: number; // Last accepted TOTP step, so a code cannot be replayed
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+// Stored in toolVersions/{toolId}_{version} each time a tool is published. Admins only, never changed afterwards.
+export interface ToolVersion {
+  id: string;
   toolId: string;
+  version: number;
+  config: Omit<OSINTTool, 'id' | 'version'>;
+  authorUid: string | null; // Null for the baseline recorded from a tool saved before history was kept
+  authorEmail: string | null;
   timestamp: number;
+  diff: JsonDiffEntry[]; // From the previous version, with credentials redacted
+  note: string | null; // e.g. "Rolled back to v3"
+}
+
+// Stored in toolDrafts/{toolId}. Admins can try a draft from the dashboard; everyone else keeps the published tool.
+export interface ToolDraft {
+  toolId: string;
+  baseVersion: number; // Published version the draft started from
+  config: Omit<OSINTTool, 'id' | 'version'>;
+  authorUid: string;
+  authorEmail: string;
+  updatedAt: number;
+}
+
+// A tool as it appears in an exported bundle. Credentials are blanked and listed in requiresSecrets.
+export interface BundledTool extends Omit<OSINTTool, 'version'> {
+  requiresSecrets: string[]; // e.g. auth.token, headers.X-API-Key, secrets.api_key
+}
+
+export interface ToolBundle {
+  format: 'flexer-tool-bundle';
+  version: number; // Bundle format version, not a tool version
+  exportedAt: number;
+  exportedBy: string;
+  tools: BundledTool[];
+}
+
+export interface GatewayLookupResponse {
+  status: number;
+  contentType: string;
+  durationMs: number;
   data: any;
-  status: 'success' | 'error';
+  cache?: CachedResultInfo | null; // Set when the response came from the result cache
+}
+
+// Stored in lookupCache/{toolId}_{hash}; the hash covers the tool version and normalized parameters.
+export interface CachedResult {
+  toolId: string;
+  toolVersion: number;
+  params: Record<string, string>;
+  body: string;
+  truncated: boolean;
+  createdAt: number;
+  expiresAt: number;
+  createdBy: string; // uid, or "gateway" for proxied tools
+  aiSummary?: string | null;
+  aiAnalysis?: StructuredAnalysis | null;
+}
+
+export interface CachedResultInfo {
+  createdAt: number;
+  aiSummary: string | null;
+  aiAnalysis: StructuredAnalysis | null;
+}
+
+// Answer to POST /test. Test runs skip quota, the result cache and history.
+export interface ToolTestResponse {
+  status: number;
+  contentType: string;
+  durationMs: number;
+  sizeBytes: number;
+  data: any;
+}
+
+export type InviteRole = 'member' | 'admin';
+
+export interface InviteRedemption {
+  uid: string;
+  email: string;
+  at: number;
+}
+
+// Stored in invites/{code}. Created by admins and redeemed through the gateway, which approves the new account.
+export interface Invite {
+  code: string; // Normalized: upper case, no dashes
+  role: InviteRole;
+  groups: string[]; // ToolGroup ids given on redemption
+  maxUses: number;
+  uses: number;
+  expiresAt: number | null; // null never expires
+  createdAt: number;
+  createdBy: string; // Admin email
+  revokedAt: number | null;
+  revokedBy: string | null;
+  redemptions: InviteRedemption[];
+}
+
+export interface InviteRedeemResponse {
+  role: InviteRole;
+  groups: string[];
+}
+
+// Answers to the /mfa endpoints.
+export interface MfaEnrollResponse {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface MfaRecoveryCodesResponse {
+  recoveryCodes: string[]; // Shown once; only their hashes are kept
+}
+
+export interface MfaVerifyResponse {
+  method: 'totp' | 'recovery';
+  recoveryCodesLeft: number;
+}
+
+export interface GatewayAnalysisResponse {
+  text: string;
+  structured: StructuredAnalysis | null;
+  provider: AiProviderId;
+  model: string;
+}
+
+export interface GatewayChatResponse {
+  text: string;
+  provider: AiProviderId;
+  model: string;
+}
+
+// Streaming endpoints answer with one JSON event per line (NDJSON).
+export type GatewayStreamEvent<TDone> =
+  | { type: 'chunk'; text: string }
+  | ({ type: 'done' } & TDone)
+  | { type: 'error'; code: string; message: string };
+
+export type AnalysisStreamEvent = GatewayStreamEvent<GatewayAnalysisResponse>;
+export type ChatStreamEvent = GatewayStreamEvent<GatewayChatResponse>;
+
+export interface GatewayErrorResponse {
+  error: { code: string; message: string };
+}
+
+// Stored in settings/quotas.
+export interface QuotaSettings {
+  defaults: QuotaLimits; // Per-user limits for accounts without an override
+}
+
+// Stored in usage/{scope}_{subjectId}_{period}; period is YYYY-MM-DD or YYYY-MM (UTC).
+export interface UsageCounter {
+  scope: 'user' | 'tool' | 'ai'; // ai counters are per user and written by the gateway alone
+  subjectId: string;
+  period: string;
+  count: number;
+}
+
+export type LookupStatus = 'success' | 'error';
+
+// Stored in lookups/{id}. The raw response lives in lookupResponses/{id} to keep history queries small.
+export interface LookupResult {
+  id: string;
+  uid: string;
+  userEmail: string;
+  toolId: string;
+  toolName: string;
+  params: Record<string, string>;
+  timestamp: number;
+  status: LookupStatus;
+  error?: string | null;
+  responseRef?: string | null;
+  aiSummary?: string | null; // Plain-text rendering, also used by reports and cases
+  aiAnalysis?: StructuredAnalysis | null; // Set when the model output passed validation
+  chat?: ChatMessage[]; // Follow-up Q&A grounded on this lookup
+  chatSources?: ChatSourceRef[]; // Other lookups attached to the conversation
+  pivot?: LookupPivot; // Set when the lookup was started from an entity in another result
+  cachedAt?: number; // Set when the result was served from the result cache
+  durationMs?: number; // Provider round trip; absent for cache hits
+  toolVersion?: number; // Tool version that produced the result; absent for lookups from before versions were recorded
+  toolDraft?: boolean; // Set when an admin ran the unpublished draft based on toolVersion
+}
+
+// Entities are values in a result that can feed another tool's input.
+export type EntityType = Exclude<ToolParamType, 'text' | 'enum'>;
+
+export interface ExtractedEntity {
+  type: EntityType;
+  value: string;
+  paths: string[]; // Where the value occurs in the result
+}
+
+export interface LookupPivot {
+  fromLookupId: string;
+  entityType: EntityType;
+  value: string;
+}
+
+// Graph of lookups and the entities that went into or came out of them.
+export interface GraphNode {
+  id: string; // "lookup:<lookupId>" or "entity:<type>:<value>"
+  kind: 'lookup' | 'entity';
+  label: string;
+  entityType?: EntityType;
+  value?: string;
+  lookupIds: string[]; // For lookups, the lookup itself; for entities, every lookup they appear in
+  toolId?: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: 'input' | 'found' | 'pivot'; // Entity searched by the lookup, entity found in its result, or lookup-to-lookup pivot
+  toolId: string; // Tool that produced the link
+  toolName: string;
+}
+
+export interface EntityGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// One hop in the dashboard's pivot breadcrumb trail.
+export interface PivotStep {
+  toolId: string;
+  toolName: string;
+  params: Record<string, string>;
+  lookupId: string | null; // Null until the lookup for this step has run
+  via?: { type: EntityType; value: string };
+}
+
+// Answers cite data as {{S1 $.path}}; source 1 is the lookup itself, later ones are attached lookups.
+export interface ChatCitation {
+  source: number;
+  path: string;
+  valid: boolean; // Whether the path resolves in that source's data
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  citations?: ChatCitation[];
+}
+
+export interface ChatSourceRef {
+  lookupId: string;
+  toolId: string;
+  toolName: string;
+  params: Record<string, string>;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AnalysisEntity {
+  type: string; // e.g. email, domain, ip, username, phone, person
+  value: string;
+}
+
+export interface AnalysisFinding {
+  title: string;
+  detail: string;
+  paths: string[]; // JSONPaths into the raw response that support the finding
+}
+
+export interface StructuredAnalysis {
+  summary: string;
+  entities: AnalysisEntity[];
+  risk: { level: RiskLevel; justification: string };
+  findings: AnalysisFinding[];
+  nextSteps: string[];
+}
+
+export interface StoredLookupResponse {
+  uid: string;
+  body: string; // JSON-encoded, since Firestore cannot store nested arrays
+  truncated: boolean;
+}
+
+export type WatchRunStatus = 'unchanged' | 'changed' | 'error';
+
+// Stored in watches/{id}. Each run is a normal lookup; the baseline is the response of the last successful one.
+export interface Watch {
+  id: string;
+  uid: string;
+  userEmail: string;
+  toolId: string;
+  toolName: string;
+  params: Record<string, string>;
+  intervalMinutes: number;
+  paused: boolean;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt: number | null;
+  lastStatus: WatchRunStatus | null;
+  lastError: string | null;
+  baselineLookupId: string | null;
+  baselineRef: string | null; // lookupResponses/{id} of the baseline lookup
+}
+
+export type JsonDiffKind = 'added' | 'removed' | 'changed';
+
+export interface JsonDiffEntry {
+  path: string; // JSONPath in the newer response, or the older one for removals
+  kind: JsonDiffKind;
+  before?: string; // JSON preview, cut to a few hundred characters
+  after?: string;
+}
+
+// Stored in watchChanges/{id}, one per run that found a difference. This is the Watch inbox.
+export interface WatchChange {
+  id: string;
+  uid: string;
+  watchId: string;
+  toolId: string;
+  toolName: string;
+  params: Record<string, string>;
+  fromLookupId: string;
+  toLookupId: string | null;
+  timestamp: number;
+  diff: JsonDiffEntry[];
+  diffTruncated: boolean;
+  read: boolean;
+}
+
+export type CaseStatus = 'open' | 'active' | 'closed';
+
+// Stored in cases/{id}. Assignees are lowercase emails; membership drives read access.
+export interface InvestigationCase {
+  id: string;
+  title: string;
+  status: CaseStatus;
+  ownerUid: string;
+  ownerEmail: string;
+  assignees: string[]; // Always includes the owner
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CaseItemKind = 'lookup' | 'summary' | 'note';
+
+// Stored in cases/{caseId}/items/{id}. Lookup data is copied so every member can read it.
+export interface CaseItem {
+  id: string;
+  kind: CaseItemKind;
+  authorUid: string;
+  authorEmail: string;
+  timestamp: number; // When the lookup ran, or when the note was written
+  text?: string | null; // Note or AI summary
+  lookupId?: string | null;
+  toolId?: string | null;
+  toolName?: string | null;
+  params?: Record<string, string> | null;
+  responseBody?: string | null; // JSON-encoded, see StoredLookupResponse
+  truncated?: boolean;
+}
+
+export type AuditAction =
+  | 'user.approval'
+  | 'user.admin'
+  | 'user.delete'
+  | 'tool.create'
+  | 'tool.update'
+  | 'tool.delete'
+  | 'tool.draft'
+  | 'tool.rollback'
+  | 'tool.test'
+  | 'session.authorize'
+  | 'session.revoke'
+  | 'user.quota'
+  | 'settings.quota'
+  | 'user.deviceLimit'
+  | 'settings.sessions'
+  | 'user.mfa'
+  | 'settings.security'
+  | 'user.groups'
+  | 'group.create'
+  | 'group.update'
+  | 'group.delete'
+  | 'template.create'
+  | 'template.update'
+  | 'template.delete'
+  | 'invite.create'
+  | 'invite.revoke'
+  | 'invite.redeem';
+
+// Append-only record in auditLog/{id}.
+export interface AuditEntry {
+  id: string;
+  actorUid: string;
+  actorEmail: string;
+  action: AuditAction;
+  targetType: 'user' | 'tool' | 'session' | 'settings' | 'group' | 'template' | 'invite';
+  targetId: string;
+  targetLabel: string;
+  before: any;
+  after: any;
+  timestamp: number;
 }
 
 export const ADMIN_TELEGRAM = "flexer_admin_bot";
-export const ROOT_OWNER_EMAIL = "owner@flexer.io"; // Change this to your desired owner email
\ No newline at end of file
+// Change this to your desired owner email, and the same address in the users create rule in firestore.rules.
+export const ROOT_OWNER_EMAIL = "owner@flexer.io";
\ No newline at end of file
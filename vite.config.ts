@@ -4,22 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ""),
-  },
   build: {
     outDir: 'dist',
     sourcemap: false,
     rollupOptions: {
       output: {
         manualChunks: {
-          'vendor': ['react', 'react-dom', 'firebase/app', 'firebase/auth', 'firebase/firestore'],
-          'genai': ['@google/genai']
+          'vendor': ['react', 'react-dom', 'firebase/app', 'firebase/auth', 'firebase/firestore']
         }
       }
     }
   },
   server: {
-    port: 3000
+    port: 3000,
+    proxy: {
+      '/gateway': {
+        target: process.env.GATEWAY_URL || 'http://localhost:8787',
+        rewrite: (path) => path.replace(/^\/gateway/, '')
+      }
+    }
   }
 });